@@ -1,10 +1,29 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import AnnotationCanvas, { AnnotationCanvasRef } from './components/AnnotationCanvas';
 import DynamicIsland from './components/DynamicIsland';
 import GeminiConfigModal, { GeminiConfig } from './components/GeminiConfigModal';
+import AudioSettingsModal from './components/AudioSettingsModal';
+import SessionReplay from './components/SessionReplay';
+import TranscriptPanel from './components/TranscriptPanel';
 import { GeminiLiveService } from './services/geminiLiveService';
-import { ConnectionState, AudioPeer, DrawingElement } from './types';
+import { MockLiveProvider } from './services/mockLiveProvider';
+import { LiveAssistantCallbacks, LiveAssistantProvider, LiveAssistantProviderKind } from './services/liveAssistantProvider';
+import { createAiToolRegistry } from './services/aiTools';
+import { PersonaLibrary, getActivePersona, isToolAllowed, loadPersonaLibrary, savePersonaLibrary } from './services/personas';
+import { ProposalQueue, describeProposal } from './services/proposalQueue';
+import { frameToWorld, FrameTransform, VisualFrameOptions, worldToFrame } from './services/visualFrame';
+import { FrameScheduler, FrameStats } from './services/frameScheduler';
+import { AudioSettings, loadAudioSettings, saveAudioSettings } from './services/audioSettings';
+import { BoardSyncService, createRoomId, syncPeerToAudioPeer } from './services/boardSync';
+import { TranscriptEntry, appendTranscript, closeTranscriptTurn } from './services/transcript';
+import { SessionRecorder, SessionRecording, SESSION_FILE_EXTENSION, readRecordingFile } from './services/sessionRecorder';
+import { ConnectionState, AudioPeer, DrawingElement, PresenceState, LocalPresence, AiProposal } from './types';
+
+const LOCAL_USER_ID = `user-${Math.random().toString(36).slice(2, 10)}`;
+const LOCAL_USER_AVATAR = 'https://picsum.photos/100/100'; // Placeholder
+const toolRegistry = createAiToolRegistry();
+const proposalQueue = new ProposalQueue();
 
 const App: React.FC = () => {
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
@@ -12,61 +31,79 @@ const App: React.FC = () => {
   const [aiVolume, setAiVolume] = useState(0);
   const [isMuted, setIsMuted] = useState(false);
   const [aiTranscription, setAiTranscription] = useState('');
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(false); 
   
   // Configuration State
   const [isConfigModalOpen, setIsConfigModalOpen] = useState(false);
+  const [isAudioSettingsOpen, setIsAudioSettingsOpen] = useState(false);
+  const [audioSettings, setAudioSettings] = useState<AudioSettings>(loadAudioSettings);
   const [geminiConfig, setGeminiConfig] = useState<GeminiConfig>({
-    name: 'Gemini Live',
-    voiceName: 'Kore',
-    systemInstruction: `You are a smart AI Co-Host for a 'JournalFX' Mentor Session. You are an expert financial analyst.
-
-Your goal is to provide concise, technical observations about the user's drawings on the chart. 
-- Focus on price action structure (HH, HL).
-- Identify potential liquidity zones.
-- Keep responses brief and conversational.`,
-    isEnabled: true
+    isEnabled: true,
+    showFrameGrid: true
   });
+  const [personaLibrary, setPersonaLibrary] = useState<PersonaLibrary>(loadPersonaLibrary);
+  const activePersona = getActivePersona(personaLibrary);
+  const activePersonaRef = useRef(activePersona); // Tool calls check against the persona the session started with
 
   const [peers, setPeers] = useState<AudioPeer[]>([
     {
-        id: 'user-1',
+        id: LOCAL_USER_ID,
         name: 'You',
-        avatar: 'https://picsum.photos/100/100', // Placeholder
+        avatar: LOCAL_USER_AVATAR,
         isSpeaking: false,
         isMuted: false,
         type: 'human'
     },
     {
         id: 'gemini-ai',
-        name: 'Gemini Live',
-        avatar: 'https://picsum.photos/101/101', // Different placeholder
+        name: activePersona.name,
+        avatar: activePersona.avatar,
         isSpeaking: false,
         isMuted: false,
         type: 'ai'
     }
   ]);
 
-  const geminiServiceRef = useRef<GeminiLiveService | null>(null);
+  const assistantRef = useRef<LiveAssistantProvider | null>(null);
+  const syncServiceRef = useRef<BoardSyncService | null>(null);
+  const [roomId, setRoomId] = useState<string | null>(() => new URLSearchParams(window.location.search).get('room'));
+  const [boardSyncState, setBoardSyncState] = useState<ConnectionState | null>(null); // null outside a shared room
+  const [remotePresence, setRemotePresence] = useState<PresenceState[]>([]);
   const canvasRef = useRef<AnnotationCanvasRef | null>(null);
   const canvasHtmlRef = useRef<HTMLCanvasElement | null>(null); // For image streaming
+  const latestElementsRef = useRef<DrawingElement[]>([]);
+  const frameTransformRef = useRef<FrameTransform | null>(null); // Viewport of the last frame the model saw
+  const frameSchedulerRef = useRef<FrameScheduler | null>(null);
+  const frameOptionsRef = useRef<Omit<VisualFrameOptions, 'resolution'>>({ grid: true, isDarkMode: false });
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+
+  // Session Recording & Replay
+  const recorderRef = useRef(new SessionRecorder());
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [replayRecording, setReplayRecording] = useState<SessionRecording | null>(null);
+  const [replayElements, setReplayElements] = useState<DrawingElement[] | null>(null);
+
+  // AI changes waiting for the user's decision
+  const [proposals, setProposals] = useState<AiProposal[]>([]);
   
-  const isAiSpeakingRef = useRef(false);
   const aiSpeakingTimeoutRef = useRef<number | null>(null);
 
   // Initialize Service
   useEffect(() => {
     const apiKey = process.env.API_KEY || ''; 
-    
-    if (!apiKey) {
-      console.error("No API Key found");
-      return;
-    }
+    const providerKind = (process.env.LIVE_PROVIDER || 'gemini') as LiveAssistantProviderKind;
 
-    geminiServiceRef.current = new GeminiLiveService({
-      apiKey,
-      onConnectionStateChange: (state) => setConnectionState(state),
+    const callbacks: LiveAssistantCallbacks = {
+      onConnectionStateChange: (state) => {
+        setConnectionState(state);
+        // Suggestions stay up through a reconnect (the user can still accept them); they go once the session has ended
+        if (state === ConnectionState.DISCONNECTED || state === ConnectionState.ERROR) proposalQueue.rejectAll();
+      },
       onAudioData: (buffer) => {
+        recorderRef.current.recordModelAudio(buffer);
         const data = buffer.getChannelData(0);
         let sum = 0;
         for (let i = 0; i < data.length; i += 10) {
@@ -76,13 +113,11 @@ Your goal is to provide concise, technical observations about the user's drawing
         const volume = Math.min(1, avg * 5); 
         setAiVolume(volume);
 
-        isAiSpeakingRef.current = true;
         if (aiSpeakingTimeoutRef.current) clearTimeout(aiSpeakingTimeoutRef.current);
 
         aiSpeakingTimeoutRef.current = window.setTimeout(() => {
             setAiTranscription(''); 
             setAiVolume(0);
-            isAiSpeakingRef.current = false;
             setPeers(prev => prev.map(p => 
                 p.type === 'ai' ? { ...p, isSpeaking: false } : p
             ));
@@ -93,104 +128,207 @@ Your goal is to provide concise, technical observations about the user's drawing
         ));
       },
       onTranscription: (text, isModel) => {
+          recorderRef.current.recordTranscription(text, isModel);
+          setTranscript(prev => text === null
+              ? closeTranscriptTurn(prev, isModel ? 'model' : 'user')
+              : appendTranscript(prev, isModel ? 'model' : 'user', text));
           if (isModel) {
               if (text === null) {
                   setAiTranscription('');
                   if (aiSpeakingTimeoutRef.current) clearTimeout(aiSpeakingTimeoutRef.current);
-                  isAiSpeakingRef.current = false;
               } else {
                   setAiTranscription(prev => prev + text);
               }
           }
       },
-      onVolumeChange: (vol) => {
-          setUserVolume(vol);
+      onTurnComplete: () => setTranscript(prev => closeTranscriptTurn(prev)),
+      onInputAudio: (samples, sampleRate) => recorderRef.current.recordMicAudio(samples, sampleRate),
+      onVolumeChange: (vol) => setUserVolume(vol),
+      // Barge-in arrives as an interruption through onTranscription
+      onUserSpeakingChange: (speaking) => {
           setPeers(prev => prev.map(p => 
-            p.type === 'human' ? { ...p, isSpeaking: vol > 0.05 } : p
+            p.id === LOCAL_USER_ID ? { ...p, isSpeaking: speaking } : p
           ));
-
-          const interruptionThreshold = isAiSpeakingRef.current ? 0.5 : 0.15;
-
-          if (vol > interruptionThreshold) {
-              setAiTranscription('');
-              if (aiSpeakingTimeoutRef.current) clearTimeout(aiSpeakingTimeoutRef.current);
-              isAiSpeakingRef.current = false;
-          }
       },
       // Handle Tool Calls from Gemini
       onToolCall: async (name, args) => {
           console.log(`Executing tool: ${name}`, args);
-          if (!canvasRef.current) return;
-          
-          if (name === 'draw_level') {
-              const element: DrawingElement = {
-                  id: Date.now().toString(),
-                  type: 'line',
-                  x: 0, 
-                  y: args.y,
-                  width: window.innerWidth, // Full width line
-                  height: 0,
-                  strokeColor: args.color || '#ff0000',
-                  strokeWidth: 2,
-                  strokeStyle: 'dashed',
-                  backgroundColor: 'transparent',
-                  text: args.label
-              };
-              canvasRef.current.addExternalElement(element);
-          } else if (name === 'draw_zone') {
-              const element: DrawingElement = {
-                  id: Date.now().toString(),
-                  type: 'rectangle',
-                  x: args.x, 
-                  y: args.y,
-                  width: args.width,
-                  height: args.height,
-                  strokeColor: 'transparent',
-                  backgroundColor: args.color || 'rgba(0, 255, 0, 0.2)',
-                  strokeWidth: 0,
-                  opacity: 50
-              };
-              canvasRef.current.addExternalElement(element);
-          }
+          if (!isToolAllowed(activePersonaRef.current, name)) throw new Error(`${name} is not available to this co-host.`);
+          const canvas = canvasRef.current;
+          if (!canvas) throw new Error('Board is not ready.');
+          // Coordinates refer to what the model looked at, even if the user has panned since
+          const transform = frameTransformRef.current ?? canvas.getFrameTransform();
+          if (!transform) throw new Error('Board is not ready.');
+          return toolRegistry.execute(name, args, {
+              priceToY: canvas.priceToY,
+              timeToX: canvas.timeToX,
+              yToPrice: canvas.yToPrice,
+              xToTime: canvas.xToTime,
+              frameToWorld: (point) => frameToWorld(transform, point),
+              worldToFrame: (point) => worldToFrame(transform, point),
+              frameWidth: transform.width,
+              getElements: canvas.getElements,
+              getSelectedIds: canvas.getSelectedIds,
+              getLayers: canvas.getLayers,
+              addElements: (add) => proposalQueue.propose({ toolName: name, add, update: [], remove: [] }),
+              updateElements: (update) => proposalQueue.propose({ toolName: name, add: [], update, remove: [] }),
+              deleteElements: (remove) => proposalQueue.propose({ toolName: name, add: [], update: [], remove }),
+              selectElements: canvas.selectElements
+          });
       }
-    });
+    };
+
+    if (providerKind === 'mock') {
+      assistantRef.current = new MockLiveProvider(callbacks);
+    } else if (apiKey) {
+      assistantRef.current = new GeminiLiveService({ apiKey, model: process.env.GEMINI_LIVE_MODEL || undefined, ...callbacks });
+    } else {
+      console.error("No API Key found; set LIVE_PROVIDER=mock to run the offline demo co-host");
+    }
+
+    const unsubscribeProposals = proposalQueue.subscribe(setProposals);
 
     return () => {
-      geminiServiceRef.current?.disconnect();
+      unsubscribeProposals();
+      proposalQueue.rejectAll();
+      assistantRef.current?.disconnect();
       if (aiSpeakingTimeoutRef.current) clearTimeout(aiSpeakingTimeoutRef.current);
     };
   }, []);
 
+  // Board sync: join the room from the URL (or the one created by Invite)
+  useEffect(() => {
+    if (!roomId) return;
+    const service = new BoardSyncService({
+      url: process.env.SYNC_URL || 'ws://localhost:8787',
+      roomId,
+      peer: { id: LOCAL_USER_ID, name: `Trader ${LOCAL_USER_ID.slice(-4)}`, avatar: LOCAL_USER_AVATAR },
+      onConnectionStateChange: setBoardSyncState,
+      onRemoteOperations: (ops) => canvasRef.current?.applyRemoteOperations(ops),
+      getLocalElements: () => latestElementsRef.current,
+      onPeersChange: (remotePeers) => {
+          setPeers(prev => [
+              ...prev.filter(p => p.id === LOCAL_USER_ID || p.type === 'ai'),
+              ...remotePeers.map(syncPeerToAudioPeer)
+          ]);
+          const remoteIds = new Set(remotePeers.map(p => p.id));
+          setRemotePresence(prev => prev.filter(p => remoteIds.has(p.id)));
+      },
+      onPresence: (presence) => {
+          setRemotePresence(prev => prev.some(p => p.id === presence.id)
+              ? prev.map(p => p.id === presence.id ? presence : p)
+              : [...prev, presence]);
+      }
+    });
+    syncServiceRef.current = service;
+    service.connect();
+
+    return () => {
+      service.disconnect();
+      syncServiceRef.current = null;
+      setBoardSyncState(null);
+    };
+  }, [roomId]);
+
+  const handleElementsChange = useCallback((elements: DrawingElement[]) => {
+    latestElementsRef.current = elements;
+    syncServiceRef.current?.publish(elements);
+    recorderRef.current.recordElements(elements);
+    frameSchedulerRef.current?.requestFrame();
+  }, []);
+
+  const handlePresenceChange = useCallback((presence: LocalPresence) => {
+    syncServiceRef.current?.publishPresence(presence);
+  }, []);
+
   // Sync mute state
   useEffect(() => {
-    if (geminiServiceRef.current) {
-        geminiServiceRef.current.setMuted(isMuted);
+    if (assistantRef.current) {
+        assistantRef.current.setMuted(isMuted);
     }
   }, [isMuted]);
 
-  // Periodic visual updates
+  // Push-to-talk: hold the bound key anywhere except while typing
+  useEffect(() => {
+    if (audioSettings.micMode !== 'push_to_talk') return;
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== audioSettings.pushToTalkKey || e.repeat || isTyping(e.target)) return;
+      e.preventDefault();
+      assistantRef.current?.setPushToTalkActive(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === audioSettings.pushToTalkKey) assistantRef.current?.setPushToTalkActive(false);
+    };
+    const handleBlur = () => assistantRef.current?.setPushToTalkActive(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      assistantRef.current?.setPushToTalkActive(false);
+    };
+  }, [audioSettings.micMode, audioSettings.pushToTalkKey]);
+
+  // Devices, processing and gain apply to the running session and are remembered for next time
+  useEffect(() => {
+    assistantRef.current?.setAudioSettings(audioSettings);
+    saveAudioSettings(audioSettings);
+  }, [audioSettings]);
+
+  // Visual updates: the scheduler sends a frame when the board changes, within a bandwidth budget
   useEffect(() => {
     if (connectionState !== ConnectionState.CONNECTED) return;
-    const interval = setInterval(() => {
-      // Use the helper to get the raw canvas DOM node
-      const canvas = canvasRef.current?.getCanvas();
-      if (canvas && geminiServiceRef.current) {
-        geminiServiceRef.current.sendVisualFrame(canvas);
-      }
-    }, 1000);
+    const scheduler = new FrameScheduler({
+      capture: () => {
+        // Use the helper to get the raw canvas DOM node
+        const canvas = canvasRef.current?.getCanvas();
+        const transform = canvasRef.current?.getFrameTransform();
+        return canvas && transform ? { canvas, transform, options: frameOptionsRef.current } : null;
+      },
+      onFrame: (base64data, transform) => {
+        frameTransformRef.current = transform;
+        assistantRef.current?.sendVisualFrame(base64data);
+      },
+      onStats: setFrameStats
+    });
+    frameSchedulerRef.current = scheduler;
+    scheduler.start();
 
-    return () => clearInterval(interval);
+    return () => {
+      scheduler.stop();
+      frameSchedulerRef.current = null;
+      frameTransformRef.current = null;
+      setFrameStats(null);
+    };
   }, [connectionState]);
 
+  // The grid and theme change the frame without necessarily changing the board
+  useEffect(() => {
+    frameOptionsRef.current = { grid: geminiConfig.showFrameGrid, isDarkMode };
+    frameSchedulerRef.current?.invalidate();
+  }, [geminiConfig.showFrameGrid, isDarkMode]);
+
   useEffect(() => {
-    setPeers(prev => prev.map(p => p.type === 'ai' ? { ...p, name: geminiConfig.name } : p));
-  }, [geminiConfig.name]);
+    setPeers(prev => prev.map(p => p.type === 'ai' ? { ...p, name: activePersona.name, avatar: activePersona.avatar } : p));
+  }, [activePersona.name, activePersona.avatar]);
+
+  useEffect(() => {
+    savePersonaLibrary(personaLibrary);
+  }, [personaLibrary]);
 
   const handleConnect = () => {
     if (geminiConfig.isEnabled) {
-      geminiServiceRef.current?.connect({
-        voiceName: geminiConfig.voiceName,
-        systemInstruction: geminiConfig.systemInstruction
+      activePersonaRef.current = activePersona;
+      assistantRef.current?.connect({
+        voiceName: activePersona.voiceName,
+        systemInstruction: activePersona.systemInstruction,
+        tools: toolRegistry.declarationsFor(activePersona.allowedTools)
       });
     } else {
        alert("Please enable Gemini Co-Host in settings to start.");
@@ -198,27 +336,75 @@ Your goal is to provide concise, technical observations about the user's drawing
   };
 
   const handleDisconnect = () => {
-    geminiServiceRef.current?.disconnect();
+    assistantRef.current?.disconnect();
     setAiTranscription('');
     if (aiSpeakingTimeoutRef.current) clearTimeout(aiSpeakingTimeoutRef.current);
-    isAiSpeakingRef.current = false;
   };
 
   const handleToggleMute = () => {
     setIsMuted(prev => !prev);
-    setPeers(prev => prev.map(p => p.type === 'human' ? { ...p, isMuted: !p.isMuted } : p));
+    setPeers(prev => prev.map(p => p.id === LOCAL_USER_ID ? { ...p, isMuted: !p.isMuted } : p));
   };
   
-  const handleAddUser = () => {
-      const newId = `user-${Date.now()}`;
-      setPeers(prev => [...prev, {
-          id: newId,
-          name: `Trader ${prev.length}`,
-          avatar: `https://picsum.photos/100/100?random=${newId}`,
-          isSpeaking: false,
-          isMuted: true,
-          type: 'human'
-      }]);
+  const handleAddUser = async () => {
+      let currentRoom = roomId;
+      if (!currentRoom) {
+          currentRoom = createRoomId();
+          const url = new URL(window.location.href);
+          url.searchParams.set('room', currentRoom);
+          window.history.replaceState(null, '', url.toString());
+          setRoomId(currentRoom);
+      }
+      const inviteLink = window.location.href;
+      try {
+          await navigator.clipboard.writeText(inviteLink);
+          alert("Invite link copied to clipboard.");
+      } catch (e) {
+          prompt("Share this invite link:", inviteLink);
+      }
+  };
+
+  const handleResolveProposal = useCallback((id: string, accepted: boolean) => {
+      const proposal = proposalQueue.get(id);
+      const canvas = canvasRef.current;
+      if (!proposal) return;
+      if (accepted && canvas) {
+          const label = describeProposal(proposal);
+          if (proposal.add.length > 0) canvas.addExternalElements(proposal.add, 'ai', label);
+          if (proposal.update.length > 0) canvas.updateElements(proposal.update, 'ai', label);
+          if (proposal.remove.length > 0) canvas.deleteElements(proposal.remove, 'ai', label);
+      }
+      proposalQueue.resolve(id, accepted && !!canvas);
+  }, []);
+
+  const handleToggleRecording = () => {
+      const recorder = recorderRef.current;
+      if (recorder.isRecording) {
+          setIsRecording(false);
+          setReplayRecording(recorder.stop());
+      } else {
+          setReplayRecording(null);
+          setReplayElements(null);
+          recorder.start(latestElementsRef.current);
+          setIsRecording(true);
+      }
+  };
+
+  const handleOpenRecording = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          setReplayRecording(await readRecordingFile(file));
+      } catch (err: any) {
+          console.error('Failed to open recording', err);
+          alert(`Could not open recording: ${err.message}`);
+      }
+  };
+
+  const handleCloseReplay = () => {
+      setReplayRecording(null);
+      setReplayElements(null);
   };
 
   const handleToggleTheme = () => {
@@ -230,6 +416,12 @@ Your goal is to provide concise, technical observations about the user's drawing
       <AnnotationCanvas 
         ref={canvasRef}
         onCanvasRef={(ref) => canvasHtmlRef.current = ref} 
+        onElementsChange={handleElementsChange}
+        remotePresence={remotePresence}
+        onPresenceChange={handlePresenceChange}
+        replayElements={replayElements}
+        pendingProposals={proposals}
+        onResolveProposal={handleResolveProposal}
         isDarkMode={isDarkMode}
         onToggleTheme={handleToggleTheme}
       />
@@ -246,13 +438,58 @@ Your goal is to provide concise, technical observations about the user's drawing
         onConnect={handleConnect}
         onAddUser={handleAddUser}
         onConfigureAI={() => setIsConfigModalOpen(true)}
+        isRecording={isRecording}
+        onToggleRecording={handleToggleRecording}
+        onOpenRecording={() => recordingInputRef.current?.click()}
+        proposals={proposals}
+        onResolveProposal={handleResolveProposal}
+        frameStats={frameStats}
+        isTranscriptOpen={isTranscriptOpen}
+        onToggleTranscript={() => setIsTranscriptOpen(prev => !prev)}
+        onOpenAudioSettings={() => setIsAudioSettingsOpen(true)}
+        personas={personaLibrary.personas}
+        activePersonaId={activePersona.id}
+        onSelectPersona={(id) => setPersonaLibrary(prev => ({ ...prev, activePersonaId: id }))}
+        boardSyncState={boardSyncState}
       />
 
+      {isTranscriptOpen && (
+        <TranscriptPanel
+          entries={transcript}
+          speakerNames={{ user: 'You', model: activePersona.name }}
+          isDarkMode={isDarkMode}
+          onClear={() => setTranscript([])}
+          onClose={() => setIsTranscriptOpen(false)}
+        />
+      )}
+
+      <input type="file" ref={recordingInputRef} className="hidden" accept={`${SESSION_FILE_EXTENSION},application/json`} onChange={handleOpenRecording} />
+
+      {replayRecording && (
+        <SessionReplay
+          key={replayRecording.startedAt}
+          recording={replayRecording}
+          isDarkMode={isDarkMode}
+          onElementsChange={setReplayElements}
+          onClose={handleCloseReplay}
+        />
+      )}
+
       <GeminiConfigModal 
         isOpen={isConfigModalOpen}
         onClose={() => setIsConfigModalOpen(false)}
         config={geminiConfig}
         onConfigChange={setGeminiConfig}
+        library={personaLibrary}
+        onLibraryChange={setPersonaLibrary}
+        tools={toolRegistry.declarations}
+      />
+
+      <AudioSettingsModal
+        isOpen={isAudioSettingsOpen}
+        onClose={() => setIsAudioSettingsOpen(false)}
+        settings={audioSettings}
+        onSettingsChange={setAudioSettings}
       />
     </div>
   );
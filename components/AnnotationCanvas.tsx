@@ -1,6 +1,25 @@
 
-import React, { useRef, useState, useEffect, useCallback, useImperativeHandle, forwardRef } from 'react';
-import { Tool, DrawingElement, Point } from '../types';
+import React, { useRef, useState, useEffect, useCallback, useMemo, useImperativeHandle, forwardRef } from 'react';
+import { Tool, DrawingElement, DrawingImportResult, AiProposal, BoardLayer, Point, ChartCalibration, SyncOperation, PresenceState, LocalPresence } from '../types';
+import { BoardDocument, BOARD_FILE_EXTENSION, downloadBoard, readBoardFile } from '../services/boardFile';
+import { BoardStorage, StoredSessionInfo } from '../services/boardStorage';
+import { applyOperationsToElements } from '../services/boardSync';
+import { BoardHistory, EMPTY_HISTORY, HistoryOrigin, HistoryStep, coalesceHistoryEntry, createHistoryEntry, elementsLabel, isLocalOrigin, pushHistoryEntry, redoLocal, travelHistory, undoLocal } from '../services/boardHistory';
+import HistoryPanel from './HistoryPanel';
+import { DEFAULT_LAYER_ID, DEFAULT_LAYERS, ZOrderMove, isElementLocked, isElementVisible, reorderElements } from '../services/boardLayers';
+import LayersPanel from './LayersPanel';
+import { AlignEdge, DistributeAxis, MatchSizeMode, alignElements, createGroupId, distributeElements, expandToGroups, getElementBounds, groupElements, matchElementSize, ungroupElements, unionBounds } from '../services/boardArrange';
+import { downloadBlob, ExportBounds, exportBoardSvg } from '../services/boardExport';
+import { exportBoardPdf } from '../services/pdfWriter';
+import { EXCALIDRAW_FILE_EXTENSION, exportExcalidraw, importExcalidraw, isExcalidrawFile } from '../services/excalidrawFormat';
+import { importTradingView, isTradingViewDrawings } from '../services/tradingViewFormat';
+import { fitTextElement, fontForElement, layoutText } from '../services/textLayout';
+import TextEditorOverlay from './TextEditorOverlay';
+import CalibrationInput from './CalibrationInput';
+import { describeProposal } from '../services/proposalQueue';
+import { createFrameTransform, FrameTransform } from '../services/visualFrame';
+import { positionLabelsForElement, DEFAULT_ACCOUNT_BALANCE, DEFAULT_RISK_PERCENT, DEFAULT_PIP_SIZE } from '../services/positionCalculator';
+import { anchorElement, anchorPoints, formatPrice, formatTime, parsePriceInput, parseTimeInput, projectElement, relativeToImage, resolveChartAxis } from '../services/chartAnchor';
 import { 
   Lock, 
   Hand, 
@@ -32,18 +51,59 @@ import {
   FileX,
   Wand2,
   Camera,
-  Map as MapIcon
+  Map as MapIcon,
+  Save,
+  FolderOpen,
+  Import,
+  History as HistoryIcon,
+  Layers as LayersIcon,
+  Crosshair,
+  Check,
+  X,
+  Group,
+  Ungroup,
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalDistributeCenter,
+  AlignVerticalDistributeCenter,
+  MoveHorizontal,
+  MoveVertical,
+  Scaling,
+  AlertTriangle
 } from 'lucide-react';
 
 export interface AnnotationCanvasRef {
-    addExternalElement: (element: DrawingElement) => void;
+    // Mutations are single undo steps; origin and label tag the step in the history panel
+    addExternalElements: (elements: DrawingElement[], origin?: HistoryOrigin, label?: string) => void;
     getCanvas: () => HTMLCanvasElement | null;
+    getFrameTransform: () => FrameTransform | null; // How the canvas pixels map to board coordinates right now
+    priceToY: (price: number) => number | null; // null until a chart is calibrated
+    timeToX: (time: number) => number | null;
+    yToPrice: (y: number) => number | null;
+    xToTime: (x: number) => number | null;
+    getElements: () => DrawingElement[];
+    getSelectedIds: () => string[];
+    getLayers: () => BoardLayer[];
+    updateElements: (changed: DrawingElement[], origin?: HistoryOrigin, label?: string) => void; // Replaces by id
+    deleteElements: (ids: string[], origin?: HistoryOrigin, label?: string) => void;
+    selectElements: (ids: string[]) => void;
+    applyRemoteOperations: (ops: SyncOperation[]) => void;
 }
 
 interface AnnotationCanvasProps {
   onCanvasRef?: (canvas: HTMLCanvasElement) => void;
   isDarkMode: boolean;
   onToggleTheme: () => void;
+  onElementsChange?: (elements: DrawingElement[]) => void; // Fired when the board settles after an edit
+  remotePresence?: PresenceState[];
+  onPresenceChange?: (presence: LocalPresence) => void;
+  replayElements?: DrawingElement[] | null; // Read-only board shown while replaying a recording
+  pendingProposals?: AiProposal[]; // AI changes shown as ghosts until accepted or rejected
+  onResolveProposal?: (id: string, accepted: boolean) => void;
 }
 
 interface InteractionState {
@@ -54,6 +114,18 @@ interface InteractionState {
     startElementSnapshots?: Map<string, DrawingElement>; // State of elements before moving (multiple)
 }
 
+interface CalibrationDraft {
+    imageId: string;
+    prices: { ry: number; price: number }[];
+    times: { rx: number; time: number }[];
+    pending?: { point: Point; rx: number; ry: number }; // Clicked point waiting for its price or time
+}
+
+interface TextEditingState {
+    element: DrawingElement; // Working copy, kept out of `elements` until committed
+    isNew: boolean;
+}
+
 interface LaserPoint {
     x: number;
     y: number;
@@ -61,6 +133,8 @@ interface LaserPoint {
 }
 
 const HANDLE_SIZE = 8;
+const LASER_TRAIL_MS = 1000;
+const AUTOSAVE_DELAY_MS = 800;
 
 const cursorForPosition = (position: string) => {
   switch (position) {
@@ -76,26 +150,39 @@ const cursorForPosition = (position: string) => {
   }
 };
 
-const getElementBounds = (element: DrawingElement) => {
-    if (element.type === 'path' || element.type === 'pencil') {
-       if (!element.points || element.points.length === 0) return { minX: element.x, maxX: element.x, minY: element.y, maxY: element.y };
-       const xs = element.points.map(p => p.x);
-       const ys = element.points.map(p => p.y);
-       return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
-    }
-    const { x, y, width = 0, height = 0 } = element;
-    const minX = Math.min(x, x + width);
-    const maxX = Math.max(x, x + width);
-    const minY = Math.min(y, y + height);
-    const maxY = Math.max(y, y + height);
-    return { minX, maxX, minY, maxY };
+// Stable per-participant color for cursors and selections
+const colorForPeer = (peerId: string) => {
+    let hash = 0;
+    for (let i = 0; i < peerId.length; i++) hash = (hash * 31 + peerId.charCodeAt(i)) | 0;
+    return `hsl(${Math.abs(hash) % 360}, 75%, 50%)`;
+};
+
+const PROPOSAL_GHOST_OPACITY = 0.45;
+
+const ZORDER_LABELS: Record<ZOrderMove, string> = { forward: 'Bring forward', backward: 'Send backward', front: 'Bring to front', back: 'Send to back' };
+
+const ALIGN_LABELS: Record<AlignEdge, string> = { left: 'Align left', center: 'Align centers', right: 'Align right', top: 'Align top', middle: 'Align middles', bottom: 'Align bottom' };
+
+// World bounds of everything a proposal touches, including elements it would delete
+const getProposalBounds = (proposal: AiProposal, elements: DrawingElement[]) => {
+    const touched = [
+        ...proposal.add,
+        ...proposal.update,
+        ...elements.filter(el => proposal.remove.includes(el.id) || proposal.update.some(u => u.id === el.id))
+    ];
+    if (touched.length === 0) return null;
+    return unionBounds(touched.map(getElementBounds));
 };
 
-const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(({ onCanvasRef, isDarkMode, onToggleTheme }, ref) => {
+const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(({ onCanvasRef, isDarkMode, onToggleTheme, onElementsChange, remotePresence = [], onPresenceChange, replayElements = null, pendingProposals = [], onResolveProposal }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const minimapRef = useRef<HTMLCanvasElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const boardInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const laserPointsRef = useRef<LaserPoint[]>([]);
+  const remoteLaserRef = useRef<Map<string, LaserPoint[]>>(new Map());
+  const pointerRef = useRef<Point | null>(null);
   
   // Tools & State
   const [tool, setTool] = useState<Tool>('selection');
@@ -108,8 +195,8 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
   const [clipboard, setClipboard] = useState<DrawingElement[]>([]); 
 
   // History State
-  const [history, setHistory] = useState<DrawingElement[][]>([[]]);
-  const [historyIndex, setHistoryIndex] = useState(0);
+  const [history, setHistory] = useState<BoardHistory>(EMPTY_HISTORY);
+  const gestureBaselineRef = useRef<DrawingElement[] | null>(null); // Board before the current drag
 
   // Style State
   const [strokeColor, setStrokeColor] = useState('#000000');
@@ -129,10 +216,23 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
   const [fontStyle, setFontStyle] = useState('normal');
   const [textAlign, setTextAlign] = useState<'left' | 'center' | 'right'>('left');
 
+  // Position Sizing State
+  const [accountBalance, setAccountBalance] = useState(DEFAULT_ACCOUNT_BALANCE);
+  const [riskPercent, setRiskPercent] = useState(DEFAULT_RISK_PERCENT);
+  const [pipSize, setPipSize] = useState(DEFAULT_PIP_SIZE);
+
+  // Layers State
+  const [layers, setLayers] = useState<BoardLayer[]>(DEFAULT_LAYERS);
+  const [sidePanel, setSidePanel] = useState<'history' | 'layers' | null>(null);
+
   // View Options
   const [showGrid, setShowGrid] = useState(false);
   const [showRuler, setShowRuler] = useState(false);
   const [showMinimap, setShowMinimap] = useState(true);
+
+  // Export Options
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exportSelectionOnly, setExportSelectionOnly] = useState(false);
   
   // Pan & Zoom State
   const [panOffset, setPanOffset] = useState({ x: 0, y: 0 });
@@ -143,47 +243,159 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
   const [selectedElementIds, setSelectedElementIds] = useState<string[]>([]);
   const [hoveredElementId, setHoveredElementId] = useState<string | null>(null);
   const [selectionBox, setSelectionBox] = useState<{ start: Point; current: Point } | null>(null);
+  const [textEditing, setTextEditing] = useState<TextEditingState | null>(null);
+  const textEditingRef = useRef<TextEditingState | null>(null); // Guards against committing twice (Escape + blur)
+  textEditingRef.current = textEditing;
   
   const [interactionState, setInteractionState] = useState<InteractionState>({ mode: 'none', startMousePos: { x: 0, y: 0 } });
 
+  // Chart Anchoring State
+  const [chartCalibration, setChartCalibration] = useState<ChartCalibration | null>(null);
+  const [calibrationDraft, setCalibrationDraft] = useState<CalibrationDraft | null>(null);
+  const chartAxis = useMemo(() => resolveChartAxis(chartCalibration, elements), [chartCalibration, elements]);
+
   // Load images for rendering
   const imageCache = useRef<Map<string, HTMLImageElement>>(new Map());
 
+  // Local Persistence State
+  const storageRef = useRef<BoardStorage>(new BoardStorage());
+  const [pendingRestore, setPendingRestore] = useState<StoredSessionInfo | null>(null);
+  const [showStorageNotice, setShowStorageNotice] = useState(false); // Autosave is off because local storage failed
+  const [isStorageReady, setIsStorageReady] = useState(false);
+
+  // Latest values for callers outside React's render cycle (e.g. AI tool calls)
+  const elementsRef = useRef(elements);
+  elementsRef.current = elements;
+  const selectedIdsRef = useRef(selectedElementIds);
+  selectedIdsRef.current = selectedElementIds;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const layersRef = useRef(layers);
+  layersRef.current = layers;
+  const chartCalibrationRef = useRef(chartCalibration);
+  chartCalibrationRef.current = chartCalibration;
+
+  // Edits from outside land as their own step; a drag in progress gets the same edit in its baseline so its step doesn't repeat it
+  const commitExternal = (update: (els: DrawingElement[]) => DrawingElement[], options: { label?: string; origin: HistoryOrigin }) => {
+      if (gestureBaselineRef.current) gestureBaselineRef.current = update(gestureBaselineRef.current);
+      commitElements(update(elementsRef.current), options);
+  };
+
   // Expose methods to parent
   useImperativeHandle(ref, () => ({
-      addExternalElement: (element: DrawingElement) => {
-          setElements(prev => {
-              const next = [...prev, element];
-              pushToHistory(next);
-              return next;
-          });
+      addExternalElements: (newElements: DrawingElement[], origin: HistoryOrigin = 'user', label?: string) => {
+          const ctx = canvasRef.current?.getContext('2d');
+          const prepared = newElements.map(el => anchorElement(el.type === 'text' && ctx ? fitTextElement(ctx, el) : el, chartAxis));
+          commitExternal(els => [...els, ...prepared], { origin, label });
+      },
+      getCanvas: () => canvasRef.current,
+      getFrameTransform: () => canvasRef.current ? createFrameTransform(canvasRef.current, panOffset, scale) : null,
+      priceToY: (price: number) => chartAxis ? chartAxis.priceToY(price) : null,
+      timeToX: (time: number) => chartAxis ? chartAxis.timeToX(time) : null,
+      yToPrice: (y: number) => chartAxis ? chartAxis.yToPrice(y) : null,
+      xToTime: (x: number) => chartAxis ? chartAxis.xToTime(x) : null,
+      getElements: () => elementsRef.current,
+      getSelectedIds: () => selectedIdsRef.current,
+      getLayers: () => layersRef.current,
+      updateElements: (changed: DrawingElement[], origin: HistoryOrigin = 'user', label?: string) => {
+          const ctx = canvasRef.current?.getContext('2d');
+          const byId = new Map(changed.map(el => [el.id, anchorElement(el.type === 'text' && ctx ? fitTextElement(ctx, el) : el, chartAxis)]));
+          commitExternal(els => els.map(el => byId.get(el.id) ?? el), { origin, label });
+      },
+      deleteElements: (ids: string[], origin: HistoryOrigin = 'user', label?: string) => {
+          commitExternal(els => els.filter(el => !ids.includes(el.id)), { origin, label });
+          setSelectedElementIds(prev => prev.filter(id => !ids.includes(id)));
       },
-      getCanvas: () => canvasRef.current
+      selectElements: (ids: string[]) => {
+          setTool('selection');
+          setSelectedElementIds(ids);
+      },
+      applyRemoteOperations: (ops: SyncOperation[]) => {
+          commitExternal(els => applyOperationsToElements(els, ops), { origin: 'remote', label: 'Collaborator edit' });
+          const deletedIds = ops.filter(op => op.kind === 'delete').map(op => op.elementId);
+          if (deletedIds.length > 0) setSelectedElementIds(prev => prev.filter(id => !deletedIds.includes(id)));
+      }
   }));
 
+  // Report settled boards (not every intermediate drag frame) to listeners such as board sync
+  useEffect(() => {
+    if (interactionState.mode !== 'none' || !onElementsChange) return;
+    onElementsChange(elements);
+  }, [elements, interactionState.mode, onElementsChange]);
+
+  // --- Presence ---
+  const emitPresence = (pointer: Point | null) => {
+    pointerRef.current = pointer;
+    onPresenceChange?.({
+        pointer,
+        tool: effectiveTool,
+        selectedElementIds,
+        isLaserActive: effectiveTool === 'laser' && interactionState.mode === 'drawing' && pointer !== null
+    });
+  };
+
+  useEffect(() => {
+    emitPresence(pointerRef.current);
+  }, [tool, isSpacePressed, selectedElementIds, interactionState.mode]);
+
+  // Extend remote laser trails as presence updates arrive (timestamps are local so clock skew doesn't matter)
+  useEffect(() => {
+    const now = Date.now();
+    const activeIds = new Set(remotePresence.map(p => p.id));
+    remoteLaserRef.current.forEach((_, id) => { if (!activeIds.has(id)) remoteLaserRef.current.delete(id); });
+    remotePresence.forEach(p => {
+        if (!p.isLaserActive || !p.pointer) return;
+        const trail = remoteLaserRef.current.get(p.id) ?? [];
+        const last = trail[trail.length - 1];
+        if (!last || last.x !== p.pointer.x || last.y !== p.pointer.y) trail.push({ ...p.pointer, timestamp: now });
+        remoteLaserRef.current.set(p.id, trail);
+    });
+  }, [remotePresence]);
+
   // --- History Helpers ---
-  const pushToHistory = useCallback((newElements: DrawingElement[]) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(newElements);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
-  }, [history, historyIndex]);
-
-  const undo = useCallback(() => {
-    if (historyIndex > 0) {
-      setHistoryIndex(prev => prev - 1);
-      setElements(history[historyIndex - 1]);
-      setSelectedElementIds([]); 
+  // Every board edit goes through here and becomes one undo step; `from` is the board before a drag.
+  // Edits sharing a `mergeKey` in quick succession (typing into a field) fold into one step.
+  // `calibration` changes the chart calibration as part of the same step.
+  const commitElements = useCallback((next: DrawingElement[], options: { label?: string; origin?: HistoryOrigin; from?: DrawingElement[]; mergeKey?: string; calibration?: ChartCalibration | null } = {}) => {
+    const previous = options.from ?? elementsRef.current;
+    const calibration = options.calibration !== undefined ? { before: chartCalibrationRef.current, after: options.calibration } : undefined;
+    const entry = createHistoryEntry(previous, next, options.origin ?? 'user', options.label, calibration);
+    elementsRef.current = next;
+    setElements(next);
+    if (calibration) {
+      chartCalibrationRef.current = calibration.after;
+      setChartCalibration(calibration.after);
     }
-  }, [history, historyIndex]);
-
-  const redo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
-      setHistoryIndex(prev => prev + 1);
-      setElements(history[historyIndex + 1]);
-      setSelectedElementIds([]); 
+    if (entry) {
+      if (options.mergeKey) entry.mergeKey = options.mergeKey;
+      historyRef.current = coalesceHistoryEntry(previous, historyRef.current, entry) ?? pushHistoryEntry(historyRef.current, entry);
+      setHistory(historyRef.current);
+    }
+  }, []);
+
+  const applyHistoryStep = useCallback((step: HistoryStep | null) => {
+    if (!step) return;
+    elementsRef.current = step.elements;
+    historyRef.current = step.history;
+    if (step.calibration !== undefined) {
+      chartCalibrationRef.current = step.calibration;
+      setChartCalibration(step.calibration);
     }
-  }, [history, historyIndex]);
+    setElements(step.elements);
+    setHistory(step.history);
+    setSelectedElementIds([]);
+  }, []);
+
+  // Collaborators' entries are shown in the panel but never undone from here
+  const jumpToHistory = useCallback((target: number) => {
+    const current = historyRef.current;
+    if (target < 0 || target > current.entries.length || target === current.index) return;
+    applyHistoryStep(travelHistory(elementsRef.current, current, target));
+  }, [applyHistoryStep]);
+
+  const canUndo = history.entries.slice(0, history.index).some(e => isLocalOrigin(e.origin));
+  const undo = useCallback(() => applyHistoryStep(undoLocal(elementsRef.current, historyRef.current)), [applyHistoryStep]);
+  const redo = useCallback(() => applyHistoryStep(redoLocal(elementsRef.current, historyRef.current)), [applyHistoryStep]);
 
   // --- Copy / Paste Logic ---
   const handleCopy = useCallback(() => {
@@ -199,6 +411,8 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
     if (clipboard.length > 0) {
       const offset = 20 / scale;
       const newIds: string[] = [];
+      // Pasted groups become new groups rather than joining the originals
+      const groupIds = new Map<string, string>();
       const pastedElements = clipboard.map(item => {
           const newId = Date.now().toString() + Math.random().toString(36).substr(2, 5);
           newIds.push(newId);
@@ -208,73 +422,445 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
              x: item.x + offset,
              y: item.y + offset
           };
+          if (item.groupId) {
+             if (!groupIds.has(item.groupId)) groupIds.set(item.groupId, createGroupId());
+             newEl.groupId = groupIds.get(item.groupId);
+          }
           if ((newEl.type === 'path' || newEl.type === 'pencil') && newEl.points) {
              newEl.points = newEl.points.map(p => ({ x: p.x + offset, y: p.y + offset }));
           }
-          return newEl;
+          return anchorElement(newEl, chartAxis);
       });
 
       const newElements = [...elements, ...pastedElements];
-      setElements(newElements);
-      pushToHistory(newElements);
+      commitElements(newElements, { label: `Paste ${elementsLabel(pastedElements)}` });
       setSelectedElementIds(newIds);
     }
-  }, [clipboard, scale, elements, pushToHistory]);
+  }, [clipboard, scale, elements, commitElements, chartAxis]);
+
+  // Hidden and locked elements can't be clicked, dragged, box-selected or erased on the canvas
+  const isPickable = (el: DrawingElement) => isElementVisible(el, layers) && !isElementLocked(el, layers);
+
+  // The Layers panel can select locked or hidden elements; deleting, moving, reordering and arranging leave those alone
+  const editableIds = useMemo(
+      () => elements.filter(el => selectedElementIds.includes(el.id) && isElementVisible(el, layers) && !isElementLocked(el, layers)).map(el => el.id),
+      [elements, selectedElementIds, layers]
+  );
 
   const handleDelete = useCallback(() => {
       if (selectedElementIds.length > 0) {
-          const newElements = elements.filter(el => !selectedElementIds.includes(el.id));
-          setElements(newElements);
-          pushToHistory(newElements);
-          setSelectedElementIds([]);
+          if (editableIds.length === 0) return;
+          const newElements = elements.filter(el => !editableIds.includes(el.id));
+          commitElements(newElements);
+          setSelectedElementIds(prev => prev.filter(id => !editableIds.includes(id)));
       } else {
+          // Locked elements (typically the background chart) survive a clear
           if (elements.length > 0 && window.confirm("Clear entire board?")) {
-              setElements([]);
-              pushToHistory([]);
+              commitElements(elements.filter(el => isElementLocked(el, layers)), { label: 'Clear board' });
           }
       }
-  }, [selectedElementIds, elements, pushToHistory]);
+  }, [selectedElementIds, editableIds, elements, commitElements, layers]);
+
+  // --- Layers & Stacking ---
+  const handleReorder = useCallback((move: ZOrderMove) => {
+      if (editableIds.length === 0) return;
+      commitElements(reorderElements(elements, editableIds, move), { label: ZORDER_LABELS[move] });
+  }, [editableIds, elements, commitElements]);
+
+  // --- Grouping & Arrangement ---
+  const selectionHasGroup = elements.some(el => el.groupId && selectedElementIds.includes(el.id));
+
+  const handleGroup = useCallback(() => {
+      if (editableIds.length < 2) return;
+      const grouped = elements.filter(el => editableIds.includes(el.id));
+      commitElements(groupElements(elements, editableIds), { label: `Group ${elementsLabel(grouped)}` });
+  }, [editableIds, elements, commitElements]);
+
+  const handleUngroup = useCallback(() => {
+      const grouped = elements.filter(el => el.groupId && selectedElementIds.includes(el.id));
+      if (grouped.length === 0) return;
+      commitElements(ungroupElements(elements, selectedElementIds), { label: `Ungroup ${elementsLabel(grouped)}` });
+  }, [selectedElementIds, elements, commitElements]);
+
+  // Arranging moves or resizes elements like a drag would, so they get re-anchored the same way
+  const commitArrangement = (next: DrawingElement[], label: string) => {
+      const changedIds = next.filter((el, i) => el !== elements[i]).map(el => el.id);
+      if (changedIds.length === 0) return;
+      commitElements(commitTransformedElements(next, changedIds), { label });
+  };
 
-  const handleSnapshot = () => {
-      const canvas = canvasRef.current;
-      if (!canvas || elements.length === 0) return;
+  const handleAlign = (edge: AlignEdge) => commitArrangement(alignElements(elements, editableIds, edge), ALIGN_LABELS[edge]);
+
+  const handleDistribute = (axis: DistributeAxis) => commitArrangement(distributeElements(elements, editableIds, axis), `Distribute ${axis}ly`);
+
+  // The reference is the first element picked: selections keep click order, while editableIds is in board order
+  const handleMatchSize = (mode: MatchSizeMode) => {
+      const referenceId = selectedElementIds[0];
+      if (!referenceId) return;
+      commitArrangement(matchElementSize(elements, referenceId, editableIds, mode), mode === 'both' ? 'Match size' : `Match ${mode}`);
+  };
+
+  const handleToggleElementFlag = (id: string, key: 'hidden' | 'locked') => {
+      const target = elements.find(el => el.id === id);
+      if (!target) return;
+      const enabled = !target[key];
+      const verb = key === 'hidden' ? (enabled ? 'Hide' : 'Show') : (enabled ? 'Lock' : 'Unlock');
+      commitElements(elements.map(el => el.id === id ? { ...el, [key]: enabled } : el), { label: `${verb} ${elementsLabel([target])}` });
+      // Hidden elements can't stay selected on the canvas
+      if (key === 'hidden' && enabled) setSelectedElementIds(prev => prev.filter(sid => sid !== id));
+  };
+
+  // Locked elements can't be picked on the canvas, so locking also deselects
+  const handleLockSelection = () => {
+      if (selectedElementIds.length === 0) return;
+      const locked = elements.filter(el => selectedElementIds.includes(el.id));
+      commitElements(elements.map(el => selectedElementIds.includes(el.id) ? { ...el, locked: true } : el), { label: `Lock ${elementsLabel(locked)}` });
+      setSelectedElementIds([]);
+  };
 
-      // 1. Calculate Bounds
+  const handleLayerSelect = (id: string, additive: boolean) => {
+      setTool('selection');
+      setSelectedElementIds(prev => additive ? (prev.includes(id) ? prev.filter(sid => sid !== id) : [...prev, id]) : [id]);
+  };
+
+  const handleMoveToLayer = (layerId: string) => {
+      const layer = layers.find(l => l.id === layerId);
+      if (!layer || selectedElementIds.length === 0) return;
+      const moved = elements.filter(el => selectedElementIds.includes(el.id));
+      commitElements(elements.map(el => selectedElementIds.includes(el.id) ? { ...el, layerId } : el), { label: `Move ${elementsLabel(moved)} to ${layer.name}` });
+  };
+
+  const handleDeleteLayer = (layerId: string) => {
+      const layer = layers.find(l => l.id === layerId);
+      if (!layer || layerId === DEFAULT_LAYER_ID) return;
+      if (!window.confirm(`Delete the "${layer.name}" layer? Its elements move to ${layers.find(l => l.id === DEFAULT_LAYER_ID)?.name ?? 'the default layer'}.`)) return;
+      if (elements.some(el => el.layerId === layerId)) {
+          commitElements(elements.map(el => el.layerId === layerId ? { ...el, layerId: DEFAULT_LAYER_ID } : el), { label: `Delete layer ${layer.name}` });
+      }
+      setLayers(prev => prev.filter(l => l.id !== layerId));
+  };
+
+  // Picking one member of a group on the canvas picks its other pickable members too
+  const pickWithGroups = (ids: string[]) => expandToGroups(elements.filter(isPickable), ids);
+
+  // Elements to export: the selection when requested and non-empty, otherwise the whole board
+  const getExportElements = () => {
+      const visible = elements.filter(el => isElementVisible(el, layers));
+      if (exportSelectionOnly && selectedElementIds.length > 0) {
+          return visible.filter(el => selectedElementIds.includes(el.id));
+      }
+      return visible;
+  };
+
+  const getExportBounds = (targets: DrawingElement[]): ExportBounds => {
       let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-      elements.forEach(el => {
+      targets.forEach(el => {
           const b = getElementBounds(el);
           minX = Math.min(minX, b.minX);
           minY = Math.min(minY, b.minY);
           maxX = Math.max(maxX, b.maxX);
           maxY = Math.max(maxY, b.maxY);
       });
-      
+
       const padding = 50;
-      minX -= padding; minY -= padding; maxX += padding; maxY += padding;
-      const width = maxX - minX;
-      const height = maxY - minY;
+      return { minX: minX - padding, minY: minY - padding, width: maxX - minX + padding * 2, height: maxY - minY + padding * 2 };
+  };
+
+  const exportFileName = (extension: string) => `forex-analysis-${Date.now()}.${extension}`;
+
+  const handleSnapshot = () => {
+      const targets = getExportElements();
+      if (targets.length === 0) return;
+      const { minX, minY, width, height } = getExportBounds(targets);
 
-      // 2. Create Temp Canvas
       const tempCanvas = document.createElement('canvas');
       tempCanvas.width = width;
       tempCanvas.height = height;
       const ctx = tempCanvas.getContext('2d');
       if (!ctx) return;
 
-      // 3. Draw
       ctx.fillStyle = isDarkMode ? '#121212' : '#ffffff';
       ctx.fillRect(0, 0, width, height);
       ctx.translate(-minX, -minY);
       
-      elements.forEach(el => drawElement(ctx, el, 1)); // Scale 1
+      targets.forEach(el => drawElement(ctx, el, 1)); // Scale 1
 
-      // 4. Download
       const link = document.createElement('a');
-      link.download = `forex-analysis-${Date.now()}.png`;
+      link.download = exportFileName('png');
       link.href = tempCanvas.toDataURL('image/png');
       link.click();
   };
 
+  const handleExportSvg = () => {
+      const targets = getExportElements();
+      if (targets.length === 0) return;
+      const svg = exportBoardSvg(targets, { bounds: getExportBounds(targets), background: isDarkMode ? '#121212' : '#ffffff', axis: chartAxis });
+      downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), exportFileName('svg'));
+  };
+
+  const handleExportPdf = async () => {
+      const targets = getExportElements();
+      if (targets.length === 0) return;
+      try {
+          const pdf = await exportBoardPdf(targets, { bounds: getExportBounds(targets), background: isDarkMode ? '#121212' : '#ffffff', axis: chartAxis });
+          downloadBlob(pdf, exportFileName('pdf'));
+      } catch (e) {
+          console.error('PDF export failed', e);
+          alert('Could not export PDF.');
+      }
+  };
+
+  const handleExportExcalidraw = () => {
+      const targets = getExportElements();
+      if (targets.length === 0) return;
+      const json = exportExcalidraw(targets, isDarkMode ? '#121212' : '#ffffff');
+      downloadBlob(new Blob([json], { type: 'application/json' }), exportFileName(EXCALIDRAW_FILE_EXTENSION.slice(1)));
+  };
+
+  const handleExport = (format: 'png' | 'svg' | 'pdf' | 'excalidraw') => {
+      setShowExportMenu(false);
+      if (format === 'png') handleSnapshot();
+      else if (format === 'svg') handleExportSvg();
+      else if (format === 'pdf') handleExportPdf();
+      else handleExportExcalidraw();
+  };
+
+  // --- Board Files ---
+  const loadBoard = (doc: BoardDocument) => {
+      imageCache.current.clear();
+      setElements(doc.elements);
+      setHistory(EMPTY_HISTORY);
+      setSelectedElementIds([]);
+      setCurrentElement(null);
+      setRoomTitle(doc.roomTitle);
+      setPanOffset(doc.viewport.panOffset);
+      setScale(doc.viewport.scale);
+      setChartCalibration(doc.calibration);
+      setCalibrationDraft(null);
+      setLayers(doc.layers);
+  };
+
+  const handleSaveBoard = () => {
+      downloadBoard({ roomTitle, viewport: { panOffset, scale }, elements, calibration: chartCalibration, layers });
+  };
+
+  const handleOpenBoard = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      if (elements.length > 0 && !window.confirm("Replace the current board?")) return;
+      try {
+          loadBoard(await readBoardFile(file));
+      } catch (err: any) {
+          console.error('Failed to open board file', err);
+          alert(`Could not open board: ${err.message}`);
+      }
+  };
+
+  // --- Imports (Excalidraw, TradingView) ---
+  const convertDrawingFile = (raw: unknown): DrawingImportResult => {
+      if (isExcalidrawFile(raw)) return importExcalidraw(raw);
+      if (isTradingViewDrawings(raw)) {
+          const chartImage = chartCalibration ? elements.find(el => el.id === chartCalibration.imageId) : undefined;
+          if (!chartAxis || !chartImage) throw new Error('Calibrate a chart image before importing TradingView drawings');
+          return importTradingView(raw, {
+              axis: chartAxis,
+              left: chartImage.x,
+              top: chartImage.y,
+              right: chartImage.x + (chartImage.width || 0),
+              bottom: chartImage.y + (chartImage.height || 0)
+          });
+      }
+      throw new Error('Unrecognized drawing file');
+  };
+
+  const handleImportDrawings = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      try {
+          let raw: unknown;
+          try {
+              raw = JSON.parse(await file.text());
+          } catch {
+              throw new Error('File is not valid JSON');
+          }
+          const result = convertDrawingFile(raw);
+          const ctx = canvasRef.current?.getContext('2d');
+          const existingIds = new Set(elements.map(el => el.id));
+          const groupIds = new Map<string, string>();
+          const imported = result.elements.map((el, i) => {
+              // Keep ids unique when the same file is imported twice
+              const id = existingIds.has(el.id) ? `${Date.now()}-${i}-${Math.random().toString(36).substr(2, 5)}` : el.id;
+              const fitted = el.type === 'text' && ctx ? fitTextElement(ctx, el) : el;
+              // Fresh group ids too, so a second import doesn't join the first one's groups
+              if (fitted.groupId && !groupIds.has(fitted.groupId)) groupIds.set(fitted.groupId, createGroupId());
+              const groupId = fitted.groupId ? groupIds.get(fitted.groupId) : undefined;
+              return anchorElement({ ...fitted, id, groupId }, chartAxis);
+          });
+
+          if (imported.length > 0) {
+              const newElements = [...elements, ...imported];
+              commitElements(newElements, { label: `Import ${elementsLabel(imported)}` });
+              setSelectedElementIds(imported.map(el => el.id));
+          }
+
+          const skipped = Object.entries(result.unsupported).map(([type, count]) => `${type} x${count}`);
+          const approximated = Object.entries(result.approximated ?? {}).map(([type, count]) => `${type} x${count}`);
+          if (skipped.length > 0 || approximated.length > 0) {
+              const notes = [
+                  skipped.length > 0 ? `Skipped unsupported types: ${skipped.join(', ')}` : '',
+                  approximated.length > 0 ? `Imported with changes: ${approximated.join(', ')}` : ''
+              ].filter(Boolean);
+              alert(`Imported ${imported.length} element(s). ${notes.join('. ')}`);
+          } else if (imported.length === 0) {
+              alert('No drawings found in this file.');
+          }
+      } catch (err: any) {
+          console.error('Failed to import drawings', err);
+          alert(`Could not import drawings: ${err.message}`);
+      }
+  };
+
+  // --- Local Persistence ---
+  useEffect(() => {
+    storageRef.current.getSessionInfo()
+      .then(info => {
+          if (info && info.elementCount > 0) setPendingRestore(info);
+          else setIsStorageReady(true);
+      })
+      .catch(err => {
+          // Autosave stays off: without knowing what's stored, saving could overwrite the last session
+          console.error('Local storage unavailable', err);
+          setShowStorageNotice(true);
+      });
+  }, []);
+
+  // Autosave once the restore prompt has been answered, so an empty board never overwrites the last session
+  useEffect(() => {
+    if (!isStorageReady || interactionState.mode !== 'none') return;
+    const timeout = window.setTimeout(() => {
+        storageRef.current.saveSession({
+            roomTitle,
+            viewport: { panOffset, scale },
+            viewSettings: { showGrid, showRuler, showMinimap },
+            elements,
+            history: history.entries,
+            historyIndex: history.index,
+            calibration: chartCalibration,
+            layers
+        }).catch(err => console.error('Autosave failed', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [isStorageReady, interactionState.mode, elements, history, roomTitle, panOffset, scale, showGrid, showRuler, showMinimap, chartCalibration, layers]);
+
+  const handleRestoreSession = async () => {
+      try {
+          const session = await storageRef.current.loadSession();
+          if (session) {
+              imageCache.current.clear();
+              setHistory({ entries: session.history, index: session.historyIndex });
+              setElements(session.elements);
+              setSelectedElementIds([]);
+              setRoomTitle(session.roomTitle);
+              setPanOffset(session.viewport.panOffset);
+              setScale(session.viewport.scale);
+              setShowGrid(session.viewSettings.showGrid);
+              setShowRuler(session.viewSettings.showRuler);
+              setShowMinimap(session.viewSettings.showMinimap);
+              setChartCalibration(session.calibration);
+              setLayers(session.layers);
+          }
+          storageRef.current.pruneImages().catch(err => console.error('Failed to prune stored images', err));
+      } catch (err) {
+          console.error('Failed to restore session', err);
+      }
+      setPendingRestore(null);
+      setIsStorageReady(true);
+  };
+
+  const handleDiscardSession = async () => {
+      try {
+          await storageRef.current.clearSession();
+      } catch (err) {
+          console.error('Failed to clear saved session', err);
+      }
+      setPendingRestore(null);
+      setIsStorageReady(true);
+  };
+
+  // --- Chart Calibration ---
+  const startCalibration = () => {
+      if (selectedElementIds.length !== 1) return;
+      const image = elements.find(el => el.id === selectedElementIds[0]);
+      if (!image || image.type !== 'image') return;
+      setCalibrationDraft({ imageId: image.id, prices: [], times: [] });
+      setTool('selection');
+  };
+
+  const clearCalibration = () => {
+      setCalibrationDraft(null);
+      const newElements = elements.map(el => {
+          if (!el.anchors) return el;
+          const { anchors, ...rest } = el;
+          return rest;
+      });
+      commitElements(newElements, { label: 'Clear chart calibration', calibration: null });
+  };
+
+  const calibrationStepLabel = (draft: CalibrationDraft) => {
+      if (draft.prices.length < 2) return `Click price level ${draft.prices.length + 1} of 2 on the chart`;
+      return `Click time ${draft.times.length + 1} of 2 on the chart`;
+  };
+
+  // Clicking again before entering a value just moves the point
+  const handleCalibrationClick = (point: Point) => {
+      if (!calibrationDraft) return;
+      const image = elements.find(el => el.id === calibrationDraft.imageId);
+      if (!image) {
+          setCalibrationDraft(null);
+          return;
+      }
+      const { rx, ry } = relativeToImage(image, point);
+      setCalibrationDraft({ ...calibrationDraft, pending: { point, rx, ry } });
+  };
+
+  const handleCalibrationValue = (value: string): string | null => {
+      const pending = calibrationDraft?.pending;
+      if (!calibrationDraft || !pending) return null;
+      const draft: CalibrationDraft = { ...calibrationDraft, prices: [...calibrationDraft.prices], times: [...calibrationDraft.times], pending: undefined };
+      if (draft.prices.length < 2) {
+          const price = parsePriceInput(value);
+          if (price === null) return 'Enter a price, e.g. 1.0850';
+          const first = draft.prices[0];
+          if (first && (first.price === price || first.ry === pending.ry)) return 'Use a different price and level than the first one';
+          draft.prices.push({ ry: pending.ry, price });
+      } else {
+          const time = parseTimeInput(value);
+          if (time === null) return 'Enter a date/time, e.g. 2025-01-15 14:00';
+          const first = draft.times[0];
+          if (first && (first.time === time || first.rx === pending.rx)) return 'Use a different time and point than the first one';
+          draft.times.push({ rx: pending.rx, time });
+      }
+
+      if (draft.prices.length < 2 || draft.times.length < 2) {
+          setCalibrationDraft(draft);
+          return null;
+      }
+
+      const calibration: ChartCalibration = {
+          imageId: draft.imageId,
+          prices: [draft.prices[0], draft.prices[1]],
+          times: [draft.times[0], draft.times[1]]
+      };
+      const axis = resolveChartAxis(calibration, elements);
+      if (!axis) return 'These points can\'t be used; pick other points or cancel';
+      setCalibrationDraft(null);
+      const newElements = elements.map(el => anchorElement(el, axis));
+      commitElements(newElements, { label: 'Calibrate chart', calibration });
+      return null;
+  };
+
   // Global Event Listeners (Paste, Drop)
   useEffect(() => {
     const handlePasteEvent = (e: ClipboardEvent) => {
@@ -335,11 +921,7 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
                   id, type: 'image', x: centerX - width / 2, y: centerY - height / 2, width, height, imageData: result, strokeColor: 'transparent', backgroundColor: 'transparent', strokeWidth: 0
               };
               imageCache.current.set(id, img);
-              setElements(prev => {
-                  const next = [...prev, newEl];
-                  pushToHistory(next);
-                  return next;
-              });
+              commitElements([...elementsRef.current, newEl]);
               setTool('selection');
           };
           img.src = result;
@@ -351,6 +933,7 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (document.activeElement?.tagName === 'INPUT' || document.activeElement?.tagName === 'TEXTAREA') return;
+      if (replayElements && e.code !== 'Space') return;
 
       const isCtrlOrMeta = e.ctrlKey || e.metaKey;
 
@@ -358,6 +941,9 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
       if (isCtrlOrMeta && e.key.toLowerCase() === 'v') { e.preventDefault(); handlePaste(); return; }
       if (isCtrlOrMeta && e.key.toLowerCase() === 'z') { e.preventDefault(); if (e.shiftKey) redo(); else undo(); return; }
       if (isCtrlOrMeta && e.key.toLowerCase() === 'y') { e.preventDefault(); redo(); return; }
+      if (isCtrlOrMeta && e.code === 'BracketRight') { e.preventDefault(); handleReorder(e.shiftKey ? 'front' : 'forward'); return; }
+      if (isCtrlOrMeta && e.code === 'BracketLeft') { e.preventDefault(); handleReorder(e.shiftKey ? 'back' : 'backward'); return; }
+      if (isCtrlOrMeta && e.key.toLowerCase() === 'g') { e.preventDefault(); if (e.shiftKey) handleUngroup(); else handleGroup(); return; }
       if (e.code === 'Space' && !isSpacePressed) setIsSpacePressed(true);
       if ((e.key === 'Delete' || e.key === 'Backspace')) handleDelete();
     };
@@ -370,9 +956,10 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
     };
-  }, [isSpacePressed, selectedElementIds, elements, undo, redo, pushToHistory, handleCopy, handlePaste, handleDelete]);
+  }, [isSpacePressed, selectedElementIds, elements, undo, redo, handleCopy, handlePaste, handleDelete, handleReorder, handleGroup, handleUngroup, replayElements]);
 
-  const effectiveTool = isSpacePressed ? 'hand' : tool;
+  const effectiveTool = isSpacePressed || replayElements ? 'hand' : tool;
+  const displayElements = replayElements ?? elements;
 
   // Sync selection styles
   useEffect(() => {
@@ -392,6 +979,9 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
         if (el.fontFamily) setFontFamily(el.fontFamily);
         if (el.fontWeight) setFontWeight(el.fontWeight);
         if (el.fontStyle) setFontStyle(el.fontStyle);
+        if (el.customData?.accountBalance !== undefined) setAccountBalance(el.customData.accountBalance);
+        if (el.customData?.riskPercent !== undefined) setRiskPercent(el.customData.riskPercent);
+        if (el.customData?.pipSize !== undefined) setPipSize(el.customData.pipSize);
       }
     }
   }, [selectedElementIds, elements]);
@@ -403,21 +993,22 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
     const newElements = elements.map(el => {
       if (selectedElementIds.includes(el.id)) {
         const updatedEl = { ...el, ...updates };
-        if (updatedEl.type === 'text' && ctx) {
-            ctx.save();
-            const fontStr = `${updatedEl.fontStyle || 'normal'} ${updatedEl.fontWeight || 'normal'} ${updatedEl.fontSize || 24}px '${updatedEl.fontFamily || 'Kalam'}'`;
-            ctx.font = fontStr;
-            const metrics = ctx.measureText(updatedEl.text || '');
-            updatedEl.width = metrics.width;
-            updatedEl.height = (updatedEl.fontSize || 24) * 1.2;
-            ctx.restore();
-        }
+        if (updatedEl.type === 'text' && ctx) return fitTextElement(ctx, updatedEl);
         return updatedEl;
       }
       return el;
     });
-    setElements(newElements);
-    pushToHistory(newElements);
+    commitElements(newElements, { label: 'Change style' });
+  };
+
+  const updateSelectedPositions = (updates: Partial<NonNullable<DrawingElement['customData']>>) => {
+    const isPosition = (el: DrawingElement) => el.type === 'long_position' || el.type === 'short_position';
+    if (!elements.some(el => selectedElementIds.includes(el.id) && isPosition(el))) return;
+    const newElements = elements.map(el =>
+        selectedElementIds.includes(el.id) && isPosition(el) ? { ...el, customData: { ...el.customData, ...updates } } : el
+    );
+    const field = Object.keys(updates).join(',');
+    commitElements(newElements, { label: 'Change position sizing', mergeKey: `position-sizing:${field}:${selectedElementIds.join(',')}` });
   };
 
   // --- Geometry Helpers ---
@@ -527,16 +1118,19 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
     let step = 100; 
     while (step * scale < 60) step *= 2;
     while (step * scale > 140) step /= 2;
+    // Time labels are wider than pixel values
+    let stepX = step;
+    if (chartAxis) while (stepX * scale < 120) stepX *= 2;
     const startX = -panOffset.x / scale;
     const endX = (w - panOffset.x) / scale;
-    const firstTickX = Math.floor(startX / step) * step;
+    const firstTickX = Math.floor(startX / stepX) * stepX;
     ctx.textAlign = 'left';
     ctx.textBaseline = 'top';
-    for (let val = firstTickX; val < endX; val += step) {
+    for (let val = firstTickX; val < endX; val += stepX) {
         const screenX = val * scale + panOffset.x;
         if (screenX < rulerSize) continue;
         ctx.beginPath(); ctx.moveTo(screenX, 15); ctx.lineTo(screenX, rulerSize); ctx.stroke();
-        ctx.fillText(Math.round(val).toString(), screenX + 2, 2);
+        ctx.fillText(chartAxis ? formatTime(chartAxis.xToTime(val)) : Math.round(val).toString(), screenX + 2, 2);
     }
     const startY = -panOffset.y / scale;
     const endY = (h - panOffset.y) / scale;
@@ -546,7 +1140,7 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
         if (screenY < rulerSize) continue;
         ctx.beginPath(); ctx.moveTo(15, screenY); ctx.lineTo(rulerSize, screenY); ctx.stroke();
         ctx.save(); ctx.translate(2, screenY + 2); ctx.rotate(Math.PI / 2);
-        ctx.fillText(Math.round(val).toString(), 0, 0); ctx.restore();
+        ctx.fillText(chartAxis ? formatPrice(chartAxis.yToPrice(val)) : Math.round(val).toString(), 0, 0); ctx.restore();
     }
     ctx.restore();
   };
@@ -625,6 +1219,127 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
      ctx.restore();
   };
 
+  const drawLaserTrail = (ctx: CanvasRenderingContext2D, points: LaserPoint[], now: number) => {
+     ctx.save();
+     ctx.lineCap = 'round';
+     ctx.lineJoin = 'round';
+     for (let i = 1; i < points.length; i++) {
+         const p1 = points[i-1];
+         const p2 = points[i];
+         const age = now - p2.timestamp;
+         const opacity = Math.max(0, 1 - age / LASER_TRAIL_MS);
+
+         ctx.beginPath();
+         ctx.moveTo(p1.x, p1.y);
+         ctx.lineTo(p2.x, p2.y);
+         ctx.strokeStyle = `rgba(255, 0, 0, ${opacity})`;
+         ctx.lineWidth = 4 * opacity;
+         ctx.stroke();
+     }
+     ctx.restore();
+  };
+
+  const drawRemoteCursor = (ctx: CanvasRenderingContext2D, peer: PresenceState) => {
+     if (!peer.pointer) return;
+     const { x, y } = peer.pointer;
+     const color = colorForPeer(peer.id);
+     const s = 1 / scale;
+     ctx.save();
+     ctx.translate(x, y);
+     ctx.scale(s, s);
+
+     // Pointer arrow
+     ctx.fillStyle = color;
+     ctx.strokeStyle = '#ffffff';
+     ctx.lineWidth = 1.5;
+     ctx.beginPath();
+     ctx.moveTo(0, 0);
+     ctx.lineTo(0, 16);
+     ctx.lineTo(4.5, 12);
+     ctx.lineTo(8, 19);
+     ctx.lineTo(10.5, 18);
+     ctx.lineTo(7, 11);
+     ctx.lineTo(12, 11);
+     ctx.closePath();
+     ctx.fill();
+     ctx.stroke();
+
+     // Name + tool tag
+     const label = `${peer.name} · ${peer.tool.replace(/_/g, ' ')}`;
+     ctx.font = '500 11px Inter, sans-serif';
+     ctx.textBaseline = 'middle';
+     const textW = ctx.measureText(label).width;
+     ctx.fillStyle = color;
+     ctx.beginPath();
+     ctx.roundRect(12, 18, textW + 12, 18, 9);
+     ctx.fill();
+     ctx.fillStyle = '#ffffff';
+     ctx.fillText(label, 18, 27);
+     ctx.restore();
+  };
+
+  const drawAnchorLabels = (ctx: CanvasRenderingContext2D, element: DrawingElement) => {
+     if (!element.anchors) return;
+     const points = anchorPoints(element);
+     ctx.save();
+     ctx.font = `${11 / scale}px Inter, sans-serif`;
+     ctx.textBaseline = 'bottom';
+     ctx.textAlign = 'left';
+     element.anchors.forEach((anchor, i) => {
+         const p = points[i];
+         if (!p) return;
+         const label = `${formatPrice(anchor.price)} · ${formatTime(anchor.time)}`;
+         const padding = 3 / scale;
+         const textW = ctx.measureText(label).width;
+         const textH = 13 / scale;
+         const lx = p.x + 6 / scale;
+         const ly = p.y - 6 / scale;
+         ctx.fillStyle = 'rgba(17, 24, 39, 0.85)';
+         ctx.fillRect(lx - padding, ly - textH - padding, textW + padding * 2, textH + padding * 2);
+         ctx.fillStyle = '#ffffff';
+         ctx.fillText(label, lx, ly);
+     });
+     ctx.restore();
+  };
+
+  const drawPositionLabels = (ctx: CanvasRenderingContext2D, element: DrawingElement, drawScale: number) => {
+     const { x, y, width = 0, height = 0 } = element;
+     const absW = Math.abs(width);
+     const absH = Math.abs(height);
+     if (absW < 40 / drawScale || absH < 20 / drawScale) return;
+
+     const left = Math.min(x, x + width);
+     const top = Math.min(y, y + height);
+     const bottom = top + absH;
+     const labels = positionLabelsForElement(element, chartAxis);
+
+     const fontSize = 11 / drawScale;
+     const padding = 3 / drawScale;
+     const drawLabel = (text: string, ly: number, background: string) => {
+         const textW = ctx.measureText(text).width;
+         const lx = left + absW / 2 - textW / 2;
+         ctx.fillStyle = background;
+         ctx.fillRect(lx - padding, ly - fontSize / 2 - padding, textW + padding * 2, fontSize + padding * 2);
+         ctx.fillStyle = '#ffffff';
+         ctx.fillText(text, lx, ly);
+     };
+
+     ctx.save();
+     ctx.globalAlpha = 1;
+     ctx.shadowBlur = 0;
+     ctx.font = `500 ${fontSize}px Inter, sans-serif`;
+     ctx.textBaseline = 'middle';
+     ctx.textAlign = 'left';
+     const topLabelY = top + fontSize;
+     const bottomLabelY = bottom - fontSize;
+     drawLabel(labels.top.text, topLabelY, labels.top.background);
+     drawLabel(labels.bottom.text, bottomLabelY, labels.bottom.background);
+     if (Math.abs(labels.entryY - topLabelY) > fontSize * 1.5 && Math.abs(bottomLabelY - labels.entryY) > fontSize * 1.5) {
+         drawLabel(labels.entry.text, labels.entryY, labels.entry.background);
+     }
+     ctx.restore();
+  };
+
   const drawElement = (ctx: CanvasRenderingContext2D, element: DrawingElement, drawScale: number = 1) => {
     ctx.save();
     ctx.globalAlpha = (element.opacity ?? 100) / 100;
@@ -718,11 +1433,16 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
         break;
       case 'text':
         if (element.text) {
-          const fontStr = `${element.fontStyle || 'normal'} ${element.fontWeight || 'normal'} ${element.fontSize || 24}px '${element.fontFamily || 'Kalam'}'`;
-          ctx.font = fontStr;
-          ctx.textAlign = element.textAlign || 'left';
+          const align = element.textAlign || 'left';
+          // Wrap at the stored box width so rendering matches what the editor measured
+          const layout = layoutText(ctx, element, width > 0 ? width + 1 : undefined);
+          const fontPx = element.fontSize || 24;
+          const halfLeading = (layout.lineHeight - fontPx) / 2;
+          const anchorX = align === 'center' ? x + width / 2 : align === 'right' ? x + width : x;
+          ctx.font = fontForElement(element);
+          ctx.textAlign = align;
           ctx.textBaseline = 'top';
-          ctx.fillText(element.text, x, y);
+          layout.lines.forEach((line, i) => ctx.fillText(line, anchorX, y + i * layout.lineHeight + halfLeading));
         }
         break;
       case 'image':
@@ -778,6 +1498,8 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
            ctx.moveTo(startX, entryY);
            ctx.lineTo(startX + absW, entryY);
            ctx.stroke();
+
+           drawPositionLabels(ctx, element, drawScale);
         }
         break;
     }
@@ -800,7 +1522,9 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
     
     if (showGrid) drawGrid(ctx, canvas.width, canvas.height, scale);
 
-    elements.forEach(el => {
+    displayElements.forEach(el => {
+        if (textEditing && el.id === textEditing.element.id) return; // The editor overlay shows it
+        if (!isElementVisible(el, layers)) return;
         const isHovered = el.id === hoveredElementId;
         const isSelected = selectedElementIds.includes(el.id);
 
@@ -818,43 +1542,73 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
     });
 
     if (currentElement) drawElement(ctx, currentElement, scale);
+
+    // Pending AI proposals: additions/edits as ghosts, deletions outlined in red
+    if (!replayElements) pendingProposals.forEach(proposal => {
+        [...proposal.add, ...proposal.update].forEach(el => {
+            drawElement(ctx, { ...el, opacity: (el.opacity ?? 100) * PROPOSAL_GHOST_OPACITY }, scale);
+        });
+        const bounds = getProposalBounds(proposal, elements);
+        if (!bounds) return;
+        ctx.save();
+        ctx.strokeStyle = proposal.remove.length > 0 ? '#ef4444' : '#8b5cf6';
+        ctx.lineWidth = 1.5 / scale;
+        ctx.setLineDash([6 / scale, 4 / scale]);
+        ctx.strokeRect(bounds.minX - 8 / scale, bounds.minY - 8 / scale, bounds.maxX - bounds.minX + 16 / scale, bounds.maxY - bounds.minY + 16 / scale);
+        ctx.restore();
+    });
     
-    // Draw Laser Points
-    if (laserPointsRef.current.length > 0) {
-        const now = Date.now();
-        // Prune old points
-        laserPointsRef.current = laserPointsRef.current.filter(p => now - p.timestamp < 1000);
-        
-        if (laserPointsRef.current.length > 1) {
+    // Remote selections
+    remotePresence.forEach(peer => {
+        const color = colorForPeer(peer.id);
+        peer.selectedElementIds.forEach(id => {
+            const el = elements.find(e => e.id === id);
+            if (!el) return;
+            const b = getElementBounds(el);
             ctx.save();
-            ctx.lineCap = 'round';
-            ctx.lineJoin = 'round';
-            for (let i = 1; i < laserPointsRef.current.length; i++) {
-                const p1 = laserPointsRef.current[i-1];
-                const p2 = laserPointsRef.current[i];
-                const age = now - p2.timestamp;
-                const opacity = Math.max(0, 1 - age / 1000);
-                
-                ctx.beginPath();
-                ctx.moveTo(p1.x, p1.y);
-                ctx.lineTo(p2.x, p2.y);
-                ctx.strokeStyle = `rgba(255, 0, 0, ${opacity})`;
-                ctx.lineWidth = 4 * opacity;
-                ctx.stroke();
-            }
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 2 / scale;
+            ctx.setLineDash([4 / scale, 4 / scale]);
+            ctx.strokeRect(b.minX - 7 / scale, b.minY - 7 / scale, b.maxX - b.minX + 14 / scale, b.maxY - b.minY + 14 / scale);
             ctx.restore();
-            // Force re-render while laser is active
-            requestAnimationFrame(renderCanvas);
+        });
+    });
+
+    // Draw Laser Points (local and remote)
+    const now = Date.now();
+    let isLaserActive = false;
+    const pruneTrail = (points: LaserPoint[]) => points.filter(p => now - p.timestamp < LASER_TRAIL_MS);
+    laserPointsRef.current = pruneTrail(laserPointsRef.current);
+    remoteLaserRef.current.forEach((trail, id) => remoteLaserRef.current.set(id, pruneTrail(trail)));
+    [laserPointsRef.current, ...remoteLaserRef.current.values()].forEach(trail => {
+        if (trail.length > 1) {
+            drawLaserTrail(ctx, trail, now);
+            isLaserActive = true;
         }
-    }
+    });
+    // Force re-render while laser is active
+    if (isLaserActive) requestAnimationFrame(renderCanvas);
 
     selectedElementIds.forEach(id => {
         const el = elements.find(e => e.id === id);
         if (el) {
             drawSelectionBorder(ctx, el, selectedElementIds.length === 1);
+            drawAnchorLabels(ctx, el);
         }
     });
 
+    // One outline around each selected group
+    new Set(elements.filter(el => el.groupId && selectedElementIds.includes(el.id)).map(el => el.groupId)).forEach(groupId => {
+        const members = elements.filter(el => el.groupId === groupId && isElementVisible(el, layers));
+        if (members.length === 0) return;
+        const b = unionBounds(members.map(getElementBounds));
+        ctx.save();
+        ctx.strokeStyle = '#8b5cf6';
+        ctx.lineWidth = 1 / scale;
+        ctx.strokeRect(b.minX - 12 / scale, b.minY - 12 / scale, b.maxX - b.minX + 24 / scale, b.maxY - b.minY + 24 / scale);
+        ctx.restore();
+    });
+
     if (selectionBox) {
         const x = Math.min(selectionBox.start.x, selectionBox.current.x);
         const y = Math.min(selectionBox.start.y, selectionBox.current.y);
@@ -871,16 +1625,21 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
         ctx.restore();
     }
 
+    // Remote cursors
+    remotePresence.forEach(peer => {
+        if (peer.pointer) drawRemoteCursor(ctx, peer);
+    });
+
     if (showRuler) {
        drawRulers(ctx, canvas.width, canvas.height);
     }
     
     ctx.restore();
-  }, [elements, currentElement, isDarkMode, panOffset, scale, showGrid, showRuler, selectedElementIds, hoveredElementId, selectionBox]);
+  }, [displayElements, currentElement, isDarkMode, panOffset, scale, showGrid, showRuler, selectedElementIds, hoveredElementId, selectionBox, chartAxis, remotePresence, textEditing, pendingProposals, layers]);
 
   // Minimap Rendering
   useEffect(() => {
-    if (!showMinimap || !minimapRef.current || elements.length === 0) return;
+    if (!showMinimap || !minimapRef.current || displayElements.length === 0) return;
     const ctx = minimapRef.current.getContext('2d');
     if (!ctx) return;
     const mmW = minimapRef.current.width;
@@ -892,7 +1651,7 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
 
     // Calculate total bounds
     let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
-    elements.forEach(el => {
+    displayElements.forEach(el => {
         const b = getElementBounds(el);
         minX = Math.min(minX, b.minX);
         minY = Math.min(minY, b.minY);
@@ -927,7 +1686,8 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
 
     // Draw Elements
     ctx.fillStyle = isDarkMode ? '#888' : '#ccc';
-    elements.forEach(el => {
+    displayElements.forEach(el => {
+        if (!isElementVisible(el, layers)) return;
         const b = getElementBounds(el);
         const ex = (b.minX - minX) * mmScale + offsetX;
         const ey = (b.minY - minY) * mmScale + offsetY;
@@ -947,7 +1707,7 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
         ctx.strokeRect(vx, vy, vw, vh);
     }
 
-  }, [elements, panOffset, scale, isDarkMode, showMinimap]);
+  }, [displayElements, panOffset, scale, isDarkMode, showMinimap, layers]);
 
 
   useEffect(() => {
@@ -973,6 +1733,14 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
   const handleMouseDown = (e: React.MouseEvent) => {
     const { x, y } = getMousePos(e);
 
+    if (calibrationDraft) {
+        handleCalibrationClick({ x, y });
+        return;
+    }
+
+    // Clicking away from the text editor only commits it (via blur)
+    if (textEditing) return;
+
     if (effectiveTool === 'laser') {
         setInteractionState({ mode: 'drawing', startMousePos: { x, y } });
         laserPointsRef.current.push({ x, y, timestamp: Date.now() });
@@ -989,9 +1757,10 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
     if (effectiveTool === 'selection') {
         if (selectedElementIds.length === 1) {
             const selectedEl = elements.find(el => el.id === selectedElementIds[0]);
-            if (selectedEl) {
+            if (selectedEl && isPickable(selectedEl)) {
                 const handle = getResizeHandleAtPosition(x, y, selectedEl);
                 if (handle) {
+                    gestureBaselineRef.current = elements;
                     setInteractionState({ 
                         mode: 'resizing', 
                         resizeHandle: handle, 
@@ -1005,7 +1774,7 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
 
         let clickedId = null;
         for (let i = elements.length - 1; i >= 0; i--) {
-            if (isPointInElement(x, y, elements[i])) {
+            if (isPickable(elements[i]) && isPointInElement(x, y, elements[i])) {
                 clickedId = elements[i].id;
                 break;
             }
@@ -1014,29 +1783,31 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
         if (clickedId) {
              const isShift = e.shiftKey;
              const isAlreadySelected = selectedElementIds.includes(clickedId);
+             const clickedIds = pickWithGroups([clickedId]);
              
              let newSelection = [...selectedElementIds];
              
              if (isShift) {
-                 if (isAlreadySelected) newSelection = newSelection.filter(id => id !== clickedId);
-                 else newSelection.push(clickedId);
+                 if (isAlreadySelected) newSelection = newSelection.filter(id => !clickedIds.includes(id));
+                 else newSelection.push(...clickedIds.filter(id => !newSelection.includes(id)));
                  
                  setSelectedElementIds(newSelection);
                  if (isAlreadySelected) return; 
              } else {
                  if (!isAlreadySelected) {
-                     newSelection = [clickedId];
+                     newSelection = clickedIds;
                      setSelectedElementIds(newSelection);
                  }
              }
 
              const snapshots = new Map<string, DrawingElement>();
              elements.forEach(el => {
-                 if (newSelection.includes(el.id)) {
+                 if (newSelection.includes(el.id) && isPickable(el)) {
                      snapshots.set(el.id, { ...el });
                  }
              });
 
+             gestureBaselineRef.current = elements;
              setInteractionState({
                 mode: 'moving',
                 startMousePos: { x, y },
@@ -1053,43 +1824,22 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
 
     const id = Date.now().toString();
     if (effectiveTool === 'text') {
-        requestAnimationFrame(() => {
-            const text = prompt("Enter text:");
-            if(text) {
-                 const canvas = canvasRef.current;
-                 const ctx = canvas?.getContext('2d');
-                 let textWidth = 100;
-                 let textHeight = fontSize * 1.2;
-                 
-                 if (ctx) {
-                     ctx.save();
-                     ctx.font = `${fontStyle} ${fontWeight} ${fontSize}px '${fontFamily}'`;
-                     const metrics = ctx.measureText(text);
-                     textWidth = metrics.width;
-                     ctx.restore();
-                 }
-    
-                 const newEl: DrawingElement = {
-                    id, type: 'text', x, y, width: textWidth, height: textHeight, text,
-                    strokeColor: strokeColor === '#000000' && !isDarkMode ? '#000000' : (isDarkMode ? '#e0e0e0' : strokeColor),
-                    backgroundColor: 'transparent', strokeWidth, fontSize, fontFamily, fontWeight, fontStyle, textAlign, opacity
-                };
-                
-                setElements(prev => {
-                    const next = [...prev, newEl];
-                    pushToHistory(next);
-                    return next;
-                });
-                setSelectedElementIds([id]); 
+        e.preventDefault(); // Keep focus on the editor that is about to open
+        setSelectedElementIds([]);
+        setTextEditing({
+            isNew: true,
+            element: {
+                id, type: 'text', x, y, width: 0, height: fontSize * 1.2, text: '',
+                strokeColor: strokeColor === '#000000' && !isDarkMode ? '#000000' : (isDarkMode ? '#e0e0e0' : strokeColor),
+                backgroundColor: 'transparent', strokeWidth, fontSize, fontFamily, fontWeight, fontStyle, textAlign, opacity
             }
-            if (!lockTool) setTool('selection');
         });
         return;
     }
 
     if (effectiveTool === 'path') {
         if (e.detail === 2 && currentElement && currentElement.type === 'path') {
-            const finalPath = { ...currentElement };
+            let finalPath = { ...currentElement };
             if (finalPath.points) {
                 const xs = finalPath.points.map(p => p.x);
                 const ys = finalPath.points.map(p => p.y);
@@ -1098,9 +1848,9 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
                 finalPath.width = Math.max(...xs) - finalPath.x;
                 finalPath.height = Math.max(...ys) - finalPath.y;
             }
+            finalPath = anchorElement(finalPath, chartAxis);
             const newElements = [...elements, finalPath];
-            setElements(newElements);
-            pushToHistory(newElements);
+            commitElements(newElements);
             setCurrentElement(null);
             setSelectedElementIds([finalPath.id]);
             setInteractionState({ mode: 'none', startMousePos: { x, y } });
@@ -1127,6 +1877,7 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
     }
 
     setInteractionState({ mode: 'drawing', startMousePos: { x, y } });
+    if (effectiveTool === 'eraser') gestureBaselineRef.current = elements;
     
     const baseElement: DrawingElement = {
       id, type: effectiveTool, x, y, width: 0, height: 0,
@@ -1137,43 +1888,67 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
     if (effectiveTool === 'pencil') {
         setCurrentElement({ ...baseElement, points: [{ x, y }] });
     } else if (effectiveTool === 'long_position' || effectiveTool === 'short_position') {
-        setCurrentElement({ ...baseElement, width: 100, height: 100, customData: { entryRatio: 0.5 } });
+        setCurrentElement({ ...baseElement, width: 100, height: 100, customData: { entryRatio: 0.5, accountBalance, riskPercent, pipSize } });
     } else {
         setCurrentElement(baseElement);
     }
   };
   
   const handleDoubleClick = (e: React.MouseEvent) => {
+    if (replayElements) return;
     const { x, y } = getMousePos(e);
-    const clickedElement = elements.slice().reverse().find(el => isPointInElement(x, y, el));
+    const clickedElement = elements.slice().reverse().find(el => isPickable(el) && isPointInElement(x, y, el));
     
     if (clickedElement && clickedElement.type === 'text') {
-       requestAnimationFrame(() => {
-           const newText = prompt("Edit text:", clickedElement.text);
-           if (newText !== null && newText !== clickedElement.text) {
-               const canvas = canvasRef.current;
-               const ctx = canvas?.getContext('2d');
-               let textWidth = clickedElement.width;
-               if (ctx) {
-                    ctx.save();
-                    const fontStr = `${clickedElement.fontStyle || 'normal'} ${clickedElement.fontWeight || 'normal'} ${clickedElement.fontSize || 24}px '${clickedElement.fontFamily || 'Kalam'}'`;
-                    ctx.font = fontStr;
-                    const metrics = ctx.measureText(newText);
-                    textWidth = metrics.width;
-                    ctx.restore();
-               }
-               const newElements = elements.map(el => 
-                   el.id === clickedElement.id ? { ...el, text: newText, width: textWidth } : el
-               );
-               setElements(newElements);
-               pushToHistory(newElements);
-           }
-       });
+       e.preventDefault();
+       setInteractionState({ mode: 'none', startMousePos: { x: 0, y: 0 } });
+       setTextEditing({ isNew: false, element: { ...clickedElement } });
+    }
+  };
+
+  // --- Inline Text Editing ---
+  const handleTextEditChange = (text: string) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    setTextEditing(prev => {
+        if (!prev) return prev;
+        const updated = { ...prev.element, text };
+        return { ...prev, element: ctx ? fitTextElement(ctx, updated) : updated };
+    });
+  };
+
+  const commitTextEdit = () => {
+    const editing = textEditingRef.current;
+    if (!editing) return;
+    textEditingRef.current = null;
+    const { element, isNew } = editing;
+    setTextEditing(null);
+    const hasText = (element.text || '').trim() !== '';
+
+    if (isNew) {
+        if (hasText) {
+            const newElements = [...elements, anchorElement(element, chartAxis)];
+            commitElements(newElements);
+            setSelectedElementIds([element.id]);
+        }
+        if (!lockTool) setTool('selection');
+        return;
+    }
+
+    const original = elements.find(el => el.id === element.id);
+    if (!original) return;
+    if (!hasText) {
+        const newElements = elements.filter(el => el.id !== element.id);
+        commitElements(newElements);
+        setSelectedElementIds(prev => prev.filter(id => id !== element.id));
+    } else if (element.text !== original.text) {
+        const newElements = elements.map(el => el.id === element.id ? anchorElement(element, chartAxis) : el);
+        commitElements(newElements, { label: 'Edit text' });
     }
   };
 
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
       const { x, y } = getMousePos(e);
+      emitPresence({ x, y });
 
       if (effectiveTool === 'laser' && interactionState.mode === 'drawing') {
           laserPointsRef.current.push({ x, y, timestamp: Date.now() });
@@ -1183,7 +1958,7 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
       if (effectiveTool === 'selection' && interactionState.mode === 'none') {
           if (selectedElementIds.length === 1) {
                const el = elements.find(e => e.id === selectedElementIds[0]);
-               if (el) {
+               if (el && isPickable(el)) {
                    const handle = getResizeHandleAtPosition(x, y, el);
                    if (handle) {
                        e.currentTarget.style.cursor = cursorForPosition(handle);
@@ -1195,7 +1970,7 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
           
           let foundId: string | null = null;
           for (let i = elements.length - 1; i >= 0; i--) {
-              if (isPointInElement(x, y, elements[i])) {
+              if (isPickable(elements[i]) && isPointInElement(x, y, elements[i])) {
                   foundId = elements[i].id;
                   break;
               }
@@ -1302,13 +2077,22 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
               } else if (effectiveTool === 'eraser') {
                   setElements(prev => prev.filter(el => {
                       const dist = Math.sqrt(Math.pow(el.x - x, 2) + Math.pow(el.y - y, 2));
-                      return dist > (eraserSize / scale);
+                      return !isPickable(el) || dist > (eraserSize / scale);
                   }));
               }
           }
       }
   };
 
+  // Re-anchor transformed elements; if the calibrated chart itself moved, annotations follow their anchors
+  const commitTransformedElements = (nextElements: DrawingElement[], changedIds: string[]) => {
+      if (chartCalibration && changedIds.includes(chartCalibration.imageId)) {
+          const axis = resolveChartAxis(chartCalibration, nextElements);
+          return nextElements.map(el => changedIds.includes(el.id) ? anchorElement(el, axis) : projectElement(el, axis));
+      }
+      return nextElements.map(el => changedIds.includes(el.id) ? anchorElement(el, chartAxis) : el);
+  };
+
   const handleMouseUp = (e: React.MouseEvent) => {
     if (effectiveTool === 'path') return;
     if (effectiveTool === 'laser') {
@@ -1322,10 +2106,11 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
         const y1 = Math.min(selectionBox.start.y, selectionBox.current.y);
         const y2 = Math.max(selectionBox.start.y, selectionBox.current.y);
 
-        const idsInBox = elements.filter(el => {
+        const idsInBox = pickWithGroups(elements.filter(el => {
+            if (!isPickable(el)) return false;
             const b = getElementBounds(el);
             return b.minX >= x1 && b.maxX <= x2 && b.minY >= y1 && b.maxY <= y2;
-        }).map(el => el.id);
+        }).map(el => el.id));
 
         setSelectedElementIds(prev => e.shiftKey ? Array.from(new Set([...prev, ...idsInBox])) : idsInBox);
         setSelectionBox(null);
@@ -1341,25 +2126,30 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
             finalElement.width = Math.max(...xs) - finalElement.x;
             finalElement.height = Math.max(...ys) - finalElement.y;
         }
-        finalElement = normalizeElement(finalElement);
+        finalElement = anchorElement(normalizeElement(finalElement), chartAxis);
         if (effectiveTool !== 'eraser') {
-             const newElements = [...elements, finalElement];
-             setElements(newElements);
+             commitElements([...elements, finalElement]);
              setSelectedElementIds([finalElement.id]);
-             pushToHistory(newElements);
         }
     }
-    if (effectiveTool === 'eraser' && interactionState.mode === 'drawing') {
-       if (elements !== history[historyIndex]) pushToHistory(elements);
-    }
-    if (interactionState.mode === 'resizing' && selectedElementIds.length === 1) {
-        const id = selectedElementIds[0];
-        const newElements = elements.map(el => el.id === id ? normalizeElement(el) : el);
-        setElements(newElements);
-        pushToHistory(newElements);
-    }
-    if (interactionState.mode === 'moving') {
-        if (elements !== history[historyIndex]) pushToHistory(elements);
+    // Drags were applied frame by frame without history; each lands here as a single step
+    const baseline = gestureBaselineRef.current;
+    gestureBaselineRef.current = null;
+    if (baseline && elements !== baseline) {
+        if (effectiveTool === 'eraser' && interactionState.mode === 'drawing') {
+            commitElements(elements, { from: baseline, label: `Erase ${elementsLabel(baseline.filter(el => !elements.includes(el)))}` });
+        }
+        if (interactionState.mode === 'resizing' && selectedElementIds.length === 1) {
+            const id = selectedElementIds[0];
+            const resized = elements.find(el => el.id === id);
+            const newElements = commitTransformedElements(elements.map(el => el.id === id ? normalizeElement(el) : el), [id]);
+            commitElements(newElements, { from: baseline, label: resized ? `Resize ${elementsLabel([resized])}` : undefined });
+        }
+        if (interactionState.mode === 'moving' && interactionState.startElementSnapshots) {
+            const moved: DrawingElement[] = Array.from(interactionState.startElementSnapshots.values());
+            const newElements = commitTransformedElements(elements, moved.map(el => el.id));
+            commitElements(newElements, { from: baseline, label: `Move ${elementsLabel(moved)}` });
+        }
     }
 
     setInteractionState({ mode: 'none', startMousePos: { x: 0, y: 0 } });
@@ -1438,18 +2228,64 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
   return (
     <div className={`relative w-full h-full overflow-hidden ${isDarkMode ? 'bg-[#121212]' : 'bg-[#FDFDFD]'}`}>
       <input type="file" ref={fileInputRef} className="hidden" accept="image/*" onChange={handleImageUpload} />
+      <input type="file" ref={boardInputRef} className="hidden" accept={`${BOARD_FILE_EXTENSION},application/json`} onChange={handleOpenBoard} />
+      <input type="file" ref={importInputRef} className="hidden" accept={`${EXCALIDRAW_FILE_EXTENSION},.json,application/json`} onChange={handleImportDrawings} />
       
       <canvas
         ref={canvasRef}
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onMouseLeave={(e) => { handleMouseUp(e); emitPresence(null); }}
         onDoubleClick={handleDoubleClick}
         onWheel={handleWheel}
         className="block touch-none outline-none"
       />
 
+      {calibrationDraft?.pending && (
+          <CalibrationInput
+            point={calibrationDraft.pending.point}
+            scale={scale}
+            panOffset={panOffset}
+            label={calibrationDraft.prices.length < 2 ? `Price at this level (${calibrationDraft.prices.length + 1}/2)` : `Date/time at this point (${calibrationDraft.times.length + 1}/2)`}
+            placeholder={calibrationDraft.prices.length < 2 ? '1.0850' : '2025-01-15 14:00'}
+            onSubmit={handleCalibrationValue}
+            onCancel={() => setCalibrationDraft({ ...calibrationDraft, pending: undefined })}
+          />
+      )}
+
+      {textEditing && (
+          <TextEditorOverlay
+            element={textEditing.element}
+            scale={scale}
+            panOffset={panOffset}
+            onChange={handleTextEditChange}
+            onCommit={commitTextEdit}
+          />
+      )}
+
+      {/* Accept / reject controls for pending AI proposals */}
+      {!replayElements && pendingProposals.map(proposal => {
+          const bounds = getProposalBounds(proposal, elements);
+          if (!bounds) return null;
+          return (
+              <div
+                key={proposal.id}
+                className="absolute z-30 flex items-center gap-1 pl-2 pr-1 py-1 rounded-full bg-violet-600 text-white text-xs shadow-lg whitespace-nowrap"
+                style={{ left: bounds.maxX * scale + panOffset.x + 8, top: bounds.minY * scale + panOffset.y - 36 }}
+                onMouseDown={(e) => e.stopPropagation()}
+              >
+                  <span className="mr-1 capitalize">{describeProposal(proposal)}</span>
+                  <button onClick={() => onResolveProposal?.(proposal.id, true)} className="p-1 rounded-full hover:bg-white/20" title="Accept">
+                      <Check size={14} />
+                  </button>
+                  <button onClick={() => onResolveProposal?.(proposal.id, false)} className="p-1 rounded-full hover:bg-white/20" title="Reject">
+                      <X size={14} />
+                  </button>
+              </div>
+          );
+      })}
+
       {/* Minimap */}
       <div className={`absolute bottom-4 right-4 z-40 transition-opacity ${showMinimap ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
           <canvas 
@@ -1472,8 +2308,10 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
         <div className="flex items-center p-1 gap-1 bg-white rounded-lg shadow-[0_2px_8px_rgba(0,0,0,0.1)] border border-gray-200">
             <button onClick={() => setLockTool(!lockTool)} className={`p-2 rounded-lg transition-colors ${lockTool ? 'bg-violet-100 text-violet-700' : 'text-gray-600 hover:bg-gray-100'}`} title="Lock Tool"><Lock size={16} /></button>
             <div className="w-px h-6 bg-gray-200 mx-1"></div>
-            <button onClick={undo} disabled={historyIndex === 0} className={`p-2 rounded-lg transition-colors ${historyIndex === 0 ? 'text-gray-300 cursor-not-allowed' : 'text-gray-600 hover:bg-gray-100'}`} title="Undo"><Undo size={16} /></button>
-            <button onClick={redo} disabled={historyIndex === history.length - 1} className={`p-2 rounded-lg transition-colors ${historyIndex === history.length - 1 ? 'text-gray-300 cursor-not-allowed' : 'text-gray-600 hover:bg-gray-100'}`} title="Redo"><Redo size={16} /></button>
+            <button onClick={undo} disabled={!canUndo} className={`p-2 rounded-lg transition-colors ${!canUndo ? 'text-gray-300 cursor-not-allowed' : 'text-gray-600 hover:bg-gray-100'}`} title="Undo"><Undo size={16} /></button>
+            <button onClick={redo} disabled={history.index === history.entries.length} className={`p-2 rounded-lg transition-colors ${history.index === history.entries.length ? 'text-gray-300 cursor-not-allowed' : 'text-gray-600 hover:bg-gray-100'}`} title="Redo"><Redo size={16} /></button>
+            <button onClick={() => setSidePanel(prev => prev === 'history' ? null : 'history')} className={`p-2 rounded-lg transition-colors ${sidePanel === 'history' ? 'bg-violet-100 text-violet-700' : 'text-gray-600 hover:bg-gray-100'}`} title="History"><HistoryIcon size={16} /></button>
+            <button onClick={() => setSidePanel(prev => prev === 'layers' ? null : 'layers')} className={`p-2 rounded-lg transition-colors ${sidePanel === 'layers' ? 'bg-violet-100 text-violet-700' : 'text-gray-600 hover:bg-gray-100'}`} title="Layers"><LayersIcon size={16} /></button>
             <div className="w-px h-6 bg-gray-200 mx-1"></div>
             <ToolButton t="hand" icon={Hand} isActiveOverride={effectiveTool === 'hand' && tool !== 'hand'} />
             <ToolButton t="selection" icon={MousePointer2} />
@@ -1492,7 +2330,25 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
             <ToolButton t="image" icon={ImageIcon} />
             <ToolButton t="eraser" icon={Eraser} />
             <div className="w-px h-6 bg-gray-200 mx-1"></div>
-            <button onClick={handleSnapshot} className="p-2 rounded-lg text-gray-600 hover:bg-gray-100" title="Export Snapshot"><Camera size={18} /></button>
+            <button onClick={handleSaveBoard} className="p-2 rounded-lg text-gray-600 hover:bg-gray-100" title="Save Board"><Save size={18} /></button>
+            <button onClick={() => boardInputRef.current?.click()} className="p-2 rounded-lg text-gray-600 hover:bg-gray-100" title="Open Board"><FolderOpen size={18} /></button>
+            <button onClick={() => importInputRef.current?.click()} className="p-2 rounded-lg text-gray-600 hover:bg-gray-100" title="Import Excalidraw / TradingView"><Import size={18} /></button>
+            <div className="relative">
+                <button onClick={() => setShowExportMenu(!showExportMenu)} className={`p-2 rounded-lg transition-colors ${showExportMenu ? 'bg-violet-100 text-violet-700' : 'text-gray-600 hover:bg-gray-100'}`} title="Export"><Camera size={18} /></button>
+                {showExportMenu && (
+                    <div className="absolute right-0 top-full mt-2 w-44 p-1 bg-white rounded-lg shadow-lg border border-gray-200 text-sm text-gray-700">
+                        <button onClick={() => handleExport('png')} className="w-full text-left px-3 py-1.5 rounded hover:bg-gray-100">Export PNG</button>
+                        <button onClick={() => handleExport('svg')} className="w-full text-left px-3 py-1.5 rounded hover:bg-gray-100">Export SVG</button>
+                        <button onClick={() => handleExport('pdf')} className="w-full text-left px-3 py-1.5 rounded hover:bg-gray-100">Export PDF</button>
+                        <button onClick={() => handleExport('excalidraw')} className="w-full text-left px-3 py-1.5 rounded hover:bg-gray-100">Export Excalidraw</button>
+                        <div className="h-px bg-gray-200 my-1"></div>
+                        <label className={`flex items-center gap-2 px-3 py-1.5 ${selectedElementIds.length === 0 ? 'text-gray-400' : 'cursor-pointer'}`}>
+                            <input type="checkbox" checked={exportSelectionOnly} disabled={selectedElementIds.length === 0} onChange={(e) => setExportSelectionOnly(e.target.checked)} />
+                            Selection only
+                        </label>
+                    </div>
+                )}
+            </div>
         </div>
       </div>
 
@@ -1575,6 +2431,68 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
                   </div>
               </div>
 
+              {/* Position Sizing */}
+              {(tool === 'long_position' || tool === 'short_position' || elements.some(el => selectedElementIds.includes(el.id) && (el.type === 'long_position' || el.type === 'short_position'))) && (
+                  <div className="flex flex-col gap-2">
+                      <label className="text-[10px] uppercase font-bold text-gray-400">Risk</label>
+                      <div className="flex items-center justify-between gap-2">
+                          <span className="text-xs text-gray-600">Balance</span>
+                          <input
+                              type="number"
+                              min="0"
+                              value={accountBalance}
+                              onChange={(e) => { const v = Math.max(0, Number(e.target.value)); setAccountBalance(v); updateSelectedPositions({ accountBalance: v }); }}
+                              className="w-24 px-2 py-1 rounded border border-gray-200 text-xs text-gray-700 text-right outline-none focus:border-violet-400"
+                          />
+                      </div>
+                      <div className="flex items-center justify-between gap-2">
+                          <span className="text-xs text-gray-600">Risk %</span>
+                          <input
+                              type="number"
+                              min="0"
+                              max="100"
+                              step="0.25"
+                              value={riskPercent}
+                              onChange={(e) => { const v = Math.min(100, Math.max(0, Number(e.target.value))); setRiskPercent(v); updateSelectedPositions({ riskPercent: v }); }}
+                              className="w-24 px-2 py-1 rounded border border-gray-200 text-xs text-gray-700 text-right outline-none focus:border-violet-400"
+                          />
+                      </div>
+                      <div className="flex gap-1">
+                          {[{ v: 0.0001, l: '0.0001' }, { v: 0.01, l: 'JPY' }, { v: 1, l: '1.0' }].map(opt => (
+                              <button
+                                key={opt.v}
+                                onClick={() => { setPipSize(opt.v); updateSelectedPositions({ pipSize: opt.v }); }}
+                                className={`flex-1 h-7 rounded text-xs ${pipSize === opt.v ? 'bg-violet-100 text-violet-700' : 'hover:bg-gray-100 text-gray-500'}`}
+                                title={`Pip size ${opt.v}`}
+                              >
+                                 {opt.l}
+                              </button>
+                          ))}
+                      </div>
+                      {!chartAxis && <span className="text-[10px] text-gray-500">Calibrate a chart to see prices, pips and size</span>}
+                  </div>
+              )}
+
+              {/* Chart Anchoring */}
+              {(chartCalibration || (selectedElementIds.length === 1 && elements.find(el => el.id === selectedElementIds[0])?.type === 'image')) && (
+                  <div className="flex flex-col gap-2">
+                      <label className="text-[10px] uppercase font-bold text-gray-400">Chart</label>
+                      <div className="flex gap-2">
+                          {selectedElementIds.length === 1 && elements.find(el => el.id === selectedElementIds[0])?.type === 'image' && (
+                              <button onClick={startCalibration} className="flex-1 flex items-center justify-center gap-1 p-1.5 rounded bg-gray-100 hover:bg-gray-200 text-xs text-gray-700" title="Calibrate price/time axes">
+                                  <Crosshair size={14}/> Calibrate
+                              </button>
+                          )}
+                          {chartCalibration && (
+                              <button onClick={clearCalibration} className="flex-1 flex items-center justify-center gap-1 p-1.5 rounded bg-gray-100 hover:bg-gray-200 text-xs text-gray-700" title="Remove calibration">
+                                  <X size={14}/> Clear
+                              </button>
+                          )}
+                      </div>
+                      {chartAxis && <span className="text-[10px] text-gray-500">Ruler and anchors show price/time</span>}
+                  </div>
+              )}
+
               <div className="h-px bg-gray-200"></div>
 
               {/* Stroke Width (Hidden when using Eraser) */}
@@ -1599,14 +2517,99 @@ const AnnotationCanvas = forwardRef<AnnotationCanvasRef, AnnotationCanvasProps>(
                </>
                )}
 
+               {/* Arrange (Visible for multi-selections and groups) */}
+               {(selectedElementIds.length > 1 || selectionHasGroup) && (
+                 <>
+                   <div className="flex flex-col gap-2">
+                       <label className="text-[10px] uppercase font-bold text-gray-400">Arrange</label>
+                       <div className="grid grid-cols-6 gap-1">
+                           {([
+                               ['left', AlignStartVertical, 'Align Left'],
+                               ['center', AlignCenterVertical, 'Align Centers'],
+                               ['right', AlignEndVertical, 'Align Right'],
+                               ['top', AlignStartHorizontal, 'Align Top'],
+                               ['middle', AlignCenterHorizontal, 'Align Middles'],
+                               ['bottom', AlignEndHorizontal, 'Align Bottom']
+                           ] as const).map(([edge, Icon, title]) => (
+                               <button key={edge} onClick={() => handleAlign(edge)} disabled={selectedElementIds.length < 2} className="flex items-center justify-center p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40" title={title}><Icon size={14} /></button>
+                           ))}
+                           <button onClick={() => handleDistribute('horizontal')} disabled={selectedElementIds.length < 3} className="flex items-center justify-center p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40" title="Distribute Horizontally"><AlignHorizontalDistributeCenter size={14} /></button>
+                           <button onClick={() => handleDistribute('vertical')} disabled={selectedElementIds.length < 3} className="flex items-center justify-center p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40" title="Distribute Vertically"><AlignVerticalDistributeCenter size={14} /></button>
+                           <button onClick={() => handleMatchSize('width')} disabled={selectedElementIds.length < 2} className="flex items-center justify-center p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40" title="Match Width (of the first selected)"><MoveHorizontal size={14} /></button>
+                           <button onClick={() => handleMatchSize('height')} disabled={selectedElementIds.length < 2} className="flex items-center justify-center p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40" title="Match Height (of the first selected)"><MoveVertical size={14} /></button>
+                           <button onClick={() => handleMatchSize('both')} disabled={selectedElementIds.length < 2} className="flex items-center justify-center p-1.5 rounded text-gray-600 hover:bg-gray-100 disabled:opacity-40" title="Match Size (of the first selected)"><Scaling size={14} /></button>
+                       </div>
+                       <div className="flex gap-1">
+                           <button onClick={handleGroup} disabled={selectedElementIds.length < 2} className="flex-1 flex items-center justify-center gap-1 p-1.5 rounded bg-gray-100 hover:bg-gray-200 text-xs text-gray-700 disabled:opacity-40" title="Group (Ctrl+G)"><Group size={14} /> Group</button>
+                           <button onClick={handleUngroup} disabled={!selectionHasGroup} className="flex-1 flex items-center justify-center gap-1 p-1.5 rounded bg-gray-100 hover:bg-gray-200 text-xs text-gray-700 disabled:opacity-40" title="Ungroup (Ctrl+Shift+G)"><Ungroup size={14} /> Ungroup</button>
+                       </div>
+                   </div>
+
+                   <div className="h-px bg-gray-200"></div>
+                 </>
+               )}
+
                <div className="flex items-center gap-1">
                    <button onClick={handleCopy} disabled={selectedElementIds.length === 0} className="flex-1 p-2 text-gray-600 hover:bg-gray-100 rounded flex items-center justify-center disabled:opacity-50" title="Copy"><Copy size={16} /></button>
                    <button onClick={handlePaste} disabled={clipboard.length === 0} className="flex-1 p-2 text-gray-600 hover:bg-gray-100 rounded flex items-center justify-center disabled:opacity-50" title="Paste"><Clipboard size={16} /></button>
+                   <button onClick={handleLockSelection} disabled={selectedElementIds.length === 0} className="flex-1 p-2 text-gray-600 hover:bg-gray-100 rounded flex items-center justify-center disabled:opacity-50" title="Lock (unlock from the Layers panel)"><Lock size={16} /></button>
                    <button onClick={handleDelete} className={`flex-1 p-2 rounded flex items-center justify-center ${selectedElementIds.length > 0 ? 'text-red-500 hover:bg-red-50' : 'text-gray-400 hover:bg-gray-100'}`} title="Delete"><Trash2 size={16} /></button>
                </div>
           </div>
        </div>
 
+       {sidePanel === 'history' && (
+           <HistoryPanel history={history} isDarkMode={isDarkMode} onJump={jumpToHistory} onClose={() => setSidePanel(null)} />
+       )}
+       {sidePanel === 'layers' && (
+           <LayersPanel
+               elements={elements}
+               layers={layers}
+               selectedIds={selectedElementIds}
+               isDarkMode={isDarkMode}
+               onSelect={handleLayerSelect}
+               onToggleElement={handleToggleElementFlag}
+               onReorder={handleReorder}
+               onMoveToLayer={handleMoveToLayer}
+               onLayersChange={setLayers}
+               onDeleteLayer={handleDeleteLayer}
+               onClose={() => setSidePanel(null)}
+           />
+       )}
+
+       {/* Calibration Hint */}
+       {calibrationDraft && (
+           <div className="fixed top-40 left-1/2 transform -translate-x-1/2 z-50 bg-gray-900 text-white rounded-lg shadow-lg flex items-center gap-3 px-4 py-2">
+               <Crosshair size={16} className="text-amber-400" />
+               <span className="text-sm">{calibrationStepLabel(calibrationDraft)}</span>
+               <button onClick={() => setCalibrationDraft(null)} className="p-1 rounded hover:bg-gray-700" title="Cancel Calibration"><X size={14} /></button>
+           </div>
+       )}
+
+       {/* Restore Prompt */}
+       {pendingRestore && (
+           <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-50 bg-white rounded-lg shadow-lg border border-gray-200 flex items-center gap-3 p-3">
+               <HistoryIcon size={18} className="text-violet-600 shrink-0" />
+               <div className="flex flex-col">
+                   <span className="text-sm font-medium text-gray-800">Restore "{pendingRestore.roomTitle}"?</span>
+                   <span className="text-xs text-gray-500">{pendingRestore.elementCount} elements • saved {new Date(pendingRestore.savedAt).toLocaleString()}</span>
+               </div>
+               <button onClick={handleRestoreSession} className="px-3 py-1.5 rounded bg-violet-600 hover:bg-violet-500 text-white text-xs font-semibold">Restore</button>
+               <button onClick={handleDiscardSession} className="px-3 py-1.5 rounded text-gray-600 hover:bg-gray-100 text-xs font-semibold">Discard</button>
+           </div>
+       )}
+
+       {showStorageNotice && (
+           <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-50 bg-white rounded-lg shadow-lg border border-gray-200 flex items-center gap-3 p-3">
+               <AlertTriangle size={18} className="text-amber-500 shrink-0" />
+               <div className="flex flex-col">
+                   <span className="text-sm font-medium text-gray-800">Autosave is off</span>
+                   <span className="text-xs text-gray-500">This browser's storage is unavailable, so drawings won't be kept after reloading. Use Save Board to keep a copy.</span>
+               </div>
+               <button onClick={() => setShowStorageNotice(false)} className="p-1.5 rounded text-gray-500 hover:bg-gray-100" title="Dismiss"><X size={14} /></button>
+           </div>
+       )}
+
        <div className="absolute bottom-4 left-4 z-30 flex items-center gap-2">
            <div className="bg-white rounded-lg shadow-md border border-gray-200 flex items-center p-1">
                <button onClick={() => updateZoom(-0.1)} className="p-2 hover:bg-gray-100 rounded text-gray-600"><Minus size={16} /></button>
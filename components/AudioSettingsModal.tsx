@@ -0,0 +1,332 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Mic, Volume2, SlidersHorizontal, Play, Square, Keyboard } from 'lucide-react';
+import { AudioDevices, AudioSettings, MicMode, keyCodeLabel, listAudioDevices, needsNewInputStream, openMicrophone, supportsOutputSelection } from '../services/audioSettings';
+import { VoiceActivityDetector } from '../services/voiceActivity';
+
+interface AudioSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AudioSettings;
+  onSettingsChange: (settings: AudioSettings) => void;
+}
+
+const MIC_MODES: { id: MicMode; label: string; description: string }[] = [
+  { id: 'vad', label: 'Voice Activity', description: 'Sends audio while you speak' },
+  { id: 'push_to_talk', label: 'Push to Talk', description: 'Sends audio while you hold a key' },
+  { id: 'open', label: 'Always On', description: 'Sends everything the mic hears' }
+];
+
+const Toggle = ({ label, description, checked, onChange }: { label: string; description: string; checked: boolean; onChange: (checked: boolean) => void }) => (
+  <div className="flex items-center justify-between gap-4 p-3 rounded-xl bg-[#1e2330]/50 border border-gray-800">
+    <div className="flex flex-col">
+      <span className="text-sm font-semibold text-gray-300">{label}</span>
+      <span className="text-xs text-gray-500">{description}</span>
+    </div>
+    <button
+      onClick={() => onChange(!checked)}
+      className={`w-12 h-7 rounded-full transition-colors relative shrink-0 ${checked ? 'bg-indigo-500' : 'bg-gray-700'}`}
+    >
+      <div className={`absolute top-1 w-5 h-5 rounded-full bg-white transition-transform shadow-sm ${checked ? 'left-6' : 'left-1'}`} />
+    </button>
+  </div>
+);
+
+const AudioSettingsModal: React.FC<AudioSettingsModalProps> = ({
+  isOpen,
+  onClose,
+  settings,
+  onSettingsChange
+}) => {
+  const [devices, setDevices] = useState<AudioDevices>({ inputs: [], outputs: [] });
+  const [isTesting, setIsTesting] = useState(false);
+  const [testLevel, setTestLevel] = useState(0);
+  const [testVoice, setTestVoice] = useState(false);
+  const [isBindingKey, setIsBindingKey] = useState(false);
+  const levelFrameRef = useRef<number | null>(null);
+  const testGainRef = useRef<GainNode | null>(null);
+  const testVadRef = useRef<VoiceActivityDetector | null>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  // The settings the test stream was opened with; only device and processing changes need a new stream
+  const [streamSettings, setStreamSettings] = useState(settings);
+  if (needsNewInputStream(streamSettings, settings)) setStreamSettings(settings);
+
+  const refreshDevices = () => {
+    listAudioDevices().then(setDevices).catch(e => console.error('Failed to list audio devices', e));
+  };
+
+  // Keep the lists current while devices are plugged in or out
+  useEffect(() => {
+    if (!isOpen) return;
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+  }, [isOpen]);
+
+  // Level test: meters the selected mic with the current processing and gain; reopens the mic only when the device or processing changes
+  useEffect(() => {
+    if (!isOpen || !isTesting) return;
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let context: AudioContext | null = null;
+
+    openMicrophone(streamSettings, () => alert('That microphone is not connected; testing the system default instead.')).then(s => {
+      stream = s;
+      if (cancelled) {
+        s.getTracks().forEach(track => track.stop());
+        return;
+      }
+      refreshDevices(); // Labels become available once access is granted
+      context = new AudioContext();
+      const source = context.createMediaStreamSource(s);
+      const gain = context.createGain();
+      gain.gain.value = settingsRef.current.inputGain;
+      testGainRef.current = gain;
+      const analyser = context.createAnalyser();
+      analyser.fftSize = 1024;
+      source.connect(gain);
+      gain.connect(analyser);
+
+      const data = new Float32Array(analyser.fftSize);
+      const vad = new VoiceActivityDetector(settingsRef.current.vadSensitivity);
+      testVadRef.current = vad;
+      const tick = () => {
+        analyser.getFloatTimeDomainData(data);
+        let sum = 0;
+        for (let i = 0; i < data.length; i++) sum += data[i] * data[i];
+        const rms = Math.sqrt(sum / data.length);
+        setTestLevel(Math.min(1, rms * 5));
+        setTestVoice(vad.process(rms, performance.now(), false));
+        levelFrameRef.current = requestAnimationFrame(tick);
+      };
+      tick();
+    }).catch(e => {
+      console.error('Microphone test failed', e);
+      alert('Could not open that microphone. Check the browser permission and try another device.');
+      setIsTesting(false);
+    });
+
+    return () => {
+      cancelled = true;
+      if (levelFrameRef.current) cancelAnimationFrame(levelFrameRef.current);
+      levelFrameRef.current = null;
+      stream?.getTracks().forEach(track => track.stop());
+      context?.close();
+      testGainRef.current = null;
+      testVadRef.current = null;
+      setTestLevel(0);
+      setTestVoice(false);
+    };
+  }, [isOpen, isTesting, streamSettings]);
+
+  // Gain and sensitivity apply to the running test as the sliders move
+  useEffect(() => {
+    if (testGainRef.current) testGainRef.current.gain.value = settings.inputGain;
+    testVadRef.current?.setSensitivity(settings.vadSensitivity);
+  }, [settings.inputGain, settings.vadSensitivity]);
+
+  useEffect(() => {
+    if (!isOpen) setIsTesting(false);
+  }, [isOpen]);
+
+  // Capture the next key press as the push-to-talk binding; Escape cancels
+  useEffect(() => {
+    if (!isBindingKey) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code !== 'Escape') onSettingsChange({ ...settings, pushToTalkKey: e.code });
+      setIsBindingKey(false);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [isBindingKey, settings, onSettingsChange]);
+
+  if (!isOpen) return null;
+
+  const handleChange = <K extends keyof AudioSettings>(key: K, value: AudioSettings[K]) => {
+    onSettingsChange({ ...settings, [key]: value });
+  };
+
+  const deviceLabel = (device: MediaDeviceInfo, index: number, kind: string) => device.label || `${kind} ${index + 1}`;
+  const canPickOutput = supportsOutputSelection();
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div
+        className="bg-[#0f111a] w-full max-w-lg rounded-2xl shadow-2xl border border-gray-800 overflow-hidden flex flex-col max-h-[90vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-800 bg-[#161922]">
+          <div className="flex items-center gap-4">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-emerald-500 to-teal-600 flex items-center justify-center shadow-lg">
+                <SlidersHorizontal className="text-white w-6 h-6" />
+            </div>
+            <div>
+              <h2 className="text-white font-bold text-lg leading-tight">Audio Settings</h2>
+              <span className="text-gray-400 text-xs">Changes apply immediately, even mid-session</span>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-white rounded-lg hover:bg-gray-800 transition-colors">
+              <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto custom-scrollbar flex flex-col gap-6">
+
+            {/* Input */}
+            <div className="flex flex-col gap-2">
+                <label className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                    <Mic size={12} /> Microphone
+                </label>
+                <select
+                    value={settings.inputDeviceId ?? ''}
+                    onChange={(e) => handleChange('inputDeviceId', e.target.value || null)}
+                    className="w-full bg-[#1e2330] border border-gray-700 rounded-xl py-3 px-4 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                    <option value="">System default</option>
+                    {devices.inputs.filter(d => d.deviceId && d.deviceId !== 'default').map((device, i) => (
+                        <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i, 'Microphone')}</option>
+                    ))}
+                </select>
+            </div>
+
+            {/* Output */}
+            <div className="flex flex-col gap-2">
+                <label className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                    <Volume2 size={12} /> Speaker
+                </label>
+                <select
+                    value={settings.outputDeviceId ?? ''}
+                    onChange={(e) => handleChange('outputDeviceId', e.target.value || null)}
+                    disabled={!canPickOutput}
+                    className="w-full bg-[#1e2330] border border-gray-700 rounded-xl py-3 px-4 text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+                >
+                    <option value="">System default</option>
+                    {devices.outputs.filter(d => d.deviceId && d.deviceId !== 'default').map((device, i) => (
+                        <option key={device.deviceId} value={device.deviceId}>{deviceLabel(device, i, 'Speaker')}</option>
+                    ))}
+                </select>
+                {!canPickOutput && <span className="text-xs text-gray-500">This browser always plays through the system default output.</span>}
+            </div>
+
+            {/* Mic mode */}
+            <div className="flex flex-col gap-2">
+                <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">Microphone Mode</label>
+                <div className="grid grid-cols-3 gap-2">
+                    {MIC_MODES.map(mode => (
+                        <button
+                            key={mode.id}
+                            onClick={() => handleChange('micMode', mode.id)}
+                            className={`flex flex-col gap-0.5 p-3 rounded-xl border text-left transition-all ${
+                                settings.micMode === mode.id
+                                ? 'bg-[#1e2330] border-indigo-500 ring-1 ring-indigo-500/50'
+                                : 'bg-[#1e2330]/50 border-gray-800 hover:border-gray-600'
+                            }`}
+                        >
+                            <span className={`text-sm font-semibold ${settings.micMode === mode.id ? 'text-white' : 'text-gray-300'}`}>{mode.label}</span>
+                            <span className="text-[11px] leading-tight text-gray-500">{mode.description}</span>
+                        </button>
+                    ))}
+                </div>
+
+                {settings.micMode === 'vad' && (
+                    <div className="flex flex-col gap-1 mt-1">
+                        <div className="flex items-center justify-between">
+                            <span className="text-xs text-gray-400">Sensitivity</span>
+                            <span className="text-xs text-gray-400 tabular-nums">{Math.round(settings.vadSensitivity * 100)}%</span>
+                        </div>
+                        <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={settings.vadSensitivity}
+                            onChange={(e) => handleChange('vadSensitivity', Number(e.target.value))}
+                            className="w-full accent-indigo-500"
+                        />
+                        <span className="text-[11px] text-gray-500">Raise it if your first words get cut off, lower it if background noise reaches the AI. Use Test Mic below to check.</span>
+                    </div>
+                )}
+
+                {settings.micMode === 'push_to_talk' && (
+                    <div className="flex items-center justify-between gap-4 mt-1">
+                        <span className="text-xs text-gray-400">Hold to talk</span>
+                        <button
+                            onClick={() => setIsBindingKey(true)}
+                            className={`flex items-center gap-2 py-2 px-4 rounded-lg border text-sm font-mono ${isBindingKey ? 'border-indigo-500 text-indigo-300 animate-pulse' : 'border-gray-700 text-gray-200 hover:bg-gray-800'}`}
+                        >
+                            <Keyboard size={14} />
+                            {isBindingKey ? 'Press a key…' : keyCodeLabel(settings.pushToTalkKey)}
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {/* Processing */}
+            <div className="flex flex-col gap-2">
+                <Toggle
+                    label="Echo Cancellation"
+                    description="Stops the AI hearing itself through your speakers"
+                    checked={settings.echoCancellation}
+                    onChange={(checked) => handleChange('echoCancellation', checked)}
+                />
+                <Toggle
+                    label="Noise Suppression"
+                    description="Filters fans, keyboards and background noise"
+                    checked={settings.noiseSuppression}
+                    onChange={(checked) => handleChange('noiseSuppression', checked)}
+                />
+                <Toggle
+                    label="Automatic Gain"
+                    description="Lets the browser even out your volume"
+                    checked={settings.autoGainControl}
+                    onChange={(checked) => handleChange('autoGainControl', checked)}
+                />
+            </div>
+
+            {/* Gain + level test */}
+            <div className="flex flex-col gap-3">
+                <div className="flex items-center justify-between">
+                    <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">Input Gain</label>
+                    <span className="text-xs text-gray-400 tabular-nums">{Math.round(settings.inputGain * 100)}%</span>
+                </div>
+                <input
+                    type="range"
+                    min={0}
+                    max={3}
+                    step={0.05}
+                    value={settings.inputGain}
+                    onChange={(e) => handleChange('inputGain', Number(e.target.value))}
+                    className="w-full accent-indigo-500"
+                />
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => setIsTesting(prev => !prev)}
+                        className={`flex items-center gap-2 py-2 px-4 rounded-full text-xs font-semibold border shrink-0 ${isTesting ? 'bg-red-500 text-white border-red-500' : 'border-gray-700 text-gray-300 hover:bg-gray-800'}`}
+                    >
+                        {isTesting ? <Square size={12} /> : <Play size={12} />}
+                        {isTesting ? 'Stop Test' : 'Test Mic'}
+                    </button>
+                    <div className="flex-1 h-2 rounded-full bg-gray-800 overflow-hidden">
+                        <div
+                            className={`h-full transition-[width] duration-75 ${testLevel > 0.85 ? 'bg-red-500' : 'bg-green-500'}`}
+                            style={{ width: `${testLevel * 100}%` }}
+                        />
+                    </div>
+                    {isTesting && (
+                        <span className={`text-[11px] font-semibold shrink-0 ${testVoice ? 'text-green-400' : 'text-gray-600'}`} title="Whether voice activity detection hears speech at this sensitivity">
+                            {testVoice ? 'Voice' : 'Silence'}
+                        </span>
+                    )}
+                </div>
+            </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioSettingsModal;
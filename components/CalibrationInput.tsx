@@ -0,0 +1,65 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { Point } from '../types';
+
+interface CalibrationInputProps {
+  point: Point; // World position that was clicked
+  scale: number;
+  panOffset: Point;
+  label: string;
+  placeholder: string;
+  onSubmit: (value: string) => string | null; // Returns an error message when the value can't be used
+  onCancel: () => void;
+}
+
+// Small inline field next to a clicked calibration point, instead of a browser prompt
+const CalibrationInput: React.FC<CalibrationInputProps> = ({ point, scale, panOffset, label, placeholder, onSubmit, onCancel }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    setValue('');
+    setError(null);
+  }, [point]);
+
+  const submit = () => setError(onSubmit(value));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    e.stopPropagation();
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      submit();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  return (
+    <div
+      className="absolute z-40 flex flex-col gap-1 p-2 rounded-lg bg-gray-900 text-white shadow-lg"
+      style={{ left: point.x * scale + panOffset.x + 12, top: point.y * scale + panOffset.y + 12 }}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <span className="text-[10px] uppercase font-bold text-gray-400">{label}</span>
+      <div className="flex items-center gap-1">
+        <input
+          ref={inputRef}
+          value={value}
+          onChange={(e) => { setValue(e.target.value); setError(null); }}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          className={`w-44 px-2 py-1 rounded bg-gray-800 text-sm outline-none border ${error ? 'border-red-500' : 'border-gray-700 focus:border-amber-400'}`}
+        />
+        <button onClick={submit} className="p-1 rounded hover:bg-gray-700" title="Set"><Check size={14} /></button>
+        <button onClick={onCancel} className="p-1 rounded hover:bg-gray-700" title="Pick another point"><X size={14} /></button>
+      </div>
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </div>
+  );
+};
+
+export default CalibrationInput;
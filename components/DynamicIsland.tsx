@@ -1,7 +1,10 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Mic, MicOff, PhoneOff, Users, ChevronDown, Activity, UserPlus, Link, Settings2 } from 'lucide-react';
-import { ConnectionState, AudioPeer } from '../types';
+import { Mic, MicOff, PhoneOff, Users, ChevronDown, Activity, UserPlus, Link, Settings2, Circle, Square, History, ScrollText, Check, X, Sparkles, RefreshCw, SlidersHorizontal } from 'lucide-react';
+import { ConnectionState, AudioPeer, AiProposal } from '../types';
+import { describeProposal } from '../services/proposalQueue';
+import { FrameStats } from '../services/frameScheduler';
+import { Persona } from '../services/personas';
 
 interface DynamicIslandProps {
   connectionState: ConnectionState;
@@ -15,6 +18,19 @@ interface DynamicIslandProps {
   onConnect: () => void;
   onAddUser: () => void;
   onConfigureAI?: () => void;
+  isRecording?: boolean;
+  onToggleRecording?: () => void;
+  onOpenRecording?: () => void;
+  isTranscriptOpen?: boolean;
+  onToggleTranscript?: () => void;
+  onOpenAudioSettings?: () => void;
+  proposals?: AiProposal[]; // AI board changes awaiting the user's decision
+  onResolveProposal?: (id: string, accepted: boolean) => void;
+  frameStats?: FrameStats | null; // Visual stream to the AI, while connected
+  personas?: Persona[]; // Switchable before a session starts
+  activePersonaId?: string;
+  onSelectPersona?: (id: string) => void;
+  boardSyncState?: ConnectionState | null; // Shared board connection; null when not in a room
 }
 
 const getStateConfig = (state: ConnectionState) => {
@@ -23,6 +39,8 @@ const getStateConfig = (state: ConnectionState) => {
       return { color: 'bg-green-500', text: 'Live' };
     case ConnectionState.CONNECTING:
       return { color: 'bg-yellow-500', text: 'Connecting' };
+    case ConnectionState.RECONNECTING:
+      return { color: 'bg-orange-500', text: 'Reconnecting' };
     case ConnectionState.ERROR:
       return { color: 'bg-red-500', text: 'Error' };
     case ConnectionState.DISCONNECTED:
@@ -31,6 +49,19 @@ const getStateConfig = (state: ConnectionState) => {
   }
 };
 
+const getSyncConfig = (state: ConnectionState) => {
+  switch (state) {
+    case ConnectionState.CONNECTED:
+      return { className: 'text-green-500', text: 'Board synced' };
+    case ConnectionState.RECONNECTING:
+      return { className: 'text-orange-400 animate-pulse', text: 'Board reconnecting' };
+    case ConnectionState.CONNECTING:
+      return { className: 'text-yellow-500 animate-pulse', text: 'Board connecting' };
+    default:
+      return { className: 'text-gray-400', text: 'Board offline' };
+  }
+};
+
 // Simple waveform component
 const Waveform = ({ volume, color }: { volume: number, color: string }) => {
     // Generate 5 bars
@@ -63,15 +94,30 @@ const DynamicIsland: React.FC<DynamicIslandProps> = ({
   onDisconnect,
   onConnect,
   onAddUser,
-  onConfigureAI
+  onConfigureAI,
+  isRecording = false,
+  onToggleRecording,
+  onOpenRecording,
+  isTranscriptOpen = false,
+  onToggleTranscript,
+  onOpenAudioSettings,
+  proposals = [],
+  onResolveProposal,
+  frameStats,
+  personas = [],
+  activePersonaId,
+  onSelectPersona,
+  boardSyncState = null
 }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
 
   const isConnected = connectionState === ConnectionState.CONNECTED;
-  const isConnecting = connectionState === ConnectionState.CONNECTING;
+  const isReconnecting = connectionState === ConnectionState.RECONNECTING;
+  const isConnecting = connectionState === ConnectionState.CONNECTING || isReconnecting;
   
   const stateConfig = getStateConfig(connectionState);
+  const syncConfig = boardSyncState ? getSyncConfig(boardSyncState) : null;
 
   // Auto-collapse after delay if mouse leaves
   useEffect(() => {
@@ -130,15 +176,28 @@ const DynamicIsland: React.FC<DynamicIslandProps> = ({
               
               <div className="flex items-center gap-2">
                  {/* Status Dot */}
-                 <div className={`w-2 h-2 rounded-full ${stateConfig.color} ${isConnecting ? 'animate-pulse' : ''}`} />
+                 <div className={`w-2 h-2 rounded-full ${isRecording ? 'bg-red-500 animate-pulse' : stateConfig.color} ${isConnecting ? 'animate-pulse' : ''}`} />
                  <span className={`text-sm font-medium tracking-tight truncate ${isDarkMode ? 'text-gray-200' : 'text-gray-800'}`}>
                     {stateConfig.text}
                  </span>
               </div>
             </div>
             
-            <div className="pr-2 shrink-0">
-               {isConnected ? (
+            <div className="pr-2 shrink-0 flex items-center gap-1">
+               {syncConfig && boardSyncState !== ConnectionState.CONNECTED && (
+                   <span title={syncConfig.text}><Link size={14} className={syncConfig.className} /></span>
+               )}
+               {proposals.length > 0 && (
+                   <div className="h-6 min-w-6 px-1.5 rounded-full bg-violet-600 flex items-center justify-center gap-1 text-xs font-bold text-white" title="Suggestions awaiting approval">
+                       <Sparkles size={12} />
+                       {proposals.length}
+                   </div>
+               )}
+               {isReconnecting ? (
+                   <div className="w-6 h-6 rounded-full bg-orange-500/20 flex items-center justify-center">
+                       <RefreshCw size={14} className="text-orange-400 animate-spin" />
+                   </div>
+               ) : isConnected ? (
                    <div className="w-6 h-6 rounded-full bg-green-500/20 flex items-center justify-center">
                        <Activity size={14} className="text-green-400 animate-pulse" />
                    </div>
@@ -162,6 +221,9 @@ const DynamicIsland: React.FC<DynamicIslandProps> = ({
                     <div className="flex items-center gap-2">
                         <div className={`w-2 h-2 rounded-full ${stateConfig.color} ${isConnecting ? 'animate-pulse' : ''}`} />
                         <p className="text-xs text-gray-400">{stateConfig.text} • {peers.length} Members</p>
+                        {syncConfig && (
+                            <span className={`flex items-center gap-1 text-xs ${syncConfig.className}`}><Link size={10} /> {syncConfig.text}</span>
+                        )}
                     </div>
                  </div>
               </div>
@@ -238,9 +300,119 @@ const DynamicIsland: React.FC<DynamicIslandProps> = ({
               </div>
             )}
 
+            {/* Visual stream stats */}
+            {isConnected && frameStats && (
+              <p className="text-[11px] text-center text-gray-500 tabular-nums">
+                Frames {frameStats.sent} sent • {frameStats.skipped} skipped • {(frameStats.bytesPerSecond / 1024).toFixed(1)} KB/s • {Math.round(frameStats.resolution * 100)}% @ q{Math.round(frameStats.quality * 100)}
+              </p>
+            )}
+
+            {/* Pending AI suggestions */}
+            {proposals.length > 0 && (
+              <div className="flex flex-col gap-2">
+                <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Suggestions</span>
+                {proposals.map(proposal => (
+                  <div key={proposal.id} className={`flex items-center justify-between gap-2 py-2 pl-4 pr-2 rounded-full border ${isDarkMode ? 'border-gray-800 bg-gray-900/50' : 'border-gray-200 bg-gray-50'}`}>
+                    <span className="text-sm truncate capitalize">{describeProposal(proposal)}</span>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <button
+                        onClick={() => onResolveProposal?.(proposal.id, true)}
+                        className="p-1.5 rounded-full bg-green-600 hover:bg-green-500 text-white"
+                        title="Accept"
+                      >
+                        <Check size={14} />
+                      </button>
+                      <button
+                        onClick={() => onResolveProposal?.(proposal.id, false)}
+                        className={`p-1.5 rounded-full ${isDarkMode ? 'bg-gray-800 hover:bg-gray-700' : 'bg-gray-200 hover:bg-gray-300'}`}
+                        title="Reject"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Session Tools */}
+            {(onToggleRecording || onOpenRecording || onToggleTranscript || onOpenAudioSettings) && (
+              <div className="flex items-center justify-center gap-2 flex-wrap">
+                {onToggleRecording && (
+                  <button
+                    onClick={onToggleRecording}
+                    className={`flex items-center gap-2 py-2 px-4 rounded-full text-xs font-semibold border ${
+                        isRecording
+                        ? 'bg-red-500 text-white border-red-500 hover:bg-red-400'
+                        : (isDarkMode ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-200 hover:bg-gray-100')
+                    }`}
+                  >
+                    {isRecording ? <Square size={12} /> : <Circle size={12} className="text-red-500 fill-red-500" />}
+                    {isRecording ? 'Stop Recording' : 'Record Session'}
+                  </button>
+                )}
+                {onOpenRecording && !isRecording && (
+                  <button
+                    onClick={onOpenRecording}
+                    className={`flex items-center gap-2 py-2 px-4 rounded-full text-xs font-semibold border ${isDarkMode ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-200 hover:bg-gray-100'}`}
+                  >
+                    <History size={12} />
+                    Replay
+                  </button>
+                )}
+                {onToggleTranscript && (
+                  <button
+                    onClick={onToggleTranscript}
+                    className={`flex items-center gap-2 py-2 px-4 rounded-full text-xs font-semibold border ${
+                        isTranscriptOpen
+                        ? 'bg-violet-600 text-white border-violet-600'
+                        : (isDarkMode ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-200 hover:bg-gray-100')
+                    }`}
+                  >
+                    <ScrollText size={12} />
+                    Transcript
+                  </button>
+                )}
+                {onOpenAudioSettings && (
+                  <button
+                    onClick={onOpenAudioSettings}
+                    className={`flex items-center gap-2 py-2 px-4 rounded-full text-xs font-semibold border ${isDarkMode ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-200 hover:bg-gray-100'}`}
+                    title="Audio settings"
+                  >
+                    <SlidersHorizontal size={12} />
+                    Audio
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Co-host persona, fixed once the session starts */}
+            {!isConnected && !isConnecting && onSelectPersona && personas.length > 1 && (
+              <div className="flex flex-col gap-2">
+                <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Co-host</span>
+                <div className="flex items-center gap-2 flex-wrap">
+                  {personas.map(persona => (
+                    <button
+                      key={persona.id}
+                      onClick={() => onSelectPersona(persona.id)}
+                      className={`flex items-center gap-2 py-1 pl-1 pr-3 rounded-full text-xs font-semibold border ${
+                          persona.id === activePersonaId
+                          ? 'bg-indigo-600 text-white border-indigo-600'
+                          : (isDarkMode ? 'border-gray-700 hover:bg-gray-800' : 'border-gray-200 hover:bg-gray-100')
+                      }`}
+                    >
+                      <img src={persona.avatar} alt="" className={`w-6 h-6 rounded-full object-cover ${isDarkMode ? 'bg-gray-800' : 'bg-gray-200'}`} />
+                      {persona.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Controls */}
             <div className="flex items-center justify-center gap-4 mt-2">
-              {!isConnected ? (
+              {/* While reconnecting the session is still ours, so keep mute and hang-up available */}
+              {!isConnected && !isReconnecting ? (
                   <button 
                     onClick={onConnect}
                     disabled={isConnecting}
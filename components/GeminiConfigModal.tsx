@@ -1,12 +1,12 @@
 
-import React from 'react';
-import { X, Bot, Sparkles, PenTool } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Bot, Sparkles, PenTool, Grid, Plus, Copy, Trash2, Upload, Download, Check, Wrench, ImagePlus } from 'lucide-react';
+import { FunctionDeclaration } from '@google/genai';
+import { DEFAULT_PERSONAS, Persona, PersonaLibrary, PERSONA_FILE_EXTENSION, createPersona, downloadPersonas, mergePersonas, readPersonaFile } from '../services/personas';
 
 export interface GeminiConfig {
-  name: string;
-  voiceName: string;
-  systemInstruction: string;
   isEnabled: boolean;
+  showFrameGrid: boolean; // Draw labelled pixel coordinates on the frames the AI sees
 }
 
 interface GeminiConfigModalProps {
@@ -14,6 +14,9 @@ interface GeminiConfigModalProps {
   onClose: () => void;
   config: GeminiConfig;
   onConfigChange: (config: GeminiConfig) => void;
+  library: PersonaLibrary;
+  onLibraryChange: (library: PersonaLibrary) => void;
+  tools: FunctionDeclaration[]; // Everything a persona can be allowed to call
 }
 
 const VOICES = [
@@ -24,21 +27,91 @@ const VOICES = [
   { id: 'Aoede', label: 'Soft & Friendly', color: 'from-emerald-500 to-emerald-600' }
 ];
 
+const MAX_AVATAR_BYTES = 200 * 1024; // Avatars are stored in localStorage with the personas
+
 const GeminiConfigModal: React.FC<GeminiConfigModalProps> = ({
   isOpen,
   onClose,
   config,
-  onConfigChange
+  onConfigChange,
+  library,
+  onLibraryChange,
+  tools
 }) => {
+  const [editingId, setEditingId] = useState(library.activePersonaId);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+
+  // Start on the persona the next session will use
+  useEffect(() => {
+    if (isOpen) setEditingId(library.activePersonaId);
+  }, [isOpen]);
+
   if (!isOpen) return null;
 
+  const persona = library.personas.find(p => p.id === editingId) ?? library.personas[0];
+  const builtIn = DEFAULT_PERSONAS.find(p => p.id === persona.id);
+
   const handleChange = (key: keyof GeminiConfig, value: any) => {
     onConfigChange({ ...config, [key]: value });
   };
 
+  const handlePersonaChange = <K extends keyof Persona>(key: K, value: Persona[K]) => {
+    onLibraryChange({ ...library, personas: library.personas.map(p => p.id === persona.id ? { ...p, [key]: value } : p) });
+  };
+
+  const handleAddPersona = (base?: Partial<Persona>) => {
+    const created = createPersona(base);
+    onLibraryChange({ ...library, personas: [...library.personas, created] });
+    setEditingId(created.id);
+  };
+
+  const handleDeletePersona = () => {
+    if (library.personas.length <= 1) return;
+    if (!confirm(`Delete the "${persona.name}" persona?`)) return;
+    const personas = library.personas.filter(p => p.id !== persona.id);
+    const activePersonaId = library.activePersonaId === persona.id ? personas[0].id : library.activePersonaId;
+    onLibraryChange({ personas, activePersonaId });
+    setEditingId(activePersonaId);
+  };
+
+  const handleToggleTool = (name: string) => {
+    const allNames = tools.map(t => t.name!).filter(Boolean);
+    const current = persona.allowedTools ?? allNames;
+    const next = current.includes(name) ? current.filter(t => t !== name) : [...current, name];
+    handlePersonaChange('allowedTools', next.length === allNames.length ? null : next);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = await readPersonaFile(file);
+      onLibraryChange({ ...library, personas: mergePersonas(library.personas, imported) });
+      setEditingId(imported[0].id);
+    } catch (err) {
+      console.error('Failed to import personas', err);
+      alert(`Could not import personas: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleAvatarUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_AVATAR_BYTES) {
+      alert('That image is too large for an avatar. Please pick one under 200 KB, or paste an image URL instead.');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => handlePersonaChange('avatar', reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
-      <div 
+      <div
         className="bg-[#0f111a] w-full max-w-2xl rounded-2xl shadow-2xl border border-gray-800 overflow-hidden flex flex-col max-h-[90vh]"
         onClick={(e) => e.stopPropagation()}
       >
@@ -56,9 +129,9 @@ const GeminiConfigModal: React.FC<GeminiConfigModalProps> = ({
               </div>
             </div>
           </div>
-          
+
           <div className="flex items-center gap-4">
-            <button 
+            <button
                 onClick={() => handleChange('isEnabled', !config.isEnabled)}
                 className={`w-12 h-7 rounded-full transition-colors relative ${config.isEnabled ? 'bg-indigo-500' : 'bg-gray-700'}`}
             >
@@ -72,22 +145,107 @@ const GeminiConfigModal: React.FC<GeminiConfigModalProps> = ({
 
         {/* Content */}
         <div className="p-6 overflow-y-auto custom-scrollbar flex flex-col gap-6">
-            
-            {/* AI Name */}
+
+            {/* Persona Library */}
+            <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between">
+                    <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">Personas</label>
+                    <div className="flex items-center gap-1">
+                        <button onClick={() => importInputRef.current?.click()} className="p-1.5 text-gray-400 hover:text-white rounded-md hover:bg-gray-800" title="Import personas">
+                            <Upload size={14} />
+                        </button>
+                        <button onClick={() => downloadPersonas(library.personas)} className="p-1.5 text-gray-400 hover:text-white rounded-md hover:bg-gray-800" title="Export all personas">
+                            <Download size={14} />
+                        </button>
+                    </div>
+                </div>
+                <div className="flex gap-3 overflow-x-auto custom-scrollbar pb-1">
+                    {library.personas.map(p => (
+                        <button
+                            key={p.id}
+                            onClick={() => setEditingId(p.id)}
+                            className={`relative flex flex-col items-center gap-1.5 p-2 w-20 shrink-0 rounded-xl border transition-all ${
+                                p.id === persona.id
+                                ? 'bg-[#1e2330] border-indigo-500 ring-1 ring-indigo-500/50'
+                                : 'bg-[#1e2330]/50 border-gray-800 hover:border-gray-600'
+                            }`}
+                        >
+                            <img src={p.avatar} alt={p.name} className="w-10 h-10 rounded-full object-cover bg-gray-800" />
+                            <span className="text-[11px] text-gray-300 w-full truncate text-center">{p.name || 'Untitled'}</span>
+                            {p.id === library.activePersonaId && (
+                                <div className="absolute top-1.5 right-1.5 w-2 h-2 bg-green-500 rounded-full" title="Used for the next session"></div>
+                            )}
+                        </button>
+                    ))}
+                    <button
+                        onClick={() => handleAddPersona()}
+                        className="flex flex-col items-center justify-center gap-1.5 p-2 w-20 shrink-0 rounded-xl border border-dashed border-gray-700 text-gray-500 hover:text-gray-300 hover:border-gray-500"
+                    >
+                        <Plus size={18} />
+                        <span className="text-[11px]">New</span>
+                    </button>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => onLibraryChange({ ...library, activePersonaId: persona.id })}
+                        disabled={persona.id === library.activePersonaId}
+                        className="flex items-center gap-1.5 text-xs font-semibold py-1.5 px-3 rounded-md bg-indigo-600 hover:bg-indigo-500 text-white disabled:bg-green-600/20 disabled:text-green-400"
+                    >
+                        <Check size={12} />
+                        {persona.id === library.activePersonaId ? 'In use' : 'Use this persona'}
+                    </button>
+                    <button onClick={() => handleAddPersona({ ...persona, name: `${persona.name} copy` })} className="flex items-center gap-1.5 text-xs py-1.5 px-3 rounded-md border border-gray-700 text-gray-300 hover:bg-gray-800">
+                        <Copy size={12} /> Duplicate
+                    </button>
+                    <button onClick={() => downloadPersonas([persona], persona.name)} className="flex items-center gap-1.5 text-xs py-1.5 px-3 rounded-md border border-gray-700 text-gray-300 hover:bg-gray-800">
+                        <Download size={12} /> Export
+                    </button>
+                    <button
+                        onClick={handleDeletePersona}
+                        disabled={library.personas.length <= 1}
+                        className="flex items-center gap-1.5 text-xs py-1.5 px-3 rounded-md border border-gray-700 text-red-400 hover:bg-red-500/10 disabled:opacity-40 ml-auto"
+                    >
+                        <Trash2 size={12} /> Delete
+                    </button>
+                </div>
+                <input type="file" ref={importInputRef} className="hidden" accept={`${PERSONA_FILE_EXTENSION},application/json`} onChange={handleImport} />
+            </div>
+
+            {/* AI Name & Avatar */}
             <div className="flex flex-col gap-2">
                 <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">AI Name</label>
-                <div className="relative">
-                    <div className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">
-                        <Bot size={18} />
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => avatarInputRef.current?.click()}
+                        className="relative w-12 h-12 rounded-full shrink-0 group"
+                        title="Upload avatar"
+                    >
+                        <img src={persona.avatar} alt={persona.name} className="w-full h-full rounded-full object-cover bg-gray-800" />
+                        <div className="absolute inset-0 rounded-full bg-black/50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                            <ImagePlus size={16} className="text-white" />
+                        </div>
+                    </button>
+                    <div className="relative flex-1">
+                        <div className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400">
+                            <Bot size={18} />
+                        </div>
+                        <input
+                            type="text"
+                            value={persona.name}
+                            onChange={(e) => handlePersonaChange('name', e.target.value)}
+                            className="w-full bg-[#1e2330] border border-gray-700 rounded-xl py-3 pl-10 pr-4 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
+                            placeholder="e.g. Trading Copilot"
+                        />
                     </div>
-                    <input 
-                        type="text" 
-                        value={config.name}
-                        onChange={(e) => handleChange('name', e.target.value)}
-                        className="w-full bg-[#1e2330] border border-gray-700 rounded-xl py-3 pl-10 pr-4 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
-                        placeholder="e.g. Trading Copilot"
-                    />
                 </div>
+                <input
+                    type="text"
+                    value={persona.avatar.startsWith('data:') ? '' : persona.avatar}
+                    onChange={(e) => handlePersonaChange('avatar', e.target.value)}
+                    className="w-full bg-[#1e2330] border border-gray-700 rounded-xl py-2 px-4 text-sm text-gray-300 placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all"
+                    placeholder={persona.avatar.startsWith('data:') ? 'Uploaded image (paste a URL to replace it)' : 'Avatar image URL'}
+                />
+                <input type="file" ref={avatarInputRef} className="hidden" accept="image/*" onChange={handleAvatarUpload} />
             </div>
 
             {/* Voice Selection */}
@@ -97,10 +255,10 @@ const GeminiConfigModal: React.FC<GeminiConfigModalProps> = ({
                     {VOICES.map((voice) => (
                         <button
                             key={voice.id}
-                            onClick={() => handleChange('voiceName', voice.id)}
+                            onClick={() => handlePersonaChange('voiceName', voice.id)}
                             className={`group relative flex items-center gap-3 p-3 rounded-xl border transition-all text-left ${
-                                config.voiceName === voice.id 
-                                ? 'bg-[#1e2330] border-indigo-500 ring-1 ring-indigo-500/50' 
+                                persona.voiceName === voice.id
+                                ? 'bg-[#1e2330] border-indigo-500 ring-1 ring-indigo-500/50'
                                 : 'bg-[#1e2330]/50 border-gray-800 hover:border-gray-600 hover:bg-[#1e2330]'
                             }`}
                         >
@@ -113,13 +271,13 @@ const GeminiConfigModal: React.FC<GeminiConfigModalProps> = ({
                                 </div>
                             </div>
                             <div className="flex flex-col">
-                                <span className={`text-sm font-semibold ${config.voiceName === voice.id ? 'text-white' : 'text-gray-300 group-hover:text-white'}`}>
+                                <span className={`text-sm font-semibold ${persona.voiceName === voice.id ? 'text-white' : 'text-gray-300 group-hover:text-white'}`}>
                                     {voice.id}
                                 </span>
                                 <span className="text-xs text-gray-500">{voice.label}</span>
                             </div>
-                            
-                            {config.voiceName === voice.id && (
+
+                            {persona.voiceName === voice.id && (
                                 <div className="absolute top-2 right-2 w-2 h-2 bg-indigo-500 rounded-full shadow-[0_0_8px_rgba(99,102,241,0.6)]"></div>
                             )}
                         </button>
@@ -127,6 +285,59 @@ const GeminiConfigModal: React.FC<GeminiConfigModalProps> = ({
                 </div>
             </div>
 
+            {/* Allowed Tools */}
+            <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between">
+                    <label className="text-xs font-bold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+                        Board Tools
+                        <Wrench size={12} className="text-gray-600" />
+                    </label>
+                    <button
+                        onClick={() => handlePersonaChange('allowedTools', persona.allowedTools === null ? [] : null)}
+                        className="text-xs text-indigo-400 hover:text-indigo-300"
+                    >
+                        {persona.allowedTools === null ? 'Allow none' : 'Allow all'}
+                    </button>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                    {tools.map(tool => {
+                        const allowed = persona.allowedTools === null || persona.allowedTools.includes(tool.name!);
+                        return (
+                            <button
+                                key={tool.name}
+                                onClick={() => handleToggleTool(tool.name!)}
+                                title={tool.description}
+                                className={`flex items-center gap-2 py-2 px-3 rounded-lg border text-xs font-mono text-left transition-all ${
+                                    allowed ? 'bg-[#1e2330] border-indigo-500/60 text-gray-200' : 'bg-[#1e2330]/50 border-gray-800 text-gray-500'
+                                }`}
+                            >
+                                <div className={`w-3.5 h-3.5 rounded shrink-0 flex items-center justify-center ${allowed ? 'bg-indigo-500' : 'border border-gray-600'}`}>
+                                    {allowed && <Check size={10} className="text-white" />}
+                                </div>
+                                <span className="truncate">{tool.name}</span>
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            {/* Visual Frames */}
+            <div className="flex items-center justify-between gap-4 p-3 rounded-xl bg-[#1e2330]/50 border border-gray-800">
+                <div className="flex items-center gap-3">
+                    <Grid size={18} className="text-gray-400 shrink-0" />
+                    <div className="flex flex-col">
+                        <span className="text-sm font-semibold text-gray-300">Coordinate Grid</span>
+                        <span className="text-xs text-gray-500">Overlay pixel coordinates on the frames the AI sees so its drawings land more precisely</span>
+                    </div>
+                </div>
+                <button
+                    onClick={() => handleChange('showFrameGrid', !config.showFrameGrid)}
+                    className={`w-12 h-7 rounded-full transition-colors relative shrink-0 ${config.showFrameGrid ? 'bg-indigo-500' : 'bg-gray-700'}`}
+                >
+                    <div className={`absolute top-1 w-5 h-5 rounded-full bg-white transition-transform shadow-sm ${config.showFrameGrid ? 'left-6' : 'left-1'}`} />
+                </button>
+            </div>
+
             {/* System Instructions */}
             <div className="flex flex-col gap-2 flex-1 min-h-[150px]">
                 <div className="flex items-center justify-between">
@@ -134,18 +345,20 @@ const GeminiConfigModal: React.FC<GeminiConfigModalProps> = ({
                         System Instructions
                         <PenTool size={12} className="text-gray-600" />
                     </label>
-                    <button 
-                        onClick={() => handleChange('systemInstruction', 'You are a smart AI Co-Host for a JournalFX Mentor Session. You are an expert financial analyst.')}
-                        className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1 border border-indigo-500/30 px-2 py-1 rounded-md hover:bg-indigo-500/10 transition-colors"
-                    >
-                        <Sparkles size={10} />
-                        Default Persona
-                    </button>
+                    {builtIn && persona.systemInstruction !== builtIn.systemInstruction && (
+                        <button
+                            onClick={() => handlePersonaChange('systemInstruction', builtIn.systemInstruction)}
+                            className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1 border border-indigo-500/30 px-2 py-1 rounded-md hover:bg-indigo-500/10 transition-colors"
+                        >
+                            <Sparkles size={10} />
+                            Restore Default
+                        </button>
+                    )}
                 </div>
-                <textarea 
-                    value={config.systemInstruction}
-                    onChange={(e) => handleChange('systemInstruction', e.target.value)}
-                    className="flex-1 w-full bg-[#1e2330] border border-gray-700 rounded-xl p-4 text-gray-300 placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all resize-none font-mono text-sm leading-relaxed"
+                <textarea
+                    value={persona.systemInstruction}
+                    onChange={(e) => handlePersonaChange('systemInstruction', e.target.value)}
+                    className="flex-1 min-h-[150px] w-full bg-[#1e2330] border border-gray-700 rounded-xl p-4 text-gray-300 placeholder-gray-600 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all resize-none font-mono text-sm leading-relaxed"
                     placeholder="Describe how the AI should behave..."
                 />
             </div>
@@ -0,0 +1,63 @@
+
+import React, { useEffect, useRef } from 'react';
+import { X, User, Sparkles, Users, CircleDot } from 'lucide-react';
+import { BoardHistory, HistoryOrigin } from '../services/boardHistory';
+
+interface HistoryPanelProps {
+  history: BoardHistory;
+  isDarkMode: boolean;
+  onJump: (index: number) => void; // Number of entries to leave applied
+  onClose: () => void;
+}
+
+const ORIGINS: Record<HistoryOrigin, { label: string; icon: typeof User; className: string }> = {
+  user: { label: 'You', icon: User, className: 'text-emerald-600' },
+  ai: { label: 'AI', icon: Sparkles, className: 'text-indigo-500' },
+  remote: { label: 'Collaborator', icon: Users, className: 'text-amber-500' }
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, isDarkMode, onJump, onClose }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest step in view as edits come in
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [history.entries.length]);
+
+  const rowClass = (isCurrent: boolean, isUndone: boolean) => `flex items-center gap-2 w-full px-3 py-1.5 rounded-lg text-left text-sm ${
+    isCurrent
+      ? (isDarkMode ? 'bg-violet-900/40 text-violet-200' : 'bg-violet-100 text-violet-800')
+      : (isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100')
+  } ${isUndone ? 'opacity-40' : ''}`;
+
+  return (
+    <div className={`fixed top-40 right-4 bottom-56 w-72 z-40 flex flex-col rounded-xl shadow-xl overflow-hidden ${isDarkMode ? 'bg-[#1e1e1e] text-gray-200 border border-gray-800' : 'bg-white text-gray-800 border border-gray-200'}`}>
+      <div className={`flex items-center gap-1 px-3 py-2 border-b ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}>
+        <span className="font-semibold text-sm flex-1">History</span>
+        <span className="text-xs text-gray-400 tabular-nums mr-1">{history.index}/{history.entries.length}</span>
+        <button onClick={onClose} className={`p-1.5 rounded-lg ${isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'}`} title="Close"><X size={16} /></button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-2 flex flex-col gap-0.5">
+        <button onClick={() => onJump(0)} className={rowClass(history.index === 0, false)}>
+          <CircleDot size={14} className="text-gray-400 shrink-0" />
+          <span className="flex-1 truncate">Start</span>
+        </button>
+        {history.entries.map((entry, i) => {
+          const origin = ORIGINS[entry.origin];
+          const Icon = origin.icon;
+          return (
+            <button key={entry.id} onClick={() => onJump(i + 1)} className={rowClass(history.index === i + 1, i + 1 > history.index)} title={`${origin.label} • ${new Date(entry.timestamp).toLocaleString()}`}>
+              <Icon size={14} className={`${origin.className} shrink-0`} />
+              <span className="flex-1 truncate capitalize">{entry.label}</span>
+              <span className="text-[11px] text-gray-400 tabular-nums shrink-0">{new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,150 @@
+
+import React, { useState } from 'react';
+import { X, Eye, EyeOff, Lock, Unlock, Plus, Pencil, Trash2, FolderInput, ArrowUp, ArrowDown, ChevronsUp, ChevronsDown, Group } from 'lucide-react';
+import { BoardLayer, DrawingElement } from '../types';
+import { DEFAULT_LAYER_ID, ZOrderMove, createLayerId, layerIdOf } from '../services/boardLayers';
+import { elementsLabel } from '../services/boardHistory';
+
+interface LayersPanelProps {
+  elements: DrawingElement[];
+  layers: BoardLayer[];
+  selectedIds: string[];
+  isDarkMode: boolean;
+  onSelect: (id: string, additive: boolean) => void;
+  onToggleElement: (id: string, key: 'hidden' | 'locked') => void;
+  onReorder: (move: ZOrderMove) => void; // Acts on the selection
+  onMoveToLayer: (layerId: string) => void; // Acts on the selection
+  onLayersChange: (layers: BoardLayer[]) => void;
+  onDeleteLayer: (layerId: string) => void; // Its elements move to the default layer
+  onClose: () => void;
+}
+
+const elementName = (el: DrawingElement) => el.type === 'text' && el.text ? `"${el.text.split('\n')[0].slice(0, 24)}"` : elementsLabel([el]);
+
+const NEW_LAYER = '__new__';
+
+const LayersPanel: React.FC<LayersPanelProps> = ({ elements, layers, selectedIds, isDarkMode, onSelect, onToggleElement, onReorder, onMoveToLayer, onLayersChange, onDeleteLayer, onClose }) => {
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null); // Layer being named; NEW_LAYER for one being added
+  const topFirst = [...elements].reverse();
+  const hasSelection = selectedIds.length > 0;
+  const buttonClass = `p-1.5 rounded-lg disabled:opacity-40 ${isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'}`;
+  const iconButtonClass = `p-1 rounded shrink-0 ${isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-200'}`;
+
+  const updateLayer = (id: string, changes: Partial<BoardLayer>) => {
+    onLayersChange(layers.map(l => l.id === id ? { ...l, ...changes } : l));
+  };
+
+  // Empty names are ignored, so clearing the field and leaving it cancels
+  const commitEditing = () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    if (name && editing.id === NEW_LAYER) onLayersChange([...layers, { id: createLayerId(), name, hidden: false, locked: false }]);
+    else if (name) updateLayer(editing.id, { name });
+    setEditing(null);
+  };
+
+  const renderNameInput = () => (
+    <input
+      autoFocus
+      value={editing?.name ?? ''}
+      onChange={(e) => setEditing(prev => prev && { ...prev, name: e.target.value })}
+      onBlur={commitEditing}
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Enter') commitEditing();
+        if (e.key === 'Escape') setEditing(null);
+      }}
+      placeholder="Layer name"
+      className={`flex-1 min-w-0 px-1 py-0.5 rounded text-xs font-semibold outline-none border ${isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-300'} focus:border-violet-400`}
+    />
+  );
+
+  return (
+    <div className={`fixed top-40 right-4 bottom-56 w-72 z-40 flex flex-col rounded-xl shadow-xl overflow-hidden ${isDarkMode ? 'bg-[#1e1e1e] text-gray-200 border border-gray-800' : 'bg-white text-gray-800 border border-gray-200'}`}>
+      <div className={`flex items-center gap-1 px-3 py-2 border-b ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}>
+        <span className="font-semibold text-sm flex-1">Layers</span>
+        <button onClick={() => setEditing({ id: NEW_LAYER, name: '' })} className={buttonClass} title="New Layer"><Plus size={16} /></button>
+        <button onClick={onClose} className={buttonClass} title="Close"><X size={16} /></button>
+      </div>
+
+      {/* Stacking and layer moves for the selection */}
+      <div className={`flex items-center gap-0.5 px-2 py-1.5 border-b ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}>
+        <button onClick={() => onReorder('front')} disabled={!hasSelection} className={buttonClass} title="Bring to Front (Ctrl+Shift+])"><ChevronsUp size={16} /></button>
+        <button onClick={() => onReorder('forward')} disabled={!hasSelection} className={buttonClass} title="Bring Forward (Ctrl+])"><ArrowUp size={16} /></button>
+        <button onClick={() => onReorder('backward')} disabled={!hasSelection} className={buttonClass} title="Send Backward (Ctrl+[)"><ArrowDown size={16} /></button>
+        <button onClick={() => onReorder('back')} disabled={!hasSelection} className={buttonClass} title="Send to Back (Ctrl+Shift+[)"><ChevronsDown size={16} /></button>
+        <div className="flex-1" />
+        <FolderInput size={14} className="text-gray-400 shrink-0" />
+        <select
+          value=""
+          disabled={!hasSelection}
+          onChange={(e) => e.target.value && onMoveToLayer(e.target.value)}
+          className="bg-transparent text-xs outline-none disabled:opacity-40 max-w-[7rem]"
+          title="Move selection to layer"
+        >
+          <option value="">Move to…</option>
+          {layers.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+        </select>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 flex flex-col gap-2">
+        {layers.map(layer => {
+          const members = topFirst.filter(el => layerIdOf(el, layers) === layer.id);
+          return (
+            <div key={layer.id} className="flex flex-col gap-0.5">
+              <div className={`group flex items-center gap-1 px-2 py-1 rounded-lg ${isDarkMode ? 'bg-gray-900' : 'bg-gray-100'} ${layer.hidden ? 'opacity-50' : ''}`}>
+                {editing?.id === layer.id ? renderNameInput() : (
+                  <span onDoubleClick={() => setEditing({ id: layer.id, name: layer.name })} className="text-xs font-semibold uppercase tracking-wider flex-1 truncate">{layer.name}</span>
+                )}
+                <span className="text-[11px] text-gray-400 tabular-nums mr-1">{members.length}</span>
+                <button onClick={() => setEditing({ id: layer.id, name: layer.name })} className={`${iconButtonClass} opacity-0 group-hover:opacity-100`} title="Rename Layer"><Pencil size={12} /></button>
+                {layer.id !== DEFAULT_LAYER_ID && (
+                  <button onClick={() => onDeleteLayer(layer.id)} className={`${iconButtonClass} opacity-0 group-hover:opacity-100`} title="Delete Layer"><Trash2 size={12} /></button>
+                )}
+                <button onClick={() => updateLayer(layer.id, { locked: !layer.locked })} className={iconButtonClass} title={layer.locked ? 'Unlock Layer' : 'Lock Layer'}>
+                  {layer.locked ? <Lock size={14} className="text-amber-500" /> : <Unlock size={14} className="text-gray-400" />}
+                </button>
+                <button onClick={() => updateLayer(layer.id, { hidden: !layer.hidden })} className={iconButtonClass} title={layer.hidden ? 'Show Layer' : 'Hide Layer'}>
+                  {layer.hidden ? <EyeOff size={14} className="text-gray-400" /> : <Eye size={14} />}
+                </button>
+              </div>
+
+              {members.map(el => {
+                const isSelected = selectedIds.includes(el.id);
+                return (
+                  <div
+                    key={el.id}
+                    onClick={(e) => onSelect(el.id, e.shiftKey)}
+                    className={`flex items-center gap-2 pl-4 pr-2 py-1 rounded-lg text-sm cursor-pointer ${
+                      isSelected
+                        ? (isDarkMode ? 'bg-violet-900/40 text-violet-200' : 'bg-violet-100 text-violet-800')
+                        : (isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-50')
+                    } ${el.hidden || layer.hidden ? 'opacity-50' : ''}`}
+                  >
+                    <div className="w-3 h-3 rounded-sm border border-gray-400/50 shrink-0" style={{ backgroundColor: el.type === 'image' ? '#9ca3af' : el.strokeColor }} />
+                    <span className="flex-1 truncate capitalize">{elementName(el)}</span>
+                    {el.groupId && <Group size={12} className="text-gray-400 shrink-0" title="Grouped" />}
+                    <button onClick={(e) => { e.stopPropagation(); onToggleElement(el.id, 'locked'); }} className={iconButtonClass} title={el.locked ? 'Unlock' : 'Lock'}>
+                      {el.locked ? <Lock size={12} className="text-amber-500" /> : <Unlock size={12} className="text-gray-400" />}
+                    </button>
+                    <button onClick={(e) => { e.stopPropagation(); onToggleElement(el.id, 'hidden'); }} className={iconButtonClass} title={el.hidden ? 'Show' : 'Hide'}>
+                      {el.hidden ? <EyeOff size={12} className="text-gray-400" /> : <Eye size={12} />}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+
+        {editing?.id === NEW_LAYER && (
+          <div className={`flex items-center gap-1 px-2 py-1 rounded-lg ${isDarkMode ? 'bg-gray-900' : 'bg-gray-100'}`}>
+            {renderNameInput()}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LayersPanel;
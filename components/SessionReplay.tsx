@@ -0,0 +1,118 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Play, Pause, Download, X } from 'lucide-react';
+import { DrawingElement } from '../types';
+import { SessionRecording, captionAtTime, downloadRecording, elementsAtTime, indexRecording } from '../services/sessionRecorder';
+import { SessionPlayer } from '../services/sessionPlayer';
+
+interface SessionReplayProps {
+  recording: SessionRecording;
+  isDarkMode: boolean;
+  onElementsChange: (elements: DrawingElement[]) => void;
+  onClose: () => void;
+}
+
+const formatClock = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Playback bar that drives the canvas with the board as it was at the current moment of a recording
+const SessionReplay: React.FC<SessionReplayProps> = ({ recording, isDarkMode, onElementsChange, onClose }) => {
+  const index = useMemo(() => indexRecording(recording), [recording]);
+  const playerRef = useRef<SessionPlayer | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const lastMutationCount = useRef(-1);
+
+  useEffect(() => {
+    const player = new SessionPlayer(recording);
+    playerRef.current = player;
+    return () => {
+      player.dispose();
+      playerRef.current = null;
+    };
+  }, [recording]);
+
+  // Only rebuild the board when playback crosses a mutation
+  useEffect(() => {
+    let count = 0;
+    while (count < recording.mutations.length && recording.mutations[count].t <= currentTime) count++;
+    if (count === lastMutationCount.current) return;
+    lastMutationCount.current = count;
+    onElementsChange(elementsAtTime(recording, index, currentTime));
+  }, [currentTime, recording, index, onElementsChange]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      const player = playerRef.current;
+      if (!player) return;
+      setCurrentTime(player.currentTime);
+      if (player.currentTime >= player.duration) {
+        player.pause();
+        setIsPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  const handleTogglePlay = async () => {
+    const player = playerRef.current;
+    if (!player) return;
+    if (player.isPlaying) {
+      player.pause();
+      setIsPlaying(false);
+    } else {
+      await player.play();
+      setIsPlaying(true);
+    }
+  };
+
+  const handleSeek = (time: number) => {
+    playerRef.current?.seek(time);
+    setCurrentTime(time);
+  };
+
+  const caption = captionAtTime(recording, currentTime);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 transform -translate-x-1/2 z-50 w-[560px] max-w-[90vw] flex flex-col items-center gap-3">
+      {caption && (
+        <div className={`px-4 py-2 rounded-2xl text-sm text-center max-w-full ${isDarkMode ? 'bg-black/80 text-gray-200' : 'bg-white/90 text-gray-700 border border-gray-200'} shadow-lg`}>
+          {caption}
+        </div>
+      )}
+      <div className={`w-full flex items-center gap-3 px-4 py-3 rounded-full shadow-xl ${isDarkMode ? 'bg-black text-white' : 'bg-white text-gray-900 border border-gray-200'}`}>
+        <button onClick={handleTogglePlay} className="w-9 h-9 shrink-0 rounded-full bg-violet-600 hover:bg-violet-500 text-white flex items-center justify-center" title={isPlaying ? 'Pause' : 'Play'}>
+          {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+        </button>
+        <span className="text-xs tabular-nums text-gray-400 shrink-0">{formatClock(currentTime)}</span>
+        <input
+          type="range"
+          min={0}
+          max={Math.max(1, recording.duration)}
+          step={100}
+          value={currentTime}
+          onChange={(e) => handleSeek(Number(e.target.value))}
+          className="flex-1 accent-violet-600"
+        />
+        <span className="text-xs tabular-nums text-gray-400 shrink-0">{formatClock(recording.duration)}</span>
+        <button onClick={() => downloadRecording(recording)} className={`p-2 rounded-full ${isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'}`} title="Save Recording">
+          <Download size={16} />
+        </button>
+        <button onClick={onClose} className={`p-2 rounded-full ${isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'}`} title="Exit Replay">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionReplay;
@@ -0,0 +1,73 @@
+
+import React, { useEffect, useRef } from 'react';
+import { DrawingElement, Point } from '../types';
+import { TEXT_LINE_HEIGHT } from '../services/textLayout';
+
+interface TextEditorOverlayProps {
+  element: DrawingElement;
+  scale: number;
+  panOffset: Point;
+  onChange: (text: string) => void;
+  onCommit: () => void;
+}
+
+// In-canvas textarea placed over a text element's world position, styled to match how the canvas renders it
+const TextEditorOverlay: React.FC<TextEditorOverlayProps> = ({ element, scale, panOffset, onChange, onCommit }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+  }, []);
+
+  const fontSize = (element.fontSize || 24) * scale;
+  const align = element.textAlign || 'left';
+  // Room for the caret so the textarea never wraps before the canvas re-measures
+  const slack = fontSize;
+  const width = (element.width || 0) * scale + slack;
+  const height = Math.max((element.height || 0) * scale, fontSize * TEXT_LINE_HEIGHT);
+  const left = element.x * scale + panOffset.x - (align === 'center' ? slack / 2 : align === 'right' ? slack : 0);
+  const top = element.y * scale + panOffset.y;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    e.stopPropagation();
+    if (e.key === 'Escape' || (e.key === 'Enter' && (e.ctrlKey || e.metaKey))) {
+      e.preventDefault();
+      onCommit();
+    }
+  };
+
+  return (
+    <textarea
+      ref={textareaRef}
+      value={element.text || ''}
+      onChange={(e) => onChange(e.target.value)}
+      onBlur={onCommit}
+      onKeyDown={handleKeyDown}
+      onMouseDown={(e) => e.stopPropagation()}
+      wrap="soft"
+      spellCheck={false}
+      className="absolute z-20 p-0 m-0 border-0 outline-none resize-none overflow-hidden bg-transparent"
+      style={{
+        left,
+        top,
+        width,
+        height,
+        fontFamily: `'${element.fontFamily || 'Kalam'}'`,
+        fontSize,
+        fontWeight: element.fontWeight || 'normal',
+        fontStyle: element.fontStyle || 'normal',
+        lineHeight: TEXT_LINE_HEIGHT,
+        textAlign: align,
+        color: element.strokeColor,
+        opacity: (element.opacity ?? 100) / 100,
+        whiteSpace: 'pre-wrap',
+        caretColor: element.strokeColor
+      }}
+    />
+  );
+};
+
+export default TextEditorOverlay;
@@ -0,0 +1,100 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, FileText, Captions, Trash2, X } from 'lucide-react';
+import { TranscriptEntry, TranscriptSpeaker, formatOffset, searchTranscript, transcriptToMarkdown, transcriptToSrt } from '../services/transcript';
+import { downloadBlob } from '../services/boardExport';
+
+interface TranscriptPanelProps {
+  entries: TranscriptEntry[];
+  speakerNames: Record<TranscriptSpeaker, string>;
+  isDarkMode: boolean;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+// Wraps case-insensitive matches of the query in <mark>
+const highlight = (text: string, query: string) => {
+  const q = query.trim();
+  if (!q) return text;
+  const parts = text.split(new RegExp(`(${q.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})`, 'gi'));
+  return parts.map((part, i) => i % 2 === 1 ? <mark key={i} className="bg-yellow-200 text-gray-900 rounded-sm">{part}</mark> : part);
+};
+
+const TranscriptPanel: React.FC<TranscriptPanelProps> = ({ entries, speakerNames, isDarkMode, onClear, onClose }) => {
+  const [query, setQuery] = useState('');
+  const listRef = useRef<HTMLDivElement>(null);
+  const stickToBottom = useRef(true);
+  const visible = useMemo(() => searchTranscript(entries, query), [entries, query]);
+  const sessionStart = entries[0]?.startedAt ?? 0;
+
+  // Follow new speech unless the user has scrolled up to read
+  useEffect(() => {
+    const list = listRef.current;
+    if (list && stickToBottom.current && !query) list.scrollTop = list.scrollHeight;
+  }, [entries, query]);
+
+  const handleScroll = () => {
+    const list = listRef.current;
+    if (!list) return;
+    stickToBottom.current = list.scrollHeight - list.scrollTop - list.clientHeight < 24;
+  };
+
+  const fileStem = `transcript-${new Date(sessionStart || Date.now()).toISOString().slice(0, 19).replace(/[:T]/g, '-')}`;
+
+  const handleExportMarkdown = () => {
+    const markdown = transcriptToMarkdown(entries, speakerNames, 'Session Transcript');
+    downloadBlob(new Blob([markdown], { type: 'text/markdown' }), `${fileStem}.md`);
+  };
+
+  const handleExportSrt = () => {
+    downloadBlob(new Blob([transcriptToSrt(entries, speakerNames)], { type: 'application/x-subrip' }), `${fileStem}.srt`);
+  };
+
+  const handleClear = () => {
+    if (entries.length > 0 && window.confirm('Clear the transcript?')) onClear();
+  };
+
+  const buttonClass = `p-1.5 rounded-lg disabled:opacity-40 ${isDarkMode ? 'hover:bg-gray-800' : 'hover:bg-gray-100'}`;
+
+  return (
+    <div className={`fixed top-24 right-4 bottom-48 w-80 z-40 flex flex-col rounded-xl shadow-xl overflow-hidden ${isDarkMode ? 'bg-[#1e1e1e] text-gray-200 border border-gray-800' : 'bg-white text-gray-800 border border-gray-200'}`}>
+      <div className={`flex items-center gap-1 px-3 py-2 border-b ${isDarkMode ? 'border-gray-800' : 'border-gray-200'}`}>
+        <span className="font-semibold text-sm flex-1">Transcript</span>
+        <button onClick={handleExportMarkdown} disabled={entries.length === 0} className={buttonClass} title="Export Markdown"><FileText size={16} /></button>
+        <button onClick={handleExportSrt} disabled={entries.length === 0} className={buttonClass} title="Export SRT"><Captions size={16} /></button>
+        <button onClick={handleClear} disabled={entries.length === 0} className={buttonClass} title="Clear Transcript"><Trash2 size={16} /></button>
+        <button onClick={onClose} className={buttonClass} title="Close"><X size={16} /></button>
+      </div>
+
+      <div className={`flex items-center gap-2 mx-3 my-2 px-2 py-1.5 rounded-lg ${isDarkMode ? 'bg-gray-900' : 'bg-gray-100'}`}>
+        <Search size={14} className="text-gray-400 shrink-0" />
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search transcript"
+          className="flex-1 bg-transparent outline-none text-sm"
+        />
+        {query && <span className="text-xs text-gray-400 shrink-0">{visible.length}</span>}
+      </div>
+
+      <div ref={listRef} onScroll={handleScroll} className="flex-1 overflow-y-auto px-3 pb-3 flex flex-col gap-3">
+        {visible.length === 0 && (
+          <p className="text-sm text-gray-400 text-center mt-6">
+            {entries.length === 0 ? 'Speech from both sides of the session will appear here.' : 'No matches.'}
+          </p>
+        )}
+        {visible.map(entry => (
+          <div key={entry.id} className="flex flex-col gap-0.5">
+            <div className="flex items-center gap-2 text-xs">
+              <span className={`font-semibold ${entry.speaker === 'model' ? 'text-indigo-500' : 'text-emerald-600'}`}>{speakerNames[entry.speaker]}</span>
+              <span className="text-gray-400 tabular-nums">{formatOffset(entry.startedAt - sessionStart)}</span>
+            </div>
+            <p className={`text-sm leading-relaxed whitespace-pre-wrap ${entry.isFinal ? '' : 'opacity-70'}`}>{highlight(entry.text, query)}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -0,0 +1,86 @@
+// Minimal WebSocket relay for board sync. Run with `npm run relay` (PORT defaults to 8787).
+// Keeps the latest operation per element for each room so late joiners receive the current board.
+import { WebSocketServer } from 'ws';
+import { fileURLToPath } from 'url';
+
+const compareVersions = (a, b) => {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+};
+
+export function createRelayServer({ port = 8787 } = {}) {
+  const wss = new WebSocketServer({ port });
+  const rooms = new Map(); // roomId -> { clients: Map<socket, peer>, ops: Map<elementId, op> }
+
+  const getRoom = (roomId) => {
+    let room = rooms.get(roomId);
+    if (!room) {
+      room = { clients: new Map(), ops: new Map() };
+      rooms.set(roomId, room);
+    }
+    return room;
+  };
+
+  const broadcast = (room, message, except) => {
+    const data = JSON.stringify(message);
+    room.clients.forEach((_, client) => {
+      if (client !== except && client.readyState === client.OPEN) client.send(data);
+    });
+  };
+
+  const peersOf = (room) => Array.from(room.clients.values());
+
+  wss.on('connection', (socket) => {
+    let room = null;
+    let roomId = null;
+
+    socket.on('message', (raw) => {
+      let message;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch (e) {
+        return;
+      }
+
+      if (message.type === 'join' && !room) {
+        roomId = String(message.roomId);
+        room = getRoom(roomId);
+        room.clients.set(socket, message.peer);
+        socket.send(JSON.stringify({ type: 'welcome', ops: Array.from(room.ops.values()), peers: peersOf(room) }));
+        broadcast(room, { type: 'peers', peers: peersOf(room) }, socket);
+        return;
+      }
+      if (!room) return;
+
+      if (message.type === 'ops' && Array.isArray(message.ops)) {
+        message.ops.forEach(op => {
+          const current = room.ops.get(op.elementId);
+          if (!current || compareVersions(op.version, current.version) > 0) room.ops.set(op.elementId, op);
+        });
+        broadcast(room, message, socket);
+        return;
+      }
+
+      // Anything else (e.g. presence) is forwarded to the rest of the room as-is
+      broadcast(room, message, socket);
+    });
+
+    socket.on('close', () => {
+      if (!room) return;
+      room.clients.delete(socket);
+      if (room.clients.size === 0) {
+        rooms.delete(roomId);
+      } else {
+        broadcast(room, { type: 'peers', peers: peersOf(room) });
+      }
+    });
+  });
+
+  return wss;
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.PORT) || 8787;
+  createRelayServer({ port });
+  console.log(`Board sync relay listening on ws://localhost:${port}`);
+}
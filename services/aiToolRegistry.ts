@@ -0,0 +1,60 @@
+
+import { FunctionDeclaration } from '@google/genai';
+import { BoardLayer, DrawingElement, Point } from '../types';
+
+// What a tool may do to the board; supplied by the app when a call comes in
+export interface AiToolContext {
+  priceToY: (price: number) => number | null; // null until a chart is calibrated
+  timeToX: (time: number) => number | null;
+  yToPrice: (y: number) => number | null;
+  xToTime: (x: number) => number | null;
+  // The model's x/y are pixels of the last frame it saw; these map them to and from board coordinates
+  frameToWorld: (point: Point) => Point;
+  worldToFrame: (point: Point) => Point;
+  frameWidth: number; // Pixels; frames may be downscaled from the canvas
+  getElements: () => DrawingElement[];
+  getSelectedIds: () => string[];
+  getLayers: () => BoardLayer[]; // Elements are also hidden or locked through their layer
+  // Mutations are proposals: each resolves with whether the user accepted it, and applies as one undo step
+  addElements: (elements: DrawingElement[]) => Promise<boolean>;
+  updateElements: (elements: DrawingElement[]) => Promise<boolean>; // Replaces elements with the same id
+  deleteElements: (ids: string[]) => Promise<boolean>;
+  selectElements: (ids: string[]) => void;
+}
+
+export interface AiToolDefinition<TArgs = Record<string, any>> {
+  declaration: FunctionDeclaration;
+  // The return value is sent back to the model as the function response
+  execute: (args: TArgs, context: AiToolContext) => unknown | Promise<unknown>;
+}
+
+export class AiToolRegistry {
+  private tools: Map<string, AiToolDefinition<any>> = new Map();
+
+  register<TArgs>(tool: AiToolDefinition<TArgs>) {
+    const name = tool.declaration.name;
+    if (!name) throw new Error('Tool declaration has no name');
+    if (this.tools.has(name)) throw new Error(`Tool already registered: ${name}`);
+    this.tools.set(name, tool);
+    return this;
+  }
+
+  get declarations(): FunctionDeclaration[] {
+    return Array.from(this.tools.values()).map(t => t.declaration);
+  }
+
+  // null means every registered tool
+  declarationsFor(names: string[] | null): FunctionDeclaration[] {
+    return names === null ? this.declarations : this.declarations.filter(d => d.name && names.includes(d.name));
+  }
+
+  has(name: string) {
+    return this.tools.has(name);
+  }
+
+  async execute(name: string, args: Record<string, any> | undefined, context: AiToolContext): Promise<unknown> {
+    const tool = this.tools.get(name);
+    if (!tool) throw new Error(`Unknown tool: ${name}`);
+    return tool.execute(args ?? {}, context);
+  }
+}
@@ -0,0 +1,20 @@
+
+import { AiToolRegistry } from './aiToolRegistry';
+import { addText, drawArrow, drawFibonacci, drawLevel, drawPosition, drawTrendline, drawZone } from './drawingTools';
+import { deleteElement, listElements, selectElements, updateElement } from './boardTools';
+
+// Every tool the co-host can call; adding a tool is one more register() line
+export function createAiToolRegistry(): AiToolRegistry {
+  return new AiToolRegistry()
+    .register(drawLevel)
+    .register(drawZone)
+    .register(drawTrendline)
+    .register(addText)
+    .register(drawArrow)
+    .register(drawPosition)
+    .register(drawFibonacci)
+    .register(listElements)
+    .register(updateElement)
+    .register(deleteElement)
+    .register(selectElements);
+}
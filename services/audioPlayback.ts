@@ -0,0 +1,79 @@
+
+import { decodeAudioData } from './audioUtils';
+
+// Plays model audio chunks back to back and cuts them off when the user interrupts
+export class AudioOutputQueue {
+  private context: AudioContext;
+  private nextStartTime = 0;
+  private sources: Set<AudioBufferSourceNode> = new Set();
+
+  constructor(sampleRate: number = 24000) {
+    this.context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate });
+  }
+
+  get isPlaying() {
+    return this.sources.size > 0;
+  }
+
+  get sampleRate() {
+    return this.context.sampleRate;
+  }
+
+  // Must run from a user gesture to satisfy browser autoplay policies
+  async resume() {
+    if (this.context.state === 'suspended') await this.context.resume();
+  }
+
+  // null plays through the system default; ignored where the browser can't pick an output
+  async setOutputDevice(deviceId: string | null) {
+    const context = this.context as AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+    if (!context.setSinkId) return;
+    try {
+      await context.setSinkId(deviceId ?? '');
+    } catch (e) {
+      console.error('Failed to switch audio output', e);
+    }
+  }
+
+  decode(pcm16: Uint8Array): Promise<AudioBuffer> {
+    return decodeAudioData(pcm16, this.context, this.context.sampleRate);
+  }
+
+  createBuffer(samples: Float32Array): AudioBuffer {
+    const buffer = this.context.createBuffer(1, samples.length, this.context.sampleRate);
+    buffer.getChannelData(0).set(samples);
+    return buffer;
+  }
+
+  // Returns the delay in seconds until this chunk finishes playing
+  enqueue(buffer: AudioBuffer): number {
+    this.nextStartTime = Math.max(this.nextStartTime, this.context.currentTime);
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.context.destination);
+    source.onended = () => {
+      this.sources.delete(source);
+    };
+    source.start(this.nextStartTime);
+    this.sources.add(source);
+    this.nextStartTime += buffer.duration;
+    return this.nextStartTime - this.context.currentTime;
+  }
+
+  interrupt() {
+    this.sources.forEach(source => {
+      try {
+        source.stop();
+      } catch (e) {
+        // Ignore errors if source already stopped
+      }
+    });
+    this.sources.clear();
+    this.nextStartTime = this.context.currentTime;
+  }
+
+  close() {
+    this.interrupt();
+    this.context.close();
+  }
+}
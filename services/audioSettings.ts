@@ -0,0 +1,102 @@
+
+const STORAGE_KEY = 'annotate-audio-settings';
+
+// open: always streaming; vad: streams while you speak; push_to_talk: streams while the key is held
+export type MicMode = 'open' | 'vad' | 'push_to_talk';
+
+export interface AudioSettings {
+  inputDeviceId: string | null; // null follows the system default
+  outputDeviceId: string | null;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  inputGain: number; // Linear, 1 = unchanged
+  micMode: MicMode;
+  pushToTalkKey: string; // KeyboardEvent.code
+  vadSensitivity: number; // 0-1
+}
+
+export interface AudioDevices {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  inputDeviceId: null,
+  outputDeviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  inputGain: 1,
+  micMode: 'vad',
+  pushToTalkKey: 'Backquote',
+  vadSensitivity: 0.5
+};
+
+export function loadAudioSettings(): AudioSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_AUDIO_SETTINGS, ...JSON.parse(raw) } : DEFAULT_AUDIO_SETTINGS;
+  } catch (e) {
+    console.error('Failed to load audio settings', e);
+    return DEFAULT_AUDIO_SETTINGS;
+  }
+}
+
+export function saveAudioSettings(settings: AudioSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error('Failed to save audio settings', e);
+  }
+}
+
+export function audioConstraints(settings: AudioSettings): MediaTrackConstraints {
+  return {
+    deviceId: settings.inputDeviceId ? { exact: settings.inputDeviceId } : undefined,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl
+  };
+}
+
+// A saved microphone that has been unplugged falls back to the system default; `onFallback` lets the caller tell the user
+export async function openMicrophone(settings: AudioSettings, onFallback?: () => void): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ audio: audioConstraints(settings) });
+  } catch (error: any) {
+    const isMissing = error?.name === 'OverconstrainedError' || error?.name === 'NotFoundError';
+    if (!settings.inputDeviceId || !isMissing) throw error;
+    console.error('Selected microphone unavailable, using the default', error);
+    onFallback?.();
+    return navigator.mediaDevices.getUserMedia({ audio: audioConstraints({ ...settings, inputDeviceId: null }) });
+  }
+}
+
+// Whether moving from one settings object to the other needs a new microphone stream
+export function needsNewInputStream(previous: AudioSettings, next: AudioSettings) {
+  return previous.inputDeviceId !== next.inputDeviceId ||
+    previous.echoCancellation !== next.echoCancellation ||
+    previous.noiseSuppression !== next.noiseSuppression ||
+    previous.autoGainControl !== next.autoGainControl;
+}
+
+// "KeyT" -> "T", "Backquote" -> "`", for showing the push-to-talk binding
+export function keyCodeLabel(code: string) {
+  const named: Record<string, string> = { Backquote: '`', Space: 'Space', CapsLock: 'Caps Lock', AltLeft: 'Left Alt', AltRight: 'Right Alt', ControlLeft: 'Left Ctrl', ControlRight: 'Right Ctrl', ShiftLeft: 'Left Shift', ShiftRight: 'Right Shift' };
+  return named[code] ?? code.replace(/^Key|^Digit/, '');
+}
+
+// Labels stay empty until the page has been granted microphone access
+export async function listAudioDevices(): Promise<AudioDevices> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter(d => d.kind === 'audioinput'),
+    outputs: devices.filter(d => d.kind === 'audiooutput')
+  };
+}
+
+// AudioContext.setSinkId is not available everywhere (and not yet in the DOM typings)
+export function supportsOutputSelection() {
+  return typeof (AudioContext.prototype as any).setSinkId === 'function';
+}
@@ -40,7 +40,8 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createPcmBlob(data: Float32Array): Blob {
+// Self-contained (no imports or helpers) because the capture worklet embeds its source
+export function floatToPcm16(data: Float32Array): Int16Array {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -48,12 +49,17 @@ export function createPcmBlob(data: Float32Array): Blob {
     const s = Math.max(-1, Math.min(1, data[i]));
     int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
   }
+  return int16;
+}
+
+export function pcm16ToBlob(int16: Int16Array): Blob {
   return {
-    data: arrayBufferToBase64(int16.buffer),
+    data: arrayBufferToBase64(int16.buffer as ArrayBuffer),
     mimeType: 'audio/pcm;rate=16000',
   };
 }
 
+// Self-contained for the same reason as floatToPcm16
 export function downsampleTo16k(inputData: Float32Array, inputSampleRate: number): Float32Array {
   if (inputSampleRate === 16000) return inputData;
   const ratio = inputSampleRate / 16000;
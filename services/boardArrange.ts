@@ -0,0 +1,156 @@
+
+import { DrawingElement } from '../types';
+
+export interface ElementBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+export type MatchSizeMode = 'width' | 'height' | 'both';
+
+export const createGroupId = () => `group-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const getElementBounds = (element: DrawingElement): ElementBounds => {
+  if (element.type === 'path' || element.type === 'pencil') {
+    if (!element.points || element.points.length === 0) return { minX: element.x, maxX: element.x, minY: element.y, maxY: element.y };
+    const xs = element.points.map(p => p.x);
+    const ys = element.points.map(p => p.y);
+    return { minX: Math.min(...xs), maxX: Math.max(...xs), minY: Math.min(...ys), maxY: Math.max(...ys) };
+  }
+  const { x, y, width = 0, height = 0 } = element;
+  return { minX: Math.min(x, x + width), maxX: Math.max(x, x + width), minY: Math.min(y, y + height), maxY: Math.max(y, y + height) };
+};
+
+export const unionBounds = (list: ElementBounds[]): ElementBounds => list.reduce((a, b) => ({
+  minX: Math.min(a.minX, b.minX), minY: Math.min(a.minY, b.minY), maxX: Math.max(a.maxX, b.maxX), maxY: Math.max(a.maxY, b.maxY)
+}));
+
+// Returns the same object when nothing moves, so history sees it as unchanged
+export function translateElement(element: DrawingElement, dx: number, dy: number): DrawingElement {
+  if (dx === 0 && dy === 0) return element;
+  const moved = { ...element, x: element.x + dx, y: element.y + dy };
+  if (element.points) moved.points = element.points.map(p => ({ x: p.x + dx, y: p.y + dy }));
+  return moved;
+}
+
+// Clicking one member of a group picks up the whole group
+export function expandToGroups(elements: DrawingElement[], ids: string[]): string[] {
+  const groupIds = new Set(elements.filter(el => el.groupId && ids.includes(el.id)).map(el => el.groupId));
+  const members = elements.filter(el => !ids.includes(el.id) && el.groupId && groupIds.has(el.groupId)).map(el => el.id);
+  return [...ids, ...members];
+}
+
+// Grouping an existing group with other elements merges them into one new group
+export function groupElements(elements: DrawingElement[], ids: string[]): DrawingElement[] {
+  const groupId = createGroupId();
+  return elements.map(el => ids.includes(el.id) ? { ...el, groupId } : el);
+}
+
+export function ungroupElements(elements: DrawingElement[], ids: string[]): DrawingElement[] {
+  return elements.map(el => {
+    if (!ids.includes(el.id) || !el.groupId) return el;
+    const { groupId, ...rest } = el;
+    return rest;
+  });
+}
+
+// Grouped elements are arranged as one block; everything else on its own
+function selectionUnits(elements: DrawingElement[], ids: string[]): DrawingElement[][] {
+  const units = new Map<string, DrawingElement[]>();
+  elements.filter(el => ids.includes(el.id)).forEach(el => {
+    const key = el.groupId ?? el.id;
+    units.set(key, [...(units.get(key) ?? []), el]);
+  });
+  return Array.from(units.values());
+}
+
+function moveUnits(elements: DrawingElement[], offsets: Map<string, { dx: number; dy: number }>): DrawingElement[] {
+  return elements.map(el => {
+    const offset = offsets.get(el.id);
+    return offset ? translateElement(el, offset.dx, offset.dy) : el;
+  });
+}
+
+// Lines up each unit with the matching edge (or center) of the whole selection
+export function alignElements(elements: DrawingElement[], ids: string[], edge: AlignEdge): DrawingElement[] {
+  const units = selectionUnits(elements, ids);
+  if (units.length < 2) return elements;
+  const unitBounds = units.map(unit => unionBounds(unit.map(getElementBounds)));
+  const all = unionBounds(unitBounds);
+  const offsets = new Map<string, { dx: number; dy: number }>();
+
+  units.forEach((unit, i) => {
+    const b = unitBounds[i];
+    let dx = 0;
+    let dy = 0;
+    if (edge === 'left') dx = all.minX - b.minX;
+    if (edge === 'right') dx = all.maxX - b.maxX;
+    if (edge === 'center') dx = (all.minX + all.maxX) / 2 - (b.minX + b.maxX) / 2;
+    if (edge === 'top') dy = all.minY - b.minY;
+    if (edge === 'bottom') dy = all.maxY - b.maxY;
+    if (edge === 'middle') dy = (all.minY + all.maxY) / 2 - (b.minY + b.maxY) / 2;
+    unit.forEach(el => offsets.set(el.id, { dx, dy }));
+  });
+  return moveUnits(elements, offsets);
+}
+
+// Keeps the outermost units in place and evens out the gaps between the rest
+export function distributeElements(elements: DrawingElement[], ids: string[], axis: DistributeAxis): DrawingElement[] {
+  const units = selectionUnits(elements, ids);
+  if (units.length < 3) return elements;
+  const isHorizontal = axis === 'horizontal';
+  const start = (b: ElementBounds) => isHorizontal ? b.minX : b.minY;
+  const size = (b: ElementBounds) => isHorizontal ? b.maxX - b.minX : b.maxY - b.minY;
+
+  const sorted = units
+    .map(unit => ({ unit, bounds: unionBounds(unit.map(getElementBounds)) }))
+    .sort((a, b) => (start(a.bounds) + size(a.bounds) / 2) - (start(b.bounds) + size(b.bounds) / 2));
+  const first = sorted[0].bounds;
+  const last = sorted[sorted.length - 1].bounds;
+  const totalSize = sorted.reduce((sum, s) => sum + size(s.bounds), 0);
+  const gap = (start(last) + size(last) - start(first) - totalSize) / (sorted.length - 1);
+
+  const offsets = new Map<string, { dx: number; dy: number }>();
+  let cursor = start(first);
+  sorted.forEach(({ unit, bounds }) => {
+    const delta = cursor - start(bounds);
+    unit.forEach(el => offsets.set(el.id, isHorizontal ? { dx: delta, dy: 0 } : { dx: 0, dy: delta }));
+    cursor += size(bounds) + gap;
+  });
+  return moveUnits(elements, offsets);
+}
+
+// Resizes from the top-left corner; text is skipped since its box follows the font size
+function resizeElement(element: DrawingElement, width: number | null, height: number | null): DrawingElement {
+  if (element.type === 'text') return element;
+  const b = getElementBounds(element);
+  const currentWidth = b.maxX - b.minX;
+  const currentHeight = b.maxY - b.minY;
+  if ((width === null || width === currentWidth) && (height === null || height === currentHeight)) return element;
+
+  if (element.points) {
+    const sx = width !== null && currentWidth > 0 ? width / currentWidth : 1;
+    const sy = height !== null && currentHeight > 0 ? height / currentHeight : 1;
+    const points = element.points.map(p => ({ x: b.minX + (p.x - b.minX) * sx, y: b.minY + (p.y - b.minY) * sy }));
+    return element.width === undefined ? { ...element, points } : { ...element, points, width: currentWidth * sx, height: currentHeight * sy };
+  }
+  // Lines and arrows keep their direction
+  const resized = { ...element };
+  if (width !== null) resized.width = (element.width ?? 0) < 0 ? -width : width;
+  if (height !== null) resized.height = (element.height ?? 0) < 0 ? -height : height;
+  return resized;
+}
+
+// Sizes the elements in `ids` to the reference element, which is left as it is
+export function matchElementSize(elements: DrawingElement[], referenceId: string, ids: string[], mode: MatchSizeMode): DrawingElement[] {
+  const reference = elements.find(el => el.id === referenceId);
+  if (!reference || !ids.some(id => id !== referenceId)) return elements;
+  const b = getElementBounds(reference);
+  const width = mode === 'height' ? null : b.maxX - b.minX;
+  const height = mode === 'width' ? null : b.maxY - b.minY;
+  return elements.map(el => el.id !== reference.id && ids.includes(el.id) ? resizeElement(el, width, height) : el);
+}
@@ -0,0 +1,295 @@
+
+import { DrawingElement } from '../types';
+import { ChartAxis } from './chartAnchor';
+import { positionLabelsForElement } from './positionCalculator';
+import { fontForElement, layoutText } from './textLayout';
+
+// --- Display List ---
+// Every element is flattened to a few vector primitives; the SVG and PDF writers only understand these.
+
+export type PathCommand =
+  | { op: 'M' | 'L'; x: number; y: number }
+  | { op: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { op: 'Z' };
+
+export interface Paint {
+  stroke?: string;
+  fill?: string;
+  strokeWidth: number;
+  dash?: number[];
+  opacity: number; // 0 to 1
+}
+
+export type ExportPrimitive =
+  | { kind: 'path'; commands: PathCommand[]; paint: Paint }
+  | {
+      kind: 'text';
+      x: number; // Alignment anchor
+      y: number; // Top of the first line
+      lines: string[];
+      lineWidths: number[];
+      fontSize: number;
+      lineHeight: number;
+      fontFamily: string;
+      fontWeight: string;
+      fontStyle: string;
+      align: 'left' | 'center' | 'right';
+      color: string;
+      opacity: number;
+    }
+  | { kind: 'image'; x: number; y: number; width: number; height: number; href: string; opacity: number };
+
+export interface ExportBounds {
+  minX: number;
+  minY: number;
+  width: number;
+  height: number;
+}
+
+export interface ExportOptions {
+  bounds: ExportBounds; // World-space area to export, padding included
+  background: string;
+  axis: ChartAxis | null;
+}
+
+const ARROW_HEAD_LENGTH = 15;
+const KAPPA = 0.5522847498; // Cubic bezier circle approximation
+
+const dashFor = (element: DrawingElement) =>
+  element.strokeStyle === 'dashed' ? [10, 10] : element.strokeStyle === 'dotted' ? [5, 10] : undefined;
+
+const ellipseCommands = (cx: number, cy: number, rx: number, ry: number): PathCommand[] => {
+  const ox = rx * KAPPA;
+  const oy = ry * KAPPA;
+  return [
+    { op: 'M', x: cx + rx, y: cy },
+    { op: 'C', x1: cx + rx, y1: cy + oy, x2: cx + ox, y2: cy + ry, x: cx, y: cy + ry },
+    { op: 'C', x1: cx - ox, y1: cy + ry, x2: cx - rx, y2: cy + oy, x: cx - rx, y: cy },
+    { op: 'C', x1: cx - rx, y1: cy - oy, x2: cx - ox, y2: cy - ry, x: cx, y: cy - ry },
+    { op: 'C', x1: cx + ox, y1: cy - ry, x2: cx + rx, y2: cy - oy, x: cx + rx, y: cy },
+    { op: 'Z' }
+  ];
+};
+
+const rectCommands = (x: number, y: number, w: number, h: number): PathCommand[] => [
+  { op: 'M', x, y }, { op: 'L', x: x + w, y }, { op: 'L', x: x + w, y: y + h }, { op: 'L', x, y: y + h }, { op: 'Z' }
+];
+
+const polylineCommands = (points: { x: number; y: number }[]): PathCommand[] =>
+  points.map((p, i) => ({ op: i === 0 ? 'M' : 'L', x: p.x, y: p.y }));
+
+const arrowheadPrimitives = (x: number, y: number, angle: number, type: string, color: string, element: DrawingElement, opacity: number): ExportPrimitive[] => {
+  if (type === 'arrow') {
+    return [{
+      kind: 'path',
+      commands: [
+        { op: 'M', x: x - ARROW_HEAD_LENGTH * Math.cos(angle - Math.PI / 6), y: y - ARROW_HEAD_LENGTH * Math.sin(angle - Math.PI / 6) },
+        { op: 'L', x, y },
+        { op: 'L', x: x - ARROW_HEAD_LENGTH * Math.cos(angle + Math.PI / 6), y: y - ARROW_HEAD_LENGTH * Math.sin(angle + Math.PI / 6) }
+      ],
+      paint: { stroke: color, strokeWidth: element.strokeWidth, dash: dashFor(element), opacity }
+    }];
+  }
+  if (type === 'dot') {
+    return [{ kind: 'path', commands: ellipseCommands(x, y, 4, 4), paint: { fill: color, strokeWidth: 0, opacity } }];
+  }
+  return [];
+};
+
+// Approximates the canvas label pills; text width comes from the measuring context
+const labelPrimitives = (ctx: CanvasRenderingContext2D, text: string, cx: number, cy: number, background: string): ExportPrimitive[] => {
+  const fontSize = 11;
+  const padding = 3;
+  ctx.save();
+  ctx.font = `500 ${fontSize}px Inter, sans-serif`;
+  const textW = ctx.measureText(text).width;
+  ctx.restore();
+  const lx = cx - textW / 2;
+  return [
+    { kind: 'path', commands: rectCommands(lx - padding, cy - fontSize / 2 - padding, textW + padding * 2, fontSize + padding * 2), paint: { fill: background, strokeWidth: 0, opacity: 1 } },
+    {
+      kind: 'text', x: lx, y: cy - fontSize / 2, lines: [text], lineWidths: [textW], fontSize, lineHeight: fontSize,
+      fontFamily: 'Inter', fontWeight: '500', fontStyle: 'normal', align: 'left', color: '#ffffff', opacity: 1
+    }
+  ];
+};
+
+export function elementToPrimitives(ctx: CanvasRenderingContext2D, element: DrawingElement, axis: ChartAxis | null): ExportPrimitive[] {
+  const opacity = (element.opacity ?? 100) / 100;
+  const { x, y, width = 0, height = 0 } = element;
+  const stroke: Paint = { stroke: element.strokeColor, strokeWidth: element.strokeWidth, dash: dashFor(element), opacity };
+  const out: ExportPrimitive[] = [];
+
+  switch (element.type) {
+    case 'pencil':
+      if (element.points && element.points.length > 0) out.push({ kind: 'path', commands: polylineCommands(element.points), paint: stroke });
+      break;
+    case 'path':
+      if (element.points && element.points.length > 0) {
+        const pts = element.points;
+        out.push({ kind: 'path', commands: polylineCommands(pts), paint: stroke });
+        if (pts.length > 1 && element.startArrowhead) {
+          out.push(...arrowheadPrimitives(pts[0].x, pts[0].y, Math.atan2(pts[1].y - pts[0].y, pts[1].x - pts[0].x) + Math.PI, element.startArrowhead, element.strokeColor, element, opacity));
+        }
+        if (pts.length > 1 && element.endArrowhead) {
+          const last = pts[pts.length - 1];
+          const prev = pts[pts.length - 2];
+          out.push(...arrowheadPrimitives(last.x, last.y, Math.atan2(last.y - prev.y, last.x - prev.x), element.endArrowhead, element.strokeColor, element, opacity));
+        }
+        pts.forEach(p => out.push({ kind: 'path', commands: ellipseCommands(p.x, p.y, 3, 3), paint: { fill: '#ffffff', stroke: element.strokeColor, strokeWidth: element.strokeWidth, opacity } }));
+      }
+      break;
+    case 'rectangle':
+      out.push({ kind: 'path', commands: rectCommands(x, y, width, height), paint: stroke });
+      break;
+    case 'diamond':
+      out.push({
+        kind: 'path',
+        commands: [
+          { op: 'M', x: x + width / 2, y }, { op: 'L', x: x + width, y: y + height / 2 },
+          { op: 'L', x: x + width / 2, y: y + height }, { op: 'L', x, y: y + height / 2 }, { op: 'Z' }
+        ],
+        paint: stroke
+      });
+      break;
+    case 'ellipse':
+      out.push({ kind: 'path', commands: ellipseCommands(x + width / 2, y + height / 2, Math.abs(width / 2), Math.abs(height / 2)), paint: stroke });
+      break;
+    case 'arrow':
+    case 'line': {
+      out.push({ kind: 'path', commands: [{ op: 'M', x, y }, { op: 'L', x: x + width, y: y + height }], paint: stroke });
+      const angle = Math.atan2(height, width);
+      const endArrow = element.type === 'arrow' ? (element.endArrowhead || 'arrow') : element.endArrowhead;
+      if (element.startArrowhead) out.push(...arrowheadPrimitives(x, y, angle + Math.PI, element.startArrowhead, element.strokeColor, element, opacity));
+      if (endArrow) out.push(...arrowheadPrimitives(x + width, y + height, angle, endArrow, element.strokeColor, element, opacity));
+      break;
+    }
+    case 'text':
+      if (element.text) {
+        const layout = layoutText(ctx, element, width > 0 ? width + 1 : undefined);
+        const align = element.textAlign || 'left';
+        ctx.save();
+        ctx.font = fontForElement(element);
+        const lineWidths = layout.lines.map(l => ctx.measureText(l).width);
+        ctx.restore();
+        out.push({
+          kind: 'text',
+          x: align === 'center' ? x + width / 2 : align === 'right' ? x + width : x,
+          y,
+          lines: layout.lines,
+          lineWidths,
+          fontSize: element.fontSize || 24,
+          lineHeight: layout.lineHeight,
+          fontFamily: element.fontFamily || 'Kalam',
+          fontWeight: element.fontWeight || 'normal',
+          fontStyle: element.fontStyle || 'normal',
+          align,
+          color: element.strokeColor,
+          opacity
+        });
+      }
+      break;
+    case 'image':
+      if (element.imageData) out.push({ kind: 'image', x, y, width, height, href: element.imageData, opacity });
+      break;
+    case 'long_position':
+    case 'short_position': {
+      const absW = Math.abs(width);
+      const absH = Math.abs(height);
+      const left = width < 0 ? x + width : x;
+      const top = height < 0 ? y + height : y;
+      const isLong = element.type === 'long_position';
+      const labels = positionLabelsForElement(element, axis);
+      const entryY = labels.entryY;
+      const profit = { fill: 'rgba(34, 197, 94, 0.2)', stroke: '#15803d' };
+      const loss = { fill: 'rgba(239, 68, 68, 0.2)', stroke: '#b91c1c' };
+      const upper = isLong ? profit : loss;
+      const lower = isLong ? loss : profit;
+
+      out.push({ kind: 'path', commands: rectCommands(left, top, absW, entryY - top), paint: { ...upper, strokeWidth: 1, opacity } });
+      out.push({ kind: 'path', commands: rectCommands(left, entryY, absW, top + absH - entryY), paint: { ...lower, strokeWidth: 1, opacity } });
+      out.push({ kind: 'path', commands: [{ op: 'M', x: left, y: entryY }, { op: 'L', x: left + absW, y: entryY }], paint: { stroke: '#6b7280', strokeWidth: 2, opacity } });
+
+      if (absW >= 40 && absH >= 20) {
+        const cx = left + absW / 2;
+        const topLabelY = top + 11;
+        const bottomLabelY = top + absH - 11;
+        out.push(...labelPrimitives(ctx, labels.top.text, cx, topLabelY, labels.top.background));
+        out.push(...labelPrimitives(ctx, labels.bottom.text, cx, bottomLabelY, labels.bottom.background));
+        if (Math.abs(entryY - topLabelY) > 16.5 && Math.abs(bottomLabelY - entryY) > 16.5) {
+          out.push(...labelPrimitives(ctx, labels.entry.text, cx, entryY, labels.entry.background));
+        }
+      }
+      break;
+    }
+  }
+  return out;
+}
+
+export function buildDisplayList(elements: DrawingElement[], axis: ChartAxis | null): ExportPrimitive[] {
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  return elements.flatMap(el => elementToPrimitives(ctx, el, axis));
+}
+
+// --- SVG ---
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const num = (n: number) => Number.isInteger(n) ? String(n) : n.toFixed(2);
+
+export const pathData = (commands: PathCommand[]) => commands.map(c => {
+  if (c.op === 'Z') return 'Z';
+  if (c.op === 'C') return `C${num(c.x1)} ${num(c.y1)} ${num(c.x2)} ${num(c.y2)} ${num(c.x)} ${num(c.y)}`;
+  return `${c.op}${num(c.x)} ${num(c.y)}`;
+}).join(' ');
+
+const primitiveToSvg = (p: ExportPrimitive): string => {
+  switch (p.kind) {
+    case 'path': {
+      const attrs = [
+        `d="${pathData(p.commands)}"`,
+        `fill="${escapeXml(p.paint.fill || 'none')}"`,
+        `stroke="${escapeXml(p.paint.stroke && p.paint.strokeWidth > 0 ? p.paint.stroke : 'none')}"`,
+        `stroke-width="${num(p.paint.strokeWidth)}"`,
+        'stroke-linecap="round"',
+        'stroke-linejoin="round"'
+      ];
+      if (p.paint.dash) attrs.push(`stroke-dasharray="${p.paint.dash.join(' ')}"`);
+      if (p.paint.opacity < 1) attrs.push(`opacity="${num(p.paint.opacity)}"`);
+      return `<path ${attrs.join(' ')}/>`;
+    }
+    case 'text': {
+      const anchor = p.align === 'center' ? 'middle' : p.align === 'right' ? 'end' : 'start';
+      const halfLeading = (p.lineHeight - p.fontSize) / 2;
+      const tspans = p.lines.map((line, i) =>
+        `<tspan x="${num(p.x)}" y="${num(p.y + i * p.lineHeight + halfLeading)}">${escapeXml(line) || ' '}</tspan>`
+      ).join('');
+      const opacity = p.opacity < 1 ? ` opacity="${num(p.opacity)}"` : '';
+      return `<text font-family="${escapeXml(p.fontFamily)}, sans-serif" font-size="${num(p.fontSize)}" font-weight="${escapeXml(p.fontWeight)}" font-style="${escapeXml(p.fontStyle)}" text-anchor="${anchor}" dominant-baseline="text-before-edge" fill="${escapeXml(p.color)}" xml:space="preserve"${opacity}>${tspans}</text>`;
+    }
+    case 'image': {
+      const opacity = p.opacity < 1 ? ` opacity="${num(p.opacity)}"` : '';
+      return `<image x="${num(p.x)}" y="${num(p.y)}" width="${num(p.width)}" height="${num(p.height)}" href="${escapeXml(p.href)}" preserveAspectRatio="none"${opacity}/>`;
+    }
+  }
+};
+
+export function exportBoardSvg(elements: DrawingElement[], options: ExportOptions): string {
+  const { bounds } = options;
+  const body = buildDisplayList(elements, options.axis).map(primitiveToSvg).join('\n  ');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${num(bounds.width)}" height="${num(bounds.height)}" viewBox="${num(bounds.minX)} ${num(bounds.minY)} ${num(bounds.width)} ${num(bounds.height)}">
+  <rect x="${num(bounds.minX)}" y="${num(bounds.minY)}" width="${num(bounds.width)}" height="${num(bounds.height)}" fill="${escapeXml(options.background)}"/>
+  ${body}
+</svg>`;
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,148 @@
+
+import { BoardLayer, ChartCalibration, DrawingElement, Point } from '../types';
+import { DEFAULT_LAYERS } from './boardLayers';
+
+export const BOARD_FILE_TYPE = 'annotate-board';
+export const BOARD_FILE_VERSION = 3;
+export const BOARD_FILE_EXTENSION = '.annotate.json';
+
+export interface BoardViewport {
+  panOffset: Point;
+  scale: number;
+}
+
+export interface BoardDocument {
+  type: typeof BOARD_FILE_TYPE;
+  version: number;
+  savedAt: string;
+  roomTitle: string;
+  viewport: BoardViewport;
+  elements: DrawingElement[]; // Images are embedded via element.imageData
+  calibration: ChartCalibration | null;
+  layers: BoardLayer[];
+}
+
+export interface BoardSnapshot {
+  roomTitle: string;
+  viewport: BoardViewport;
+  elements: DrawingElement[];
+  calibration: ChartCalibration | null;
+  layers: BoardLayer[];
+}
+
+// Each migration upgrades a document from `version` to `version + 1`.
+// Version 0 is the unversioned format: either a bare DrawingElement[] or an object without a version.
+const migrations: Record<number, (doc: any) => any> = {
+  0: (doc) => {
+    // Anything else (e.g. some other app's JSON) would otherwise load as an empty board
+    if (!Array.isArray(doc) && !Array.isArray(doc?.elements)) throw new Error('Not an Annotate board file');
+    const elements = Array.isArray(doc) ? doc : doc.elements;
+    return {
+      type: BOARD_FILE_TYPE,
+      version: 1,
+      savedAt: doc?.savedAt ?? new Date(0).toISOString(),
+      roomTitle: doc?.roomTitle ?? 'Annotate Room',
+      viewport: {
+        panOffset: doc?.panOffset ?? { x: 0, y: 0 },
+        scale: doc?.scale ?? 1
+      },
+      elements
+    };
+  },
+  // v2: chart calibration for price/time anchors
+  1: (doc) => ({ ...doc, version: 2, calibration: null }),
+  // v3: named layers for grouped visibility and locking
+  2: (doc) => ({ ...doc, version: 3, layers: DEFAULT_LAYERS })
+};
+
+// Fill in defaults for fields that older files may not carry
+const normalizeLoadedElement = (raw: any, index: number): DrawingElement => {
+  if (!raw || typeof raw !== 'object' || typeof raw.type !== 'string') {
+    throw new Error(`Invalid element at index ${index}`);
+  }
+  return {
+    ...raw,
+    id: raw.id != null ? String(raw.id) : `${Date.now()}-${index}`,
+    x: Number(raw.x) || 0,
+    y: Number(raw.y) || 0,
+    strokeColor: raw.strokeColor ?? '#000000',
+    backgroundColor: raw.backgroundColor ?? 'transparent',
+    strokeWidth: raw.strokeWidth ?? 2
+  };
+};
+
+export function createBoardDocument(snapshot: BoardSnapshot): BoardDocument {
+  return {
+    type: BOARD_FILE_TYPE,
+    version: BOARD_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    roomTitle: snapshot.roomTitle,
+    viewport: { panOffset: { ...snapshot.viewport.panOffset }, scale: snapshot.viewport.scale },
+    elements: snapshot.elements,
+    calibration: snapshot.calibration,
+    layers: snapshot.layers
+  };
+}
+
+export function serializeBoard(snapshot: BoardSnapshot): string {
+  return JSON.stringify(createBoardDocument(snapshot));
+}
+
+export function migrateBoardDocument(input: unknown): BoardDocument {
+  let doc: any = input;
+  let version = Array.isArray(doc) ? 0 : (typeof doc?.version === 'number' ? doc.version : 0);
+
+  if (version > BOARD_FILE_VERSION) {
+    throw new Error(`Board file version ${version} is newer than this app supports (${BOARD_FILE_VERSION})`);
+  }
+  if (!Array.isArray(doc) && doc?.type !== undefined && doc.type !== BOARD_FILE_TYPE) {
+    throw new Error('Not an Annotate board file');
+  }
+
+  while (version < BOARD_FILE_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration from board file version ${version}`);
+    doc = migrate(doc);
+    version += 1;
+  }
+
+  if (!Array.isArray(doc.elements)) throw new Error('Board file has no elements');
+
+  return {
+    ...doc,
+    version: BOARD_FILE_VERSION,
+    roomTitle: typeof doc.roomTitle === 'string' ? doc.roomTitle : 'Annotate Room',
+    viewport: {
+      panOffset: doc.viewport?.panOffset ?? { x: 0, y: 0 },
+      scale: doc.viewport?.scale ?? 1
+    },
+    elements: doc.elements.map(normalizeLoadedElement),
+    calibration: doc.calibration ?? null,
+    layers: Array.isArray(doc.layers) && doc.layers.length > 0 ? doc.layers : DEFAULT_LAYERS
+  };
+}
+
+export function parseBoard(json: string): BoardDocument {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    throw new Error('Board file is not valid JSON');
+  }
+  return migrateBoardDocument(raw);
+}
+
+export function downloadBoard(snapshot: BoardSnapshot) {
+  const blob = new Blob([serializeBoard(snapshot)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const safeTitle = snapshot.roomTitle.trim().replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'board';
+  const link = document.createElement('a');
+  link.download = `${safeTitle}${BOARD_FILE_EXTENSION}`;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function readBoardFile(file: File): Promise<BoardDocument> {
+  return file.text().then(parseBoard);
+}
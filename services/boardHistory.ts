@@ -0,0 +1,189 @@
+
+import { ChartCalibration, DrawingElement } from '../types';
+
+export const MAX_HISTORY_ENTRIES = 300;
+const COALESCE_WINDOW_MS = 2000; // Edits with the same merge key this close together become one step
+
+// Who made a change: the local user, an accepted AI proposal, or a collaborator via board sync
+export type HistoryOrigin = 'user' | 'ai' | 'remote';
+
+// One element's before/after; null (and index -1) where the element doesn't exist on that side
+export interface ElementChange {
+  id: string;
+  before: DrawingElement | null;
+  after: DrawingElement | null;
+  beforeIndex: number;
+  afterIndex: number;
+}
+
+// A single undo step, stored as a patch rather than a copy of the board
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  origin: HistoryOrigin;
+  timestamp: number;
+  changes: ElementChange[];
+  order?: { before: string[]; after: string[] }; // Only when existing elements changed z-order
+  mergeKey?: string; // Consecutive edits of the same field (e.g. typing into an input) share a key
+  calibration?: { before: ChartCalibration | null; after: ChartCalibration | null }; // Only when the chart calibration changed
+}
+
+// `index` counts the applied entries; entries past it are redoable (and always local)
+export interface BoardHistory {
+  entries: HistoryEntry[];
+  index: number;
+}
+
+export const EMPTY_HISTORY: BoardHistory = { entries: [], index: 0 };
+
+// "rectangle", "long position", "3 elements"; for step labels
+export function elementsLabel(elements: DrawingElement[]): string {
+  return elements.length === 1 ? elements[0].type.replace(/_/g, ' ') : `${elements.length} elements`;
+}
+
+// Default label from what changed, e.g. "Add rectangle", "Delete 3 elements"
+export function describeChanges(changes: ElementChange[]): string {
+  const added = changes.filter(c => !c.before && c.after);
+  const removed = changes.filter(c => c.before && !c.after);
+  const edited = changes.filter(c => c.before && c.after);
+  const subject = (list: ElementChange[]) => elementsLabel(list.map(c => (c.after ?? c.before)!));
+
+  if (added.length > 0 && removed.length === 0 && edited.length === 0) return `Add ${subject(added)}`;
+  if (removed.length > 0 && added.length === 0 && edited.length === 0) return `Delete ${subject(removed)}`;
+  if (edited.length > 0 && added.length === 0 && removed.length === 0) return `Edit ${subject(edited)}`;
+  if (changes.length === 0) return 'Reorder elements';
+  return `Change ${changes.length} elements`;
+}
+
+// Elements are compared by reference, so unchanged elements must keep their object identity
+export function createHistoryEntry(before: DrawingElement[], after: DrawingElement[], origin: HistoryOrigin, label?: string, calibration?: HistoryEntry['calibration']): HistoryEntry | null {
+  const beforeIndex = new Map(before.map((el, i) => [el.id, i]));
+  const afterIndex = new Map(after.map((el, i) => [el.id, i]));
+  const changes: ElementChange[] = [];
+
+  before.forEach((el, i) => {
+    const j = afterIndex.get(el.id);
+    const next = j === undefined ? null : after[j];
+    if (next !== el) changes.push({ id: el.id, before: el, after: next, beforeIndex: i, afterIndex: j ?? -1 });
+  });
+  after.forEach((el, j) => {
+    if (!beforeIndex.has(el.id)) changes.push({ id: el.id, before: null, after: el, beforeIndex: -1, afterIndex: j });
+  });
+
+  const keptBefore = before.filter(el => afterIndex.has(el.id)).map(el => el.id);
+  const keptAfter = after.filter(el => beforeIndex.has(el.id)).map(el => el.id);
+  const reordered = keptBefore.some((id, i) => id !== keptAfter[i]);
+
+  const recalibrated = !!calibration && calibration.before !== calibration.after;
+  if (changes.length === 0 && !reordered && !recalibrated) return null;
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    label: label ?? describeChanges(changes),
+    origin,
+    timestamp: Date.now(),
+    changes,
+    order: reordered ? { before: before.map(el => el.id), after: after.map(el => el.id) } : undefined,
+    calibration: recalibrated ? calibration : undefined
+  };
+}
+
+// Undo and redo only step through the local user's own (and accepted AI) changes
+export const isLocalOrigin = (origin: HistoryOrigin) => origin !== 'remote';
+
+// A local edit drops any redo tail; a collaborator's edit slots in below it. The oldest entries past the cap go.
+export function pushHistoryEntry(history: BoardHistory, entry: HistoryEntry): BoardHistory {
+  const redoTail = isLocalOrigin(entry.origin) ? [] : history.entries.slice(history.index);
+  const all = [...history.entries.slice(0, history.index), entry, ...redoTail];
+  const dropped = Math.max(0, all.length - MAX_HISTORY_ENTRIES);
+  return { entries: all.slice(dropped), index: Math.max(0, history.index + 1 - dropped) };
+}
+
+// Folds `entry` into the newest entry when both are local edits of the same field in quick succession,
+// so typing "10000" is one undo step rather than five. Returns null when they can't be merged.
+export function coalesceHistoryEntry(elements: DrawingElement[], history: BoardHistory, entry: HistoryEntry): BoardHistory | null {
+  const last = history.entries[history.index - 1];
+  if (!entry.mergeKey || !last || last.mergeKey !== entry.mergeKey || history.index !== history.entries.length) return null;
+  if (last.origin !== entry.origin || entry.timestamp - last.timestamp > COALESCE_WINDOW_MS || last.calibration || entry.calibration) return null;
+
+  // `elements` is the board before `entry`; take it back to before `last` and diff once against the result of both
+  const start = applyEntry(elements, last, 'before');
+  const merged = createHistoryEntry(start, applyEntry(elements, entry, 'after'), entry.origin, entry.label);
+  const entries = history.entries.slice(0, -1);
+  if (!merged) return { entries, index: entries.length }; // Typed back to where it started
+  return { entries: [...entries, { ...merged, mergeKey: entry.mergeKey }], index: history.index };
+}
+
+// Drops changes to elements that no longer look the way the entry left them (a collaborator edited them since)
+function rebaseEntry(elements: DrawingElement[], entry: HistoryEntry, side: 'before' | 'after'): HistoryEntry {
+  const current = new Map(elements.map(el => [el.id, el]));
+  const changes = entry.changes.filter(c => (current.get(c.id) ?? null) === (side === 'after' ? c.before : c.after));
+  return changes.length === entry.changes.length ? entry : { ...entry, changes };
+}
+
+// Applies one side of an entry to the current board, leaving elements it doesn't mention alone
+function applyEntry(elements: DrawingElement[], entry: HistoryEntry, side: 'before' | 'after'): DrawingElement[] {
+  const target = (c: ElementChange) => side === 'after' ? c.after : c.before;
+  const targetIndex = (c: ElementChange) => side === 'after' ? c.afterIndex : c.beforeIndex;
+  const byId = new Map(entry.changes.map(c => [c.id, c]));
+
+  const next = elements.flatMap(el => {
+    const change = byId.get(el.id);
+    if (!change) return [el];
+    const replacement = target(change);
+    return replacement ? [replacement] : [];
+  });
+
+  const present = new Set(next.map(el => el.id));
+  entry.changes
+    .filter(c => target(c) && !present.has(c.id))
+    .sort((a, b) => targetIndex(a) - targetIndex(b))
+    .forEach(c => next.splice(Math.min(targetIndex(c), next.length), 0, target(c)!));
+
+  if (!entry.order) return next;
+
+  // Restore the recorded stacking among the elements it covers; later additions keep their slots
+  const rank = new Map(entry.order[side].map((id, i) => [id, i]));
+  const slots = next.map((el, i) => rank.has(el.id) ? i : -1).filter(i => i !== -1);
+  const ranked = slots.map(i => next[i]).sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
+  slots.forEach((slot, i) => { next[slot] = ranked[i]; });
+  return next;
+}
+
+export interface HistoryStep {
+  elements: DrawingElement[];
+  history: BoardHistory;
+  calibration?: ChartCalibration | null; // Set when the step changed the chart calibration
+}
+
+// Reverts the newest applied local entry and moves it to the top of the redo tail; collaborator entries after it stay applied
+export function undoLocal(elements: DrawingElement[], history: BoardHistory): HistoryStep | null {
+  let i = history.index - 1;
+  while (i >= 0 && !isLocalOrigin(history.entries[i].origin)) i--;
+  if (i < 0) return null;
+
+  const entry = rebaseEntry(elements, history.entries[i], 'before');
+  const entries = [...history.entries.slice(0, i), ...history.entries.slice(i + 1, history.index), entry, ...history.entries.slice(history.index)];
+  return { elements: applyEntry(elements, entry, 'before'), history: { entries, index: history.index - 1 }, calibration: entry.calibration?.before };
+}
+
+export function redoLocal(elements: DrawingElement[], history: BoardHistory): HistoryStep | null {
+  if (history.index >= history.entries.length) return null;
+  const entry = rebaseEntry(elements, history.entries[history.index], 'after');
+  const entries = history.entries.map((e, i) => i === history.index ? entry : e);
+  return { elements: applyEntry(elements, entry, 'after'), history: { entries, index: history.index + 1 }, calibration: entry.calibration?.after };
+}
+
+// Undoes or redoes local entries until `target` entries are applied; collaborator entries on the way are skipped, not reverted
+export function travelHistory(elements: DrawingElement[], history: BoardHistory, target: number): HistoryStep {
+  let step: HistoryStep = { elements, history };
+  const advance = (next: HistoryStep | null) => {
+    if (next) step = { ...next, calibration: next.calibration !== undefined ? next.calibration : step.calibration };
+  };
+  if (target > history.index) {
+    for (let i = history.index; i < target; i++) advance(redoLocal(step.elements, step.history));
+    return step;
+  }
+  const undoCount = history.entries.slice(target, history.index).filter(e => isLocalOrigin(e.origin)).length;
+  for (let i = 0; i < undoCount; i++) advance(undoLocal(step.elements, step.history));
+  return step;
+}
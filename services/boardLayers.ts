@@ -0,0 +1,52 @@
+
+import { BoardLayer, DrawingElement } from '../types';
+
+export const DEFAULT_LAYER_ID = 'drawings';
+export const AI_LAYER_ID = 'ai-suggestions';
+
+export const DEFAULT_LAYERS: BoardLayer[] = [
+  { id: DEFAULT_LAYER_ID, name: 'Drawings', hidden: false, locked: false },
+  { id: AI_LAYER_ID, name: 'AI suggestions', hidden: false, locked: false }
+];
+
+export type ZOrderMove = 'forward' | 'backward' | 'front' | 'back';
+
+export const createLayerId = () => `layer-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+// Elements pointing at a layer that no longer exists fall back to the default one
+export function layerIdOf(element: DrawingElement, layers: BoardLayer[]): string {
+  if (element.layerId && layers.some(l => l.id === element.layerId)) return element.layerId;
+  if (!element.layerId && element.createdBy === 'ai' && layers.some(l => l.id === AI_LAYER_ID)) return AI_LAYER_ID;
+  return DEFAULT_LAYER_ID;
+}
+
+export function isElementVisible(element: DrawingElement, layers: BoardLayer[]) {
+  if (element.hidden) return false;
+  const layerId = layerIdOf(element, layers);
+  return !layers.find(l => l.id === layerId)?.hidden;
+}
+
+export function isElementLocked(element: DrawingElement, layers: BoardLayer[]) {
+  if (element.locked) return true;
+  const layerId = layerIdOf(element, layers);
+  return !!layers.find(l => l.id === layerId)?.locked;
+}
+
+// Moves the given elements one step (past one other element) or all the way; relative order among them is kept
+export function reorderElements(elements: DrawingElement[], ids: string[], move: ZOrderMove): DrawingElement[] {
+  const isMoving = (el: DrawingElement) => ids.includes(el.id);
+  if (move === 'front') return [...elements.filter(el => !isMoving(el)), ...elements.filter(isMoving)];
+  if (move === 'back') return [...elements.filter(isMoving), ...elements.filter(el => !isMoving(el))];
+
+  const next = [...elements];
+  if (move === 'forward') {
+    for (let i = next.length - 2; i >= 0; i--) {
+      if (isMoving(next[i]) && !isMoving(next[i + 1])) [next[i], next[i + 1]] = [next[i + 1], next[i]];
+    }
+  } else {
+    for (let i = 1; i < next.length; i++) {
+      if (isMoving(next[i]) && !isMoving(next[i - 1])) [next[i], next[i - 1]] = [next[i - 1], next[i]];
+    }
+  }
+  return next;
+}
@@ -0,0 +1,312 @@
+
+import { BoardLayer, ChartCalibration, DrawingElement } from '../types';
+import { BoardViewport } from './boardFile';
+import { ElementChange, HistoryEntry } from './boardHistory';
+import { DEFAULT_LAYERS } from './boardLayers';
+
+const DB_NAME = 'annotate-board';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+const IMAGE_STORE = 'images';
+const HISTORY_STORE = 'history'; // One record per history entry, keyed by entry id
+const LAST_SESSION_KEY = 'last';
+
+export interface BoardViewSettings {
+  showGrid: boolean;
+  showRuler: boolean;
+  showMinimap: boolean;
+}
+
+export interface BoardSession {
+  roomTitle: string;
+  viewport: BoardViewport;
+  viewSettings: BoardViewSettings;
+  elements: DrawingElement[];
+  history: HistoryEntry[];
+  historyIndex: number;
+  calibration: ChartCalibration | null;
+  layers: BoardLayer[];
+}
+
+// Persisted form: image elements carry `imageRef` (a content hash) instead of the base64 payload
+type StoredElement = Omit<DrawingElement, 'imageData'> & { imageRef?: string };
+
+type StoredChange = Omit<ElementChange, 'before' | 'after'> & { before: StoredElement | null; after: StoredElement | null };
+type StoredEntry = Omit<HistoryEntry, 'changes'> & { changes: StoredChange[] };
+
+interface StoredSession extends Omit<BoardSession, 'elements' | 'history'> {
+  savedAt: number;
+  elements?: StoredElement[];
+  historyIds?: string[]; // Entries live in the history store, so a save only writes the ones that changed
+  // Older sessions kept history inline: whole-board snapshots at first, then patch entries
+  history?: StoredEntry[] | StoredElement[][];
+}
+
+const isSnapshotHistory = (history: StoredSession['history']): history is StoredElement[][] =>
+  !!history && history.length > 0 && Array.isArray(history[0]);
+
+// Snapshot sessions restore their current board with an empty history
+const storedElements = (stored: StoredSession): StoredElement[] =>
+  stored.elements ?? (isSnapshotHistory(stored.history) ? stored.history[stored.historyIndex] ?? [] : []);
+
+const entryImageRefs = (entry: StoredEntry): string[] =>
+  entry.changes.flatMap(change => [change.before?.imageRef, change.after?.imageRef]).filter((ref): ref is string => !!ref);
+
+// What the history store holds for an entry, so unchanged entries (compared by reference) aren't written again
+interface PersistedEntry {
+  entry: HistoryEntry;
+  imageRefs: string[];
+}
+
+export interface StoredSessionInfo {
+  savedAt: number;
+  roomTitle: string;
+  elementCount: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) db.createObjectStore(IMAGE_STORE);
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) db.createObjectStore(HISTORY_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionToPromise = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+
+const readStoredSession = async (db: IDBDatabase): Promise<StoredSession | undefined> =>
+  requestToPromise<StoredSession | undefined>(db.transaction(SESSION_STORE).objectStore(SESSION_STORE).get(LAST_SESSION_KEY));
+
+const readStoredEntries = async (db: IDBDatabase, stored: StoredSession): Promise<StoredEntry[]> => {
+  if (!stored.historyIds) return isSnapshotHistory(stored.history) ? [] : (stored.history as StoredEntry[] | undefined) ?? [];
+  const store = db.transaction(HISTORY_STORE).objectStore(HISTORY_STORE);
+  const entries = await Promise.all(stored.historyIds.map(id => requestToPromise<StoredEntry | undefined>(store.get(id))));
+  return entries.filter((entry): entry is StoredEntry => !!entry);
+};
+
+const hashString = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export class BoardStorage {
+  // Maps an image payload to its stored hash so each image is hashed and written once
+  private imageRefs: Map<string, string> = new Map();
+  private storedRefs: Set<string> = new Set();
+  // null until this page has saved or loaded, since the history store may still hold another session's entries
+  private persistedEntries: Map<string, PersistedEntry> | null = null;
+  private savedElementRefs: string[] = [];
+  private saveQueue: Promise<void> = Promise.resolve();
+
+  private async storeImage(imageData: string): Promise<string> {
+    const known = this.imageRefs.get(imageData);
+    if (known && this.storedRefs.has(known)) return known;
+
+    const ref = known ?? await hashString(imageData);
+    this.imageRefs.set(imageData, ref);
+
+    const db = await openDb();
+    const existing = await requestToPromise(db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE).getKey(ref));
+    if (existing === undefined) {
+      const blob = await dataUrlToBlob(imageData);
+      await requestToPromise(db.transaction(IMAGE_STORE, 'readwrite').objectStore(IMAGE_STORE).put(blob, ref));
+    }
+    this.storedRefs.add(ref);
+    return ref;
+  }
+
+  private async dehydrate(element: DrawingElement): Promise<StoredElement> {
+    if (!element.imageData) return element;
+    const { imageData, ...rest } = element;
+    return { ...rest, imageRef: await this.storeImage(imageData) };
+  }
+
+  private async hydrate(element: StoredElement, cache: Map<string, string>): Promise<DrawingElement> {
+    if (!element.imageRef) return element;
+    const { imageRef, ...rest } = element;
+    let imageData = cache.get(imageRef);
+    if (!imageData) {
+      const db = await openDb();
+      const blob = await requestToPromise<Blob | undefined>(db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE).get(imageRef));
+      if (!blob) return rest;
+      imageData = await blobToDataUrl(blob);
+      cache.set(imageRef, imageData);
+      this.imageRefs.set(imageData, imageRef);
+      this.storedRefs.add(imageRef);
+    }
+    return { ...rest, imageData };
+  }
+
+  private async dehydrateChange(change: ElementChange): Promise<StoredChange> {
+    return {
+      ...change,
+      before: change.before && await this.dehydrate(change.before),
+      after: change.after && await this.dehydrate(change.after)
+    };
+  }
+
+  private referencedImages(): Set<string> {
+    const refs = new Set(this.savedElementRefs);
+    this.persistedEntries?.forEach(({ imageRefs }) => imageRefs.forEach(ref => refs.add(ref)));
+    return refs;
+  }
+
+  // Saves run one at a time, so a slow save can't land after (and overwrite) a newer one
+  saveSession(session: BoardSession): Promise<void> {
+    const save = this.saveQueue.then(() => this.writeSession(session));
+    this.saveQueue = save.catch(() => undefined);
+    return save;
+  }
+
+  private async writeSession(session: BoardSession): Promise<void> {
+    const previous = this.persistedEntries;
+    const previousRefs = this.referencedImages();
+    const elements = await Promise.all(session.elements.map(el => this.dehydrate(el)));
+    const changed: { entry: HistoryEntry; stored: StoredEntry }[] = [];
+    for (const entry of session.history) {
+      if (previous?.get(entry.id)?.entry === entry) continue;
+      const changes = await Promise.all(entry.changes.map(change => this.dehydrateChange(change)));
+      changed.push({ entry, stored: { ...entry, changes } });
+    }
+    const historyIds = session.history.map(entry => entry.id);
+    const kept = new Set(historyIds);
+    const removed = previous ? Array.from(previous.keys()).filter(id => !kept.has(id)) : [];
+    const { history, ...rest } = session;
+    const stored: StoredSession = { ...rest, elements, historyIds, savedAt: Date.now() };
+
+    const db = await openDb();
+    const tx = db.transaction([SESSION_STORE, HISTORY_STORE], 'readwrite');
+    const historyStore = tx.objectStore(HISTORY_STORE);
+    if (!previous) historyStore.clear();
+    removed.forEach(id => historyStore.delete(id));
+    changed.forEach(({ entry, stored }) => historyStore.put(stored, entry.id));
+    tx.objectStore(SESSION_STORE).put(stored, LAST_SESSION_KEY);
+    await transactionToPromise(tx);
+
+    const persisted = new Map(previous);
+    removed.forEach(id => persisted.delete(id));
+    changed.forEach(({ entry, stored }) => persisted.set(entry.id, { entry, imageRefs: entryImageRefs(stored) }));
+    this.persistedEntries = persisted;
+    this.savedElementRefs = elements.map(el => el.imageRef).filter((ref): ref is string => !!ref);
+
+    // Images only become orphaned when the last element or entry using them goes away
+    const current = this.referencedImages();
+    if (Array.from(previousRefs).some(ref => !current.has(ref))) {
+      await this.pruneImages().catch(err => console.error('Failed to prune stored images', err));
+    }
+  }
+
+  async getSessionInfo(): Promise<StoredSessionInfo | null> {
+    const db = await openDb();
+    const stored = await readStoredSession(db);
+    if (!stored) return null;
+    return {
+      savedAt: stored.savedAt,
+      roomTitle: stored.roomTitle,
+      elementCount: storedElements(stored).length
+    };
+  }
+
+  async loadSession(): Promise<BoardSession | null> {
+    const db = await openDb();
+    const stored = await readStoredSession(db);
+    if (!stored) return null;
+
+    const cache = new Map<string, string>();
+    const hydrateOrNull = (el: StoredElement | null) => el ? this.hydrate(el, cache) : Promise.resolve(null);
+    const elements = await Promise.all(storedElements(stored).map(el => this.hydrate(el, cache)));
+    const history: HistoryEntry[] = [];
+    const persisted = new Map<string, PersistedEntry>();
+    for (const entry of await readStoredEntries(db, stored)) {
+      const changes: ElementChange[] = [];
+      for (const change of entry.changes) {
+        changes.push({ ...change, before: await hydrateOrNull(change.before), after: await hydrateOrNull(change.after) });
+      }
+      const hydrated = { ...entry, changes };
+      history.push(hydrated);
+      // Sessions with inline history are moved into the history store on their first save
+      if (stored.historyIds) persisted.set(entry.id, { entry: hydrated, imageRefs: entryImageRefs(entry) });
+    }
+    this.persistedEntries = stored.historyIds ? persisted : null;
+    this.savedElementRefs = storedElements(stored).map(el => el.imageRef).filter((ref): ref is string => !!ref);
+
+    const { savedAt, historyIds, history: _inlineHistory, ...session } = stored;
+    return {
+      ...session,
+      calibration: session.calibration ?? null,
+      layers: session.layers ?? DEFAULT_LAYERS,
+      elements,
+      history,
+      historyIndex: isSnapshotHistory(stored.history) ? 0 : Math.min(stored.historyIndex, history.length)
+    };
+  }
+
+  // Drops the saved session and every image blob it referenced
+  async clearSession(): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction([SESSION_STORE, IMAGE_STORE, HISTORY_STORE], 'readwrite');
+    tx.objectStore(SESSION_STORE).delete(LAST_SESSION_KEY);
+    tx.objectStore(IMAGE_STORE).clear();
+    tx.objectStore(HISTORY_STORE).clear();
+    await transactionToPromise(tx);
+    this.imageRefs.clear();
+    this.storedRefs.clear();
+    this.persistedEntries = new Map();
+    this.savedElementRefs = [];
+  }
+
+  // Removes image blobs no longer referenced by the saved session
+  async pruneImages(): Promise<void> {
+    const db = await openDb();
+    const stored = await readStoredSession(db);
+    const referenced = new Set<string>();
+    if (stored) {
+      storedElements(stored).forEach(el => { if (el.imageRef) referenced.add(el.imageRef); });
+      (await readStoredEntries(db, stored)).forEach(entry => entryImageRefs(entry).forEach(ref => referenced.add(ref)));
+    }
+
+    const keys = await requestToPromise(db.transaction(IMAGE_STORE).objectStore(IMAGE_STORE).getAllKeys());
+    const orphaned = keys.filter(key => !referenced.has(String(key)));
+    if (orphaned.length === 0) return;
+
+    const store = db.transaction(IMAGE_STORE, 'readwrite').objectStore(IMAGE_STORE);
+    orphaned.forEach(key => {
+      store.delete(key);
+      this.storedRefs.delete(String(key));
+    });
+  }
+}
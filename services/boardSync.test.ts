@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import WebSocket, { WebSocketServer } from 'ws';
+import { createRelayServer } from '../server/relay.js';
+import { BoardSyncService, applyOperationsToElements, compareVersions } from './boardSync';
+import { ConnectionState, DrawingElement, SyncOperation } from '../types';
+
+interface TestBoard {
+  elements: DrawingElement[];
+  state: ConnectionState;
+  service: BoardSyncService;
+}
+
+const rect = (id: string, strokeColor = '#000000'): DrawingElement =>
+  ({ id, type: 'rectangle', x: 0, y: 0, width: 10, height: 10, strokeColor, backgroundColor: 'transparent', strokeWidth: 2 });
+
+const op = (kind: SyncOperation['kind'], element: DrawingElement | string, clock: number, clientId: string): SyncOperation => ({
+  kind,
+  elementId: typeof element === 'string' ? element : element.id,
+  element: typeof element === 'string' ? undefined : element,
+  version: { clock, clientId }
+});
+
+const waitFor = async (check: () => boolean, timeoutMs = 4000) => {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+const colorOf = (board: TestBoard, id: string) => board.elements.find(el => el.id === id)?.strokeColor;
+
+describe('compareVersions', () => {
+  it('orders by clock, then by clientId', () => {
+    expect(compareVersions({ clock: 2, clientId: 'a' }, { clock: 1, clientId: 'b' })).toBeGreaterThan(0);
+    expect(compareVersions({ clock: 1, clientId: 'b' }, { clock: 1, clientId: 'a' })).toBeGreaterThan(0);
+    expect(compareVersions({ clock: 1, clientId: 'a' }, { clock: 1, clientId: 'a' })).toBe(0);
+  });
+});
+
+describe('board sync through the relay', () => {
+  let relay: WebSocketServer;
+  let url: string;
+  let boards: TestBoard[];
+  let rawSockets: WebSocket[];
+
+  beforeEach(async () => {
+    vi.stubGlobal('WebSocket', WebSocket);
+    vi.stubGlobal('window', globalThis);
+    relay = createRelayServer({ port: 0 });
+    await new Promise(resolve => relay.once('listening', resolve));
+    url = `ws://localhost:${(relay.address() as { port: number }).port}`;
+    boards = [];
+    rawSockets = [];
+  });
+
+  afterEach(async () => {
+    boards.forEach(board => board.service.disconnect());
+    rawSockets.forEach(socket => socket.close());
+    relay.clients.forEach(client => client.terminate());
+    await new Promise(resolve => relay.close(resolve));
+    vi.unstubAllGlobals();
+  });
+
+  // A client as the app runs it: remote operations are applied to its own element list
+  const joinBoard = (roomId: string, peerId: string, elements: DrawingElement[] = []): TestBoard => {
+    const board = { elements, state: ConnectionState.DISCONNECTED } as TestBoard;
+    board.service = new BoardSyncService({
+      url,
+      roomId,
+      peer: { id: peerId, name: peerId, avatar: '' },
+      onConnectionStateChange: state => { board.state = state; },
+      onRemoteOperations: ops => { board.elements = applyOperationsToElements(board.elements, ops); },
+      getLocalElements: () => board.elements,
+      onPeersChange: () => {}
+    });
+    board.service.connect();
+    boards.push(board);
+    return board;
+  };
+
+  // Sends hand-made operations in order, so tests control clocks, client ids and arrival order
+  const sendOps = async (roomId: string, ops: SyncOperation[]) => {
+    const socket = new WebSocket(url);
+    rawSockets.push(socket);
+    await new Promise(resolve => socket.once('open', resolve));
+    socket.send(JSON.stringify({ type: 'join', roomId, peer: { id: 'script', name: 'script', avatar: '' } }));
+    ops.forEach(o => socket.send(JSON.stringify({ type: 'ops', ops: [o] })));
+    // Operations from one socket are relayed in order, so once this one is seen the rest have been too
+    socket.send(JSON.stringify({ type: 'ops', ops: [op('add', rect('done'), 1, 'script')] }));
+  };
+
+  const settled = (board: TestBoard) => waitFor(() => board.elements.some(el => el.id === 'done'));
+
+  it('keeps the newer of two concurrent updates, whatever order they arrive in', async () => {
+    const observer = joinBoard('room', 'observer');
+    await waitFor(() => observer.state === ConnectionState.CONNECTED);
+    await sendOps('room', [
+      op('add', rect('shape'), 1, 'a'),
+      op('update', rect('shape', 'newer'), 6, 'b'),
+      op('update', rect('shape', 'older'), 5, 'a')
+    ]);
+    await settled(observer);
+    expect(colorOf(observer, 'shape')).toBe('newer');
+
+    const lateJoiner = joinBoard('room', 'late');
+    await settled(lateJoiner);
+    expect(colorOf(lateJoiner, 'shape')).toBe('newer');
+  });
+
+  it('keeps an element deleted when an older update arrives after the delete', async () => {
+    const observer = joinBoard('room', 'observer');
+    await waitFor(() => observer.state === ConnectionState.CONNECTED);
+    await sendOps('room', [
+      op('add', rect('shape'), 1, 'a'),
+      op('delete', 'shape', 7, 'a'),
+      op('update', rect('shape', 'edited'), 6, 'b')
+    ]);
+    await settled(observer);
+    expect(colorOf(observer, 'shape')).toBeUndefined();
+
+    const lateJoiner = joinBoard('room', 'late');
+    await settled(lateJoiner);
+    expect(colorOf(lateJoiner, 'shape')).toBeUndefined();
+  });
+
+  it('breaks a clock tie by clientId', async () => {
+    const first = joinBoard('first', 'observer');
+    const second = joinBoard('second', 'observer');
+    await waitFor(() => first.state === ConnectionState.CONNECTED && second.state === ConnectionState.CONNECTED);
+    await sendOps('first', [op('update', rect('shape', 'from-b'), 5, 'b'), op('update', rect('shape', 'from-a'), 5, 'a')]);
+    await sendOps('second', [op('update', rect('shape', 'from-a'), 5, 'a'), op('update', rect('shape', 'from-b'), 5, 'b')]);
+    await settled(first);
+    await settled(second);
+    expect(colorOf(first, 'shape')).toBe('from-b');
+    expect(colorOf(second, 'shape')).toBe('from-b');
+  });
+
+  it('re-sends the board after a reconnect to a room the relay has forgotten', async () => {
+    const host = joinBoard('room', 'host', [rect('shape', 'drawn')]);
+    const observer = joinBoard('room', 'observer');
+    await waitFor(() => colorOf(observer, 'shape') === 'drawn');
+    observer.service.disconnect();
+
+    // The host's connection drops while it is alone, so the relay drops the room with it
+    await waitFor(() => relay.clients.size === 1);
+    relay.clients.forEach(client => client.terminate());
+    await waitFor(() => host.state === ConnectionState.RECONNECTING);
+    await waitFor(() => host.state === ConnectionState.CONNECTED);
+
+    const lateJoiner = joinBoard('room', 'late');
+    await waitFor(() => colorOf(lateJoiner, 'shape') === 'drawn');
+  });
+});
@@ -0,0 +1,241 @@
+
+import { AudioPeer, ConnectionState, DrawingElement, LocalPresence, PresenceState, SyncOperation, SyncVersion } from '../types';
+
+export interface SyncPeer {
+  id: string;
+  name: string;
+  avatar: string;
+}
+
+interface BoardSyncConfig {
+  url: string;
+  roomId: string;
+  peer: SyncPeer;
+  onConnectionStateChange: (state: ConnectionState) => void;
+  onRemoteOperations: (ops: SyncOperation[]) => void;
+  getLocalElements: () => DrawingElement[]; // Published on (re)join so the room sees a board drawn before inviting
+  onPeersChange: (peers: SyncPeer[]) => void;
+  onPresence?: (presence: PresenceState) => void;
+}
+
+const PRESENCE_INTERVAL_MS = 40;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+// Messages exchanged with the relay (see server/relay.js)
+type ServerMessage =
+  | { type: 'welcome'; ops: SyncOperation[]; peers: SyncPeer[] }
+  | { type: 'ops'; ops: SyncOperation[] }
+  | { type: 'peers'; peers: SyncPeer[] }
+  | { type: 'presence'; presence: PresenceState };
+
+type ClientMessage =
+  | { type: 'join'; roomId: string; peer: SyncPeer }
+  | { type: 'ops'; ops: SyncOperation[] }
+  | { type: 'presence'; presence: PresenceState };
+
+interface ElementRecord {
+  element: DrawingElement | null; // null once deleted (tombstone)
+  version: SyncVersion;
+}
+
+export function compareVersions(a: SyncVersion, b: SyncVersion): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+// Applies winning operations to an element list, keeping existing z-order and appending new elements
+export function applyOperationsToElements(elements: DrawingElement[], ops: Omit<SyncOperation, 'version'>[]): DrawingElement[] {
+  let next = elements;
+  for (const op of ops) {
+    const index = next.findIndex(el => el.id === op.elementId);
+    if (op.kind === 'delete') {
+      if (index !== -1) next = next.filter(el => el.id !== op.elementId);
+    } else if (op.element) {
+      if (index === -1) next = [...next, op.element];
+      else next = next.map(el => el.id === op.elementId ? op.element! : el);
+    }
+  }
+  return next;
+}
+
+export const createRoomId = () => Math.random().toString(36).slice(2, 10);
+
+export class BoardSyncService {
+  private config: BoardSyncConfig;
+  private socket: WebSocket | null = null;
+  private clock = 0;
+  private records: Map<string, ElementRecord> = new Map();
+  private pending: SyncOperation[] = [];
+  private pendingPresence: PresenceState | null = null;
+  private presenceTimeout: number | null = null;
+  private lastPresenceSent = 0;
+  private reconnectAttempt = 0;
+  private reconnectTimeout: number | null = null;
+
+  constructor(config: BoardSyncConfig) {
+    this.config = config;
+  }
+
+  get clientId() {
+    return this.config.peer.id;
+  }
+
+  connect() {
+    if (this.socket) return;
+    this.config.onConnectionStateChange(this.reconnectAttempt > 0 ? ConnectionState.RECONNECTING : ConnectionState.CONNECTING);
+
+    const socket = new WebSocket(this.config.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempt = 0;
+      this.send({ type: 'join', roomId: this.config.roomId, peer: this.config.peer });
+      if (this.pending.length > 0) {
+        this.send({ type: 'ops', ops: this.pending });
+        this.pending = [];
+      }
+      this.config.onConnectionStateChange(ConnectionState.CONNECTED);
+    };
+    socket.onmessage = (event) => {
+      try {
+        this.handleServerMessage(JSON.parse(event.data));
+      } catch (e) {
+        console.error('Invalid sync message', e);
+      }
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return; // disconnect() already let go of it
+      this.socket = null;
+      this.scheduleReconnect();
+    };
+    socket.onerror = (err) => {
+      console.error('Board sync error', err); // onclose follows and schedules the retry
+    };
+  }
+
+  // Retries with exponential backoff until disconnect(); edits made meanwhile wait in `pending`
+  private scheduleReconnect() {
+    const backoff = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempt);
+    this.reconnectAttempt++;
+    this.config.onPeersChange([]);
+    this.config.onConnectionStateChange(ConnectionState.RECONNECTING);
+    this.reconnectTimeout = window.setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect();
+    }, backoff * (0.8 + Math.random() * 0.4));
+  }
+
+  disconnect() {
+    if (this.reconnectTimeout) {
+      window.clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.reconnectAttempt = 0;
+    if (this.presenceTimeout) {
+      window.clearTimeout(this.presenceTimeout);
+      this.presenceTimeout = null;
+    }
+    this.pendingPresence = null;
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.config.onPeersChange([]);
+    this.config.onConnectionStateChange(ConnectionState.DISCONNECTED);
+  }
+
+  // Diffs the local board against what the room last saw and broadcasts the changes
+  publish(elements: DrawingElement[]) {
+    const ops: SyncOperation[] = [];
+    const seen = new Set<string>();
+
+    for (const element of elements) {
+      seen.add(element.id);
+      const record = this.records.get(element.id);
+      if (record?.element === element) continue;
+      ops.push(this.localOperation(record?.element ? 'update' : 'add', element.id, element));
+    }
+    this.records.forEach((record, id) => {
+      if (record.element && !seen.has(id)) ops.push(this.localOperation('delete', id));
+    });
+
+    if (ops.length === 0) return;
+    if (this.socket?.readyState === WebSocket.OPEN) this.send({ type: 'ops', ops });
+    else this.pending.push(...ops);
+  }
+
+  // Throttled: the latest state always goes out, intermediate pointer positions may be dropped
+  publishPresence(presence: LocalPresence) {
+    const { id, name, avatar } = this.config.peer;
+    this.pendingPresence = { ...presence, id, name, avatar };
+    if (this.presenceTimeout) return;
+
+    const wait = Math.max(0, this.lastPresenceSent + PRESENCE_INTERVAL_MS - Date.now());
+    this.presenceTimeout = window.setTimeout(() => {
+      this.presenceTimeout = null;
+      if (!this.pendingPresence || this.socket?.readyState !== WebSocket.OPEN) return;
+      this.send({ type: 'presence', presence: this.pendingPresence });
+      this.pendingPresence = null;
+      this.lastPresenceSent = Date.now();
+    }, wait);
+  }
+
+  private localOperation(kind: SyncOperation['kind'], elementId: string, element?: DrawingElement): SyncOperation {
+    const version = { clock: ++this.clock, clientId: this.clientId };
+    this.records.set(elementId, { element: element ?? null, version });
+    return { kind, elementId, element, version };
+  }
+
+  // Last-writer-wins per element; returns only the operations that changed local state
+  private mergeRemote(ops: SyncOperation[]): SyncOperation[] {
+    const applied: SyncOperation[] = [];
+    for (const op of ops) {
+      this.clock = Math.max(this.clock, op.version.clock);
+      const record = this.records.get(op.elementId);
+      if (record && compareVersions(op.version, record.version) <= 0) continue;
+      this.records.set(op.elementId, { element: op.kind === 'delete' ? null : op.element ?? null, version: op.version });
+      applied.push(op);
+    }
+    return applied;
+  }
+
+  private handleServerMessage(message: ServerMessage) {
+    switch (message.type) {
+      case 'welcome': {
+        // The relay drops a room once its last client leaves; whatever it didn't replay must be sent again
+        const replayed = new Set(message.ops.map(op => op.elementId));
+        Array.from(this.records.keys()).forEach(id => { if (!replayed.has(id)) this.records.delete(id); });
+        const applied = this.mergeRemote(message.ops);
+        if (applied.length > 0) this.config.onRemoteOperations(applied);
+        this.config.onPeersChange(message.peers.filter(p => p.id !== this.clientId));
+        // Send whatever the room hasn't seen yet; the merged ops are already recorded, so only local elements go out
+        this.publish(applyOperationsToElements(this.config.getLocalElements(), applied));
+        break;
+      }
+      case 'ops': {
+        const applied = this.mergeRemote(message.ops.filter(op => op.version.clientId !== this.clientId));
+        if (applied.length > 0) this.config.onRemoteOperations(applied);
+        break;
+      }
+      case 'peers':
+        this.config.onPeersChange(message.peers.filter(p => p.id !== this.clientId));
+        break;
+      case 'presence':
+        if (message.presence.id !== this.clientId) this.config.onPresence?.(message.presence);
+        break;
+    }
+  }
+
+  private send(message: ClientMessage) {
+    this.socket?.send(JSON.stringify(message));
+  }
+}
+
+export const syncPeerToAudioPeer = (peer: SyncPeer): AudioPeer => ({
+  id: peer.id,
+  name: peer.name,
+  avatar: peer.avatar,
+  isSpeaking: false,
+  isMuted: true,
+  type: 'human'
+});
@@ -0,0 +1,203 @@
+
+import { Type } from '@google/genai';
+import { DrawingElement } from '../types';
+import { AiToolContext } from './aiToolRegistry';
+import { resolveLength, resolveX, resolveY } from './drawingTools';
+import { formatPrice, formatTime } from './chartAnchor';
+import { isElementLocked, isElementVisible } from './boardLayers';
+
+type StrokeStyle = NonNullable<DrawingElement['strokeStyle']>;
+
+const MAX_LISTED_ELEMENTS = 100; // Keeps tool responses small on busy boards
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+const boundsOf = (el: DrawingElement) => {
+  if (el.points && el.points.length > 0) {
+    const xs = el.points.map(p => p.x);
+    const ys = el.points.map(p => p.y);
+    return { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+  }
+  const width = el.width ?? 0;
+  const height = el.height ?? 0;
+  return { x: Math.min(el.x, el.x + width), y: Math.min(el.y, el.y + height), width: Math.abs(width), height: Math.abs(height) };
+};
+
+// Compact description of an element for the model, in frame pixels and, when the chart is calibrated, market terms
+const summarizeElement = (el: DrawingElement, context: AiToolContext, selectedIds: string[]) => {
+  const b = boundsOf(el);
+  const topLeft = context.worldToFrame({ x: b.x, y: b.y });
+  const bottomRight = context.worldToFrame({ x: b.x + b.width, y: b.y + b.height });
+  const summary: Record<string, unknown> = {
+    id: el.id,
+    type: el.type,
+    created_by: el.createdBy ?? 'user',
+    color: el.strokeColor,
+    x: round(topLeft.x),
+    y: round(topLeft.y),
+    width: round(bottomRight.x - topLeft.x),
+    height: round(bottomRight.y - topLeft.y)
+  };
+  if (el.strokeStyle && el.strokeStyle !== 'solid') summary.style = el.strokeStyle;
+  if (el.text) summary.text = el.text;
+  if (el.type === 'rectangle' && el.strokeWidth === 0) summary.fill = el.backgroundColor;
+  if (selectedIds.includes(el.id)) summary.selected = true;
+  const layers = context.getLayers();
+  if (isElementLocked(el, layers)) summary.locked = true;
+  if (!isElementVisible(el, layers)) summary.hidden = true;
+  if (el.groupId) summary.group = el.groupId;
+
+  const top = context.yToPrice(b.y);
+  const bottom = context.yToPrice(b.y + b.height);
+  if (top != null && bottom != null) {
+    summary.price_top = formatPrice(top);
+    if (b.height > 0) summary.price_bottom = formatPrice(bottom);
+    const start = context.xToTime(b.x);
+    if (start != null) summary.time_start = formatTime(start);
+  }
+  return summary;
+};
+
+const translateElement = (el: DrawingElement, dx: number, dy: number): DrawingElement => ({
+  ...el,
+  x: el.x + dx,
+  y: el.y + dy,
+  points: el.points?.map(p => ({ x: p.x + dx, y: p.y + dy }))
+});
+
+const findElement = (context: AiToolContext, id: string) => {
+  const el = context.getElements().find(e => e.id === id);
+  if (!el) throw new Error(`No element with id "${id}". Call list_elements to get current ids.`);
+  return el;
+};
+
+// Users lock elements (usually the chart screenshot) so they stay put
+const findEditableElement = (context: AiToolContext, id: string) => {
+  const el = findElement(context, id);
+  if (isElementLocked(el, context.getLayers())) throw new Error(`Element "${id}" is locked by the user. Ask them to unlock it first.`);
+  return el;
+};
+
+export const listElements = {
+  declaration: {
+    name: 'list_elements',
+    description: 'Lists the drawings currently on the board with their ids, type, author, color, position in visual frame pixels and (on a calibrated chart) prices. Locked elements cannot be changed; hidden ones are not in the visual frame. Call this before editing or deleting.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        type: { type: Type.STRING, description: 'Only list this element type (e.g., line, rectangle, text, arrow, long_position).' },
+        created_by: { type: Type.STRING, enum: ['user', 'ai'], description: 'Only list drawings made by the user or by you.' },
+        selected_only: { type: Type.BOOLEAN, description: 'Only list what the user has selected.' }
+      }
+    }
+  },
+  execute: (args: { type?: string; created_by?: 'user' | 'ai'; selected_only?: boolean }, context: AiToolContext) => {
+    const selectedIds = context.getSelectedIds();
+    const matches = context.getElements().filter(el =>
+      el.type !== 'image' &&
+      (!args.type || el.type === args.type) &&
+      (!args.created_by || (el.createdBy ?? 'user') === args.created_by) &&
+      (!args.selected_only || selectedIds.includes(el.id))
+    );
+    return {
+      status: 'ok',
+      total: matches.length,
+      elements: matches.slice(-MAX_LISTED_ELEMENTS).map(el => summarizeElement(el, context, selectedIds))
+    };
+  }
+};
+
+export const updateElement = {
+  declaration: {
+    name: 'update_element',
+    description: 'Edits an existing drawing: move it (to a price/time, to x/y, or by dx/dy), resize it, or change its color, style or text.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        id: { type: Type.STRING, description: 'Element id from list_elements.' },
+        price: { type: Type.NUMBER, description: 'Move the element vertically so its top sits at this price (e.g., move a level). Requires a calibrated chart.' },
+        time: { type: Type.STRING, description: 'Move the element horizontally so its left edge sits at this ISO 8601 time.' },
+        x: { type: Type.NUMBER, description: 'Move the element so its left edge is at this X pixel in the visual frame.' },
+        y: { type: Type.NUMBER, description: 'Move the element so its top edge is at this Y pixel in the visual frame.' },
+        dx: { type: Type.NUMBER, description: 'Move the element horizontally by this many frame pixels.' },
+        dy: { type: Type.NUMBER, description: 'Move the element vertically by this many frame pixels.' },
+        width: { type: Type.NUMBER, description: 'New width in frame pixels (shapes, lines and positions).' },
+        height: { type: Type.NUMBER, description: 'New height in frame pixels (shapes, lines and positions).' },
+        color: { type: Type.STRING, description: 'New stroke color.' },
+        style: { type: Type.STRING, enum: ['solid', 'dashed', 'dotted'], description: 'New line style.' },
+        text: { type: Type.STRING, description: 'New text, for text elements.' }
+      },
+      required: ['id']
+    }
+  },
+  execute: async (args: {
+    id: string; price?: number; time?: string; x?: number; y?: number; dx?: number; dy?: number;
+    width?: number; height?: number; color?: string; style?: StrokeStyle; text?: string;
+  }, context: AiToolContext) => {
+    const original = findEditableElement(context, args.id);
+    if (args.text != null && original.type !== 'text') throw new Error('Only text elements have text.');
+    const b = boundsOf(original);
+
+    let dx = resolveLength(context, args.dx ?? 0);
+    let dy = resolveLength(context, args.dy ?? 0);
+    if (args.price != null || args.y != null) dy = resolveY(context, args.price, args.y, 'update') - b.y;
+    if (args.time != null || args.x != null) dx = resolveX(context, args.time, args.x, 'update') - b.x;
+
+    const next = dx !== 0 || dy !== 0 ? translateElement(original, dx, dy) : { ...original };
+    if (args.width != null && !next.points) next.width = Math.sign(next.width || 1) * resolveLength(context, args.width);
+    if (args.height != null && !next.points) next.height = Math.sign(next.height || 1) * resolveLength(context, args.height);
+    if (args.color) {
+      // Borderless zones carry their color in the fill
+      if (next.type === 'rectangle' && next.strokeWidth === 0) next.backgroundColor = args.color;
+      else next.strokeColor = args.color;
+    }
+    if (args.style) next.strokeStyle = args.style;
+    if (args.text != null) next.text = args.text;
+
+    const accepted = await context.updateElements([next]);
+    if (!accepted) return { status: 'rejected', message: 'The user rejected this edit; the element is unchanged.' };
+    return { status: 'accepted', element: summarizeElement(next, context, context.getSelectedIds()) };
+  }
+};
+
+export const deleteElement = {
+  declaration: {
+    name: 'delete_element',
+    description: 'Deletes one or more drawings from the board. Only delete drawings the user made when they ask you to.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        ids: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Element ids from list_elements.' }
+      },
+      required: ['ids']
+    }
+  },
+  execute: async (args: { ids: string[] }, context: AiToolContext) => {
+    const ids = args.ids ?? [];
+    if (ids.length === 0) throw new Error('No ids given.');
+    ids.forEach(id => findEditableElement(context, id));
+    const accepted = await context.deleteElements(ids);
+    if (!accepted) return { status: 'rejected', message: 'The user rejected the deletion; the elements were kept.' };
+    return { status: 'accepted', deleted: ids };
+  }
+};
+
+export const selectElements = {
+  declaration: {
+    name: 'select_elements',
+    description: 'Selects drawings on the user\'s board to point them out. An empty list clears the selection.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        ids: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Element ids from list_elements.' }
+      },
+      required: ['ids']
+    }
+  },
+  execute: (args: { ids: string[] }, context: AiToolContext) => {
+    const ids = args.ids ?? [];
+    ids.forEach(id => findElement(context, id));
+    context.selectElements(ids);
+    return { status: 'ok', selected: ids };
+  }
+};
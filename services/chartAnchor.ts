@@ -0,0 +1,116 @@
+
+import { ChartCalibration, DrawingElement, Point, PriceTimeAnchor } from '../types';
+
+export interface ChartAxis {
+  yToPrice: (y: number) => number;
+  priceToY: (price: number) => number;
+  xToTime: (x: number) => number;
+  timeToX: (time: number) => number;
+}
+
+// Builds world-space price/time mappings from a calibration and the current position of its chart image
+export function resolveChartAxis(calibration: ChartCalibration | null, elements: DrawingElement[]): ChartAxis | null {
+  if (!calibration) return null;
+  const image = elements.find(el => el.id === calibration.imageId);
+  if (!image || !image.width || !image.height) return null;
+
+  const [p1, p2] = calibration.prices;
+  const [t1, t2] = calibration.times;
+  const y1 = image.y + p1.ry * image.height;
+  const y2 = image.y + p2.ry * image.height;
+  const x1 = image.x + t1.rx * image.width;
+  const x2 = image.x + t2.rx * image.width;
+  if (y1 === y2 || x1 === x2 || p1.price === p2.price || t1.time === t2.time) return null;
+
+  const pricePerPx = (p2.price - p1.price) / (y2 - y1);
+  const timePerPx = (t2.time - t1.time) / (x2 - x1);
+
+  return {
+    yToPrice: (y) => p1.price + (y - y1) * pricePerPx,
+    priceToY: (price) => y1 + (price - p1.price) / pricePerPx,
+    xToTime: (x) => t1.time + (x - x1) * timePerPx,
+    timeToX: (time) => x1 + (time - t1.time) / timePerPx
+  };
+}
+
+export function anchorForPoint(axis: ChartAxis, point: Point): PriceTimeAnchor {
+  return { price: axis.yToPrice(point.y), time: axis.xToTime(point.x) };
+}
+
+export function pointForAnchor(axis: ChartAxis, anchor: PriceTimeAnchor): Point {
+  return { x: axis.timeToX(anchor.time), y: axis.priceToY(anchor.price) };
+}
+
+// Start and end points of an element in world space; images are the chart itself and are never anchored
+export function anchorPoints(element: DrawingElement): Point[] {
+  if (element.type === 'image') return [];
+  if (element.type === 'pencil' || element.type === 'path') {
+    const pts = element.points || [];
+    return pts.length > 0 ? [pts[0], pts[pts.length - 1]] : [];
+  }
+  if (element.type === 'text') return [{ x: element.x, y: element.y }];
+  return [
+    { x: element.x, y: element.y },
+    { x: element.x + (element.width || 0), y: element.y + (element.height || 0) }
+  ];
+}
+
+export function anchorElement(element: DrawingElement, axis: ChartAxis | null): DrawingElement {
+  if (!axis) return element;
+  const points = anchorPoints(element);
+  if (points.length === 0) return element;
+  return { ...element, anchors: points.map(p => anchorForPoint(axis, p)) };
+}
+
+// Moves an anchored element back onto its price/time anchors, e.g. after the chart image was moved or resized
+export function projectElement(element: DrawingElement, axis: ChartAxis | null): DrawingElement {
+  if (!axis || !element.anchors || element.anchors.length === 0) return element;
+  const current = anchorPoints(element);
+  if (current.length === 0) return element;
+
+  const start = pointForAnchor(axis, element.anchors[0]);
+  if (element.type === 'pencil' || element.type === 'path' || element.type === 'text' || element.anchors.length < 2) {
+    const dx = start.x - current[0].x;
+    const dy = start.y - current[0].y;
+    return {
+      ...element,
+      x: element.x + dx,
+      y: element.y + dy,
+      points: element.points?.map(p => ({ x: p.x + dx, y: p.y + dy }))
+    };
+  }
+
+  const end = pointForAnchor(axis, element.anchors[1]);
+  return { ...element, x: start.x, y: start.y, width: end.x - start.x, height: end.y - start.y };
+}
+
+// Normalized position of a world point inside an image element
+export function relativeToImage(image: DrawingElement, point: Point): { rx: number; ry: number } {
+  return {
+    rx: (point.x - image.x) / (image.width || 1),
+    ry: (point.y - image.y) / (image.height || 1)
+  };
+}
+
+export function formatPrice(price: number): string {
+  const abs = Math.abs(price);
+  const digits = abs >= 1000 ? 2 : abs >= 10 ? 3 : 5;
+  return price.toFixed(digits);
+}
+
+export function formatTime(time: number): string {
+  const date = new Date(time);
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+}
+
+export function parsePriceInput(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const price = Number(value.replace(/,/g, ''));
+  return Number.isFinite(price) ? price : null;
+}
+
+export function parseTimeInput(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
@@ -0,0 +1,335 @@
+
+import { Schema, Type } from '@google/genai';
+import { DrawingElement, Point } from '../types';
+import { AiToolContext } from './aiToolRegistry';
+import { formatPrice } from './chartAnchor';
+
+// Board coordinates or market coordinates; market ones need a calibrated chart
+interface PointArgs {
+  x?: number;
+  y?: number;
+  price?: number;
+  time?: string;
+}
+
+type StrokeStyle = NonNullable<DrawingElement['strokeStyle']>;
+
+const FIB_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+const DEFAULT_POSITION_WIDTH = 200;
+
+const pointSchema = (description: string): Schema => ({
+  type: Type.OBJECT,
+  description: `${description} Give price/time when the chart is calibrated, otherwise x/y pixel coordinates in the visual frame.`,
+  properties: {
+    price: { type: Type.NUMBER, description: 'Market price (e.g., 1.08520).' },
+    time: { type: Type.STRING, description: 'Candle time as ISO 8601 (e.g., 2024-05-01T14:00:00Z).' },
+    x: { type: Type.NUMBER, description: 'X pixel in the visual frame. Used when no time is given.' },
+    y: { type: Type.NUMBER, description: 'Y pixel in the visual frame. Used when no price is given.' }
+  }
+});
+
+const colorSchema = (example: string): Schema => ({ type: Type.STRING, description: `Stroke color (e.g., ${example}).` });
+const styleSchema: Schema = { type: Type.STRING, enum: ['solid', 'dashed', 'dotted'], description: 'Line style.' };
+
+export const createElementId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const baseElement = (type: DrawingElement['type'], color: string | undefined, fallback: string): DrawingElement => ({
+  id: createElementId(),
+  type,
+  x: 0,
+  y: 0,
+  strokeColor: color || fallback,
+  backgroundColor: 'transparent',
+  strokeWidth: 2,
+  createdBy: 'ai'
+});
+
+export function resolveY(context: AiToolContext, price: number | undefined, y: number | undefined, label: string): number {
+  if (price != null) {
+    const resolved = context.priceToY(price);
+    if (resolved == null) throw new Error(`${label}: chart is not calibrated; provide y instead of price.`);
+    return resolved;
+  }
+  if (y == null) throw new Error(`${label}: provide a price or a y coordinate.`);
+  return context.frameToWorld({ x: 0, y }).y;
+}
+
+export function resolveX(context: AiToolContext, time: string | undefined, x: number | undefined, label: string): number {
+  if (time != null) {
+    const ms = Date.parse(time);
+    if (Number.isNaN(ms)) throw new Error(`${label}: invalid time "${time}".`);
+    const resolved = context.timeToX(ms);
+    if (resolved == null) throw new Error(`${label}: chart is not calibrated; provide x instead of time.`);
+    return resolved;
+  }
+  if (x == null) throw new Error(`${label}: provide a time or an x coordinate.`);
+  return context.frameToWorld({ x, y: 0 }).x;
+}
+
+// Converts a distance in frame pixels to board units
+export function resolveLength(context: AiToolContext, length: number): number {
+  return context.frameToWorld({ x: length, y: 0 }).x - context.frameToWorld({ x: 0, y: 0 }).x;
+}
+
+const resolvePoint = (context: AiToolContext, point: PointArgs | undefined, label: string): Point => {
+  if (!point) throw new Error(`Missing ${label}.`);
+  return { x: resolveX(context, point.time, point.x, label), y: resolveY(context, point.price, point.y, label) };
+};
+
+const textElement = (text: string, at: Point, color: string, fontSize: number = 16): DrawingElement => ({
+  ...baseElement('text', color, color),
+  x: at.x,
+  y: at.y,
+  text,
+  fontSize,
+  fontFamily: 'Inter',
+  strokeWidth: 1
+});
+
+// Waits for the user's decision so the model learns whether its drawing landed
+const commit = async (context: AiToolContext, elements: DrawingElement[]) => {
+  const accepted = await context.addElements(elements);
+  return accepted
+    ? { status: 'accepted', elementIds: elements.map(el => el.id) }
+    : { status: 'rejected', message: 'The user rejected this drawing; it was not added.' };
+};
+
+// --- Tools ---
+
+export const drawLevel = {
+  declaration: {
+    name: 'draw_level',
+    description: 'Draws a horizontal support or resistance line at a specific price level. Prefer "price" when the chart is calibrated; otherwise use the Y-coordinate.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        price: { type: Type.NUMBER, description: 'The market price of the level (e.g., 1.08520). Requires a calibrated chart.' },
+        y: { type: Type.NUMBER, description: 'The Y pixel in the visual frame to draw the line at. Used when no price is given.' },
+        color: { type: Type.STRING, description: 'Color of the line (e.g., #FF0000 for resistance, #00FF00 for support).' },
+        label: { type: Type.STRING, description: 'Text label for the level (e.g., "Daily Resistance").' }
+      },
+      required: ['color']
+    }
+  },
+  execute: (args: { price?: number; y?: number; color?: string; label?: string }, context: AiToolContext) => {
+    const y = resolveY(context, args.price, args.y, 'level');
+    const left = resolveX(context, undefined, 0, 'level');
+    const line: DrawingElement = {
+      ...baseElement('line', args.color, '#ff0000'),
+      x: left,
+      y,
+      width: resolveLength(context, context.frameWidth), // Spans the visible frame
+      height: 0,
+      strokeStyle: 'dashed'
+    };
+    const elements = [line];
+    if (args.label) elements.push(textElement(args.label, { x: left + resolveLength(context, 8), y: y - 22 }, line.strokeColor, 14));
+    return commit(context, elements);
+  }
+};
+
+export const drawZone = {
+  declaration: {
+    name: 'draw_zone',
+    description: 'Draws a rectangular highlight zone to mark consolidation or supply/demand areas.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        x: { type: Type.NUMBER, description: 'Top-left X pixel in the visual frame.' },
+        y: { type: Type.NUMBER, description: 'Top-left Y pixel in the visual frame.' },
+        width: { type: Type.NUMBER, description: 'Width of the zone in frame pixels.' },
+        height: { type: Type.NUMBER, description: 'Height of the zone in frame pixels.' },
+        color: { type: Type.STRING, description: 'Color of the zone.' }
+      },
+      required: ['x', 'y', 'width', 'height']
+    }
+  },
+  execute: (args: { x: number; y: number; width: number; height: number; color?: string }, context: AiToolContext) =>
+    commit(context, [{
+      ...baseElement('rectangle', 'transparent', 'transparent'),
+      x: resolveX(context, undefined, args.x, 'zone'),
+      y: resolveY(context, undefined, args.y, 'zone'),
+      width: resolveLength(context, args.width),
+      height: resolveLength(context, args.height),
+      backgroundColor: args.color || 'rgba(0, 255, 0, 0.2)',
+      strokeWidth: 0,
+      opacity: 50
+    }])
+};
+
+export const drawTrendline = {
+  declaration: {
+    name: 'draw_trendline',
+    description: 'Draws a straight trendline between two points, e.g. connecting swing highs or swing lows.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        start: pointSchema('First anchor of the trendline.'),
+        end: pointSchema('Second anchor of the trendline.'),
+        color: colorSchema('#2962FF'),
+        style: styleSchema
+      },
+      required: ['start', 'end']
+    }
+  },
+  execute: (args: { start: PointArgs; end: PointArgs; color?: string; style?: StrokeStyle }, context: AiToolContext) => {
+    const start = resolvePoint(context, args.start, 'start');
+    const end = resolvePoint(context, args.end, 'end');
+    return commit(context, [{
+      ...baseElement('line', args.color, '#2962ff'),
+      x: start.x,
+      y: start.y,
+      width: end.x - start.x,
+      height: end.y - start.y,
+      strokeStyle: args.style ?? 'solid'
+    }]);
+  }
+};
+
+export const addText = {
+  declaration: {
+    name: 'add_text',
+    description: 'Writes a short text annotation on the board, e.g. "BOS", "Liquidity sweep" or "HH".',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        text: { type: Type.STRING, description: 'The annotation text. Use \\n for line breaks.' },
+        position: pointSchema('Top-left corner of the text.'),
+        color: colorSchema('#111827'),
+        font_size: { type: Type.NUMBER, description: 'Font size in pixels (default 16).' }
+      },
+      required: ['text', 'position']
+    }
+  },
+  execute: (args: { text: string; position: PointArgs; color?: string; font_size?: number }, context: AiToolContext) => {
+    if (!args.text?.trim()) throw new Error('Text is empty.');
+    const at = resolvePoint(context, args.position, 'position');
+    return commit(context, [textElement(args.text, at, args.color || '#111827', args.font_size)]);
+  }
+};
+
+export const drawArrow = {
+  declaration: {
+    name: 'draw_arrow',
+    description: 'Draws an arrow callout pointing at a feature on the chart, with an optional label at its tail.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        from: pointSchema('Tail of the arrow, where the label goes.'),
+        to: pointSchema('Point the arrow head points at.'),
+        color: colorSchema('#F59E0B'),
+        label: { type: Type.STRING, description: 'Optional callout text placed at the tail.' }
+      },
+      required: ['from', 'to']
+    }
+  },
+  execute: (args: { from: PointArgs; to: PointArgs; color?: string; label?: string }, context: AiToolContext) => {
+    const from = resolvePoint(context, args.from, 'from');
+    const to = resolvePoint(context, args.to, 'to');
+    const arrow: DrawingElement = {
+      ...baseElement('arrow', args.color, '#f59e0b'),
+      x: from.x,
+      y: from.y,
+      width: to.x - from.x,
+      height: to.y - from.y,
+      endArrowhead: 'arrow'
+    };
+    const elements = [arrow];
+    if (args.label) {
+      // Keep the label clear of the arrow by placing it on the side away from the head
+      const above = to.y >= from.y;
+      elements.push(textElement(args.label, { x: from.x, y: above ? from.y - 24 : from.y + 6 }, arrow.strokeColor));
+    }
+    return commit(context, elements);
+  }
+};
+
+export const drawPosition = {
+  declaration: {
+    name: 'draw_position',
+    description: 'Draws a long or short position box showing entry, stop loss and take profit, with risk/reward.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        side: { type: Type.STRING, enum: ['long', 'short'], description: 'Trade direction.' },
+        entry_price: { type: Type.NUMBER, description: 'Entry price. Requires a calibrated chart.' },
+        stop_price: { type: Type.NUMBER, description: 'Stop loss price. Requires a calibrated chart.' },
+        target_price: { type: Type.NUMBER, description: 'Take profit price. Requires a calibrated chart.' },
+        entry_y: { type: Type.NUMBER, description: 'Entry Y pixel in the visual frame, when no price is given.' },
+        stop_y: { type: Type.NUMBER, description: 'Stop loss Y pixel in the visual frame, when no price is given.' },
+        target_y: { type: Type.NUMBER, description: 'Take profit Y pixel in the visual frame, when no price is given.' },
+        time: { type: Type.STRING, description: 'Entry candle time as ISO 8601; the box starts here.' },
+        x: { type: Type.NUMBER, description: 'Left X pixel of the box in the visual frame, when no time is given.' },
+        width: { type: Type.NUMBER, description: `Width of the box in frame pixels (default ${DEFAULT_POSITION_WIDTH}).` }
+      },
+      required: ['side']
+    }
+  },
+  execute: (args: {
+    side: 'long' | 'short';
+    entry_price?: number; stop_price?: number; target_price?: number;
+    entry_y?: number; stop_y?: number; target_y?: number;
+    time?: string; x?: number; width?: number;
+  }, context: AiToolContext) => {
+    const entryY = resolveY(context, args.entry_price, args.entry_y, 'entry');
+    const stopY = resolveY(context, args.stop_price, args.stop_y, 'stop');
+    const targetY = resolveY(context, args.target_price, args.target_y, 'target');
+    const isLong = args.side !== 'short';
+    // Canvas y grows downwards, so a long's target sits above its entry
+    if (isLong ? !(targetY < entryY && entryY < stopY) : !(stopY < entryY && entryY < targetY)) {
+      throw new Error(`For a ${isLong ? 'long' : 'short'} position the entry must lie between stop and target, with the target ${isLong ? 'above' : 'below'} the entry.`);
+    }
+    const top = Math.min(stopY, targetY);
+    const bottom = Math.max(stopY, targetY);
+    return commit(context, [{
+      ...baseElement(isLong ? 'long_position' : 'short_position', undefined, '#6b7280'),
+      x: resolveX(context, args.time, args.x, 'position'),
+      y: top,
+      width: resolveLength(context, args.width ?? DEFAULT_POSITION_WIDTH),
+      height: bottom - top,
+      customData: { entryRatio: (entryY - top) / (bottom - top) }
+    }]);
+  }
+};
+
+export const drawFibonacci = {
+  declaration: {
+    name: 'draw_fibonacci',
+    description: 'Draws a Fibonacci retracement between a swing start and swing end, with a labelled line at each level.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        start: pointSchema('Start of the swing (the 100% level).'),
+        end: pointSchema('End of the swing (the 0% level).'),
+        levels: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: `Ratios to draw (default ${FIB_LEVELS.join(', ')}).` },
+        color: colorSchema('#8B5CF6')
+      },
+      required: ['start', 'end']
+    }
+  },
+  execute: (args: { start: PointArgs; end: PointArgs; levels?: number[]; color?: string }, context: AiToolContext) => {
+    const start = resolvePoint(context, args.start, 'start');
+    const end = resolvePoint(context, args.end, 'end');
+    const levels = args.levels && args.levels.length > 0 ? args.levels : FIB_LEVELS;
+    const left = Math.min(start.x, end.x);
+    const width = Math.max(Math.abs(end.x - start.x), resolveLength(context, 40));
+    const hasPrices = args.start.price != null && args.end.price != null;
+
+    const elements = levels.flatMap(ratio => {
+      const y = end.y + (start.y - end.y) * ratio;
+      const line: DrawingElement = {
+        ...baseElement('line', args.color, '#8b5cf6'),
+        x: left,
+        y,
+        width,
+        height: 0,
+        strokeWidth: 1,
+        strokeStyle: ratio === 0 || ratio === 1 ? 'solid' : 'dashed'
+      };
+      const price = hasPrices ? args.end.price! + (args.start.price! - args.end.price!) * ratio : null;
+      const label = price != null ? `${ratio} (${formatPrice(price)})` : `${ratio}`;
+      return [line, textElement(label, { x: left + width + 6, y: y - 8 }, line.strokeColor, 12)];
+    });
+    return commit(context, elements);
+  }
+};
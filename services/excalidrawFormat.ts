@@ -0,0 +1,308 @@
+
+import { DrawingElement, DrawingImportResult, Point } from '../types';
+
+export const EXCALIDRAW_FILE_EXTENSION = '.excalidraw';
+
+// Subset of the Excalidraw element schema that we read and write
+interface ExcalidrawElement {
+  id: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  angle: number;
+  strokeColor: string;
+  backgroundColor: string;
+  fillStyle: string;
+  strokeWidth: number;
+  strokeStyle: 'solid' | 'dashed' | 'dotted';
+  roughness: number;
+  opacity: number;
+  groupIds: string[];
+  frameId: string | null;
+  roundness: null;
+  seed: number;
+  version: number;
+  versionNonce: number;
+  isDeleted: boolean;
+  boundElements: null;
+  updated: number;
+  link: null;
+  locked: boolean;
+  points?: [number, number][];
+  startArrowhead?: string | null;
+  endArrowhead?: string | null;
+  text?: string;
+  originalText?: string;
+  fontSize?: number;
+  fontFamily?: number;
+  textAlign?: string;
+  verticalAlign?: string;
+  containerId?: string | null;
+  lineHeight?: number;
+  fileId?: string;
+  status?: string;
+  scale?: [number, number];
+  pressures?: number[];
+  simulatePressure?: boolean;
+  customData?: { annotate?: Partial<DrawingElement> };
+}
+
+interface ExcalidrawFile {
+  id: string;
+  mimeType: string;
+  dataURL: string;
+  created: number;
+}
+
+// Excalidraw font ids: 1 Virgil, 2 Helvetica, 3 Cascadia, 5 Excalifont, 6 Nunito, 8 Comic Shanns
+const FONT_FROM_EXCALIDRAW: Record<number, string> = { 1: 'Kalam', 2: 'Inter', 3: 'monospace', 5: 'Kalam', 6: 'Inter', 8: 'monospace' };
+const FONT_TO_EXCALIDRAW: Record<string, number> = { Kalam: 1, Inter: 2, serif: 2, monospace: 3 };
+
+const toArrowhead = (head: string | null | undefined): DrawingElement['endArrowhead'] => {
+  if (head === 'arrow' || head === 'triangle' || head === 'triangle_outline') return 'arrow';
+  if (head === 'dot' || head === 'circle' || head === 'circle_outline') return 'dot';
+  return null;
+};
+
+export const isExcalidrawFile = (raw: any) =>
+  raw != null && typeof raw === 'object' && (raw.type === 'excalidraw' || raw.type === 'excalidraw/clipboard') && Array.isArray(raw.elements);
+
+const countInto = (counts: Record<string, number>, type: string) => {
+  counts[type] = (counts[type] ?? 0) + 1;
+};
+
+// Excalidraw rotates around the center of the element's box
+const rotatePoints = (points: Point[], angle: number): Point[] => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const cx = (Math.min(...xs) + Math.max(...xs)) / 2;
+  const cy = (Math.min(...ys) + Math.max(...ys)) / 2;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return points.map(p => ({ x: cx + (p.x - cx) * cos - (p.y - cy) * sin, y: cy + (p.x - cx) * sin + (p.y - cy) * cos }));
+};
+
+export function importExcalidraw(raw: any): DrawingImportResult {
+  if (!isExcalidrawFile(raw)) throw new Error('Not an Excalidraw file');
+  const files: Record<string, ExcalidrawFile> = raw.files ?? {};
+  const elements: DrawingElement[] = [];
+  const unsupported: Record<string, number> = {};
+  const approximated: Record<string, number> = {};
+
+  (raw.elements as ExcalidrawElement[]).forEach((ex, index) => {
+    if (!ex || ex.isDeleted) return;
+    const angle = Number(ex.angle) || 0;
+    // Lines and strokes are rotated point by point; boxes and text can't be, so they import upright
+    const pushUpright = (element: DrawingElement) => {
+      if (angle !== 0) countInto(approximated, `${element.type} (rotation dropped)`);
+      elements.push(element);
+    };
+    const base: DrawingElement = {
+      id: ex.id != null ? String(ex.id) : `${Date.now()}-${index}`,
+      type: 'rectangle',
+      x: Number(ex.x) || 0,
+      y: Number(ex.y) || 0,
+      width: Number(ex.width) || 0,
+      height: Number(ex.height) || 0,
+      strokeColor: ex.strokeColor ?? '#000000',
+      backgroundColor: ex.backgroundColor ?? 'transparent',
+      strokeWidth: ex.strokeWidth ?? 2,
+      strokeStyle: ex.strokeStyle ?? 'solid',
+      opacity: ex.opacity ?? 100
+    };
+    // Nested Excalidraw groups flatten to their outermost group
+    if (ex.groupIds?.length) base.groupId = String(ex.groupIds[ex.groupIds.length - 1]);
+
+    // Shapes we exported ourselves carry their original type (e.g. position tools)
+    const annotate = ex.customData?.annotate;
+    if (annotate?.type) {
+      // Excalidraw boxes are normalized; undo that for elements drawn with a negative width/height
+      const width = annotate.width ?? base.width!;
+      const height = annotate.height ?? base.height!;
+      pushUpright({ ...base, ...annotate, id: base.id, x: base.x - Math.min(0, width), y: base.y - Math.min(0, height), width, height });
+      return;
+    }
+
+    const localPoints: Point[] = (ex.points ?? []).map(([px, py]) => ({ x: base.x + px, y: base.y + py }));
+    const points = angle !== 0 && localPoints.length > 0 ? rotatePoints(localPoints, angle) : localPoints;
+
+    switch (ex.type) {
+      case 'rectangle':
+      case 'diamond':
+      case 'ellipse':
+        pushUpright({ ...base, type: ex.type });
+        break;
+      case 'arrow':
+      case 'line': {
+        if (points.length < 2) return;
+        const startArrowhead = toArrowhead(ex.startArrowhead);
+        const endArrowhead = toArrowhead(ex.endArrowhead);
+        if (points.length === 2) {
+          const [start, end] = points;
+          elements.push({
+            ...base,
+            // Our arrow type always draws an end head, so arrows without one become lines
+            type: endArrowhead === 'arrow' ? 'arrow' : 'line',
+            x: start.x,
+            y: start.y,
+            width: end.x - start.x,
+            height: end.y - start.y,
+            startArrowhead,
+            endArrowhead
+          });
+        } else {
+          elements.push({ ...base, type: 'path', points, width: undefined, height: undefined, startArrowhead, endArrowhead });
+        }
+        break;
+      }
+      case 'freedraw':
+        if (points.length === 0) return;
+        elements.push({ ...base, type: 'pencil', points, width: undefined, height: undefined });
+        break;
+      case 'text':
+        pushUpright({
+          ...base,
+          type: 'text',
+          text: ex.originalText ?? ex.text ?? '',
+          fontSize: ex.fontSize ?? 20,
+          fontFamily: FONT_FROM_EXCALIDRAW[ex.fontFamily ?? 1] ?? 'Kalam',
+          textAlign: ex.textAlign === 'center' || ex.textAlign === 'right' ? ex.textAlign : 'left'
+        });
+        break;
+      case 'image': {
+        const file = ex.fileId ? files[ex.fileId] : undefined;
+        if (!file?.dataURL) {
+          countInto(unsupported, 'image (missing file)');
+          return;
+        }
+        pushUpright({ ...base, type: 'image', imageData: file.dataURL, strokeColor: 'transparent', strokeWidth: 0 });
+        break;
+      }
+      default:
+        countInto(unsupported, String(ex.type));
+    }
+  });
+
+  return { elements, unsupported, approximated };
+}
+
+const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+const mimeTypeOf = (dataUrl: string) => dataUrl.match(/^data:([^;,]+)/)?.[1] ?? 'image/png';
+
+export function exportExcalidraw(elements: DrawingElement[], background: string): string {
+  const files: Record<string, ExcalidrawFile> = {};
+  const now = Date.now();
+
+  const out = elements.map((el): ExcalidrawElement => {
+    const width = el.width ?? 0;
+    const height = el.height ?? 0;
+    const base: ExcalidrawElement = {
+      id: el.id,
+      type: el.type,
+      x: Math.min(el.x, el.x + width),
+      y: Math.min(el.y, el.y + height),
+      width: Math.abs(width),
+      height: Math.abs(height),
+      angle: 0,
+      strokeColor: el.strokeColor,
+      backgroundColor: el.backgroundColor || 'transparent',
+      fillStyle: 'solid',
+      strokeWidth: el.strokeWidth,
+      strokeStyle: el.strokeStyle ?? 'solid',
+      roughness: 0,
+      opacity: el.opacity ?? 100,
+      groupIds: el.groupId ? [el.groupId] : [],
+      frameId: null,
+      roundness: null,
+      seed: randomSeed(),
+      version: 1,
+      versionNonce: randomSeed(),
+      isDeleted: false,
+      boundElements: null,
+      updated: now,
+      link: null,
+      locked: false
+    };
+
+    const relativePoints = (pts: Point[]) => {
+      const xs = pts.map(p => p.x);
+      const ys = pts.map(p => p.y);
+      return {
+        x: pts[0].x,
+        y: pts[0].y,
+        width: Math.max(...xs) - Math.min(...xs),
+        height: Math.max(...ys) - Math.min(...ys),
+        points: pts.map(p => [p.x - pts[0].x, p.y - pts[0].y] as [number, number])
+      };
+    };
+
+    switch (el.type) {
+      case 'arrow':
+      case 'line':
+        return {
+          ...base,
+          x: el.x,
+          y: el.y,
+          points: [[0, 0], [width, height]],
+          startArrowhead: el.startArrowhead ?? null,
+          endArrowhead: el.type === 'arrow' ? (el.endArrowhead || 'arrow') : (el.endArrowhead ?? null)
+        };
+      case 'path': {
+        const pts = el.points ?? [];
+        if (pts.length === 0) return { ...base, type: 'line', points: [[0, 0]] };
+        return {
+          ...base,
+          ...relativePoints(pts),
+          type: el.startArrowhead || el.endArrowhead ? 'arrow' : 'line',
+          startArrowhead: el.startArrowhead ?? null,
+          endArrowhead: el.endArrowhead ?? null
+        };
+      }
+      case 'pencil': {
+        const pts = el.points ?? [];
+        if (pts.length === 0) return { ...base, type: 'freedraw', points: [[0, 0]], pressures: [], simulatePressure: true };
+        return { ...base, ...relativePoints(pts), type: 'freedraw', pressures: [], simulatePressure: true };
+      }
+      case 'text':
+        return {
+          ...base,
+          text: el.text ?? '',
+          originalText: el.text ?? '',
+          fontSize: el.fontSize ?? 24,
+          fontFamily: FONT_TO_EXCALIDRAW[el.fontFamily ?? 'Kalam'] ?? 1,
+          textAlign: el.textAlign ?? 'left',
+          verticalAlign: 'top',
+          containerId: null,
+          lineHeight: 1.2
+        };
+      case 'image': {
+        if (!el.imageData) return { ...base, type: 'rectangle' };
+        files[el.id] = { id: el.id, mimeType: mimeTypeOf(el.imageData), dataURL: el.imageData, created: now };
+        return { ...base, fileId: el.id, status: 'saved', scale: [1, 1] };
+      }
+      case 'long_position':
+      case 'short_position':
+        // No Excalidraw equivalent: export the box and keep the original so it round-trips
+        return {
+          ...base,
+          type: 'rectangle',
+          strokeColor: el.type === 'long_position' ? '#15803d' : '#b91c1c',
+          customData: { annotate: { type: el.type, width: el.width, height: el.height, customData: el.customData } }
+        };
+      default:
+        return base;
+    }
+  });
+
+  return JSON.stringify({
+    type: 'excalidraw',
+    version: 2,
+    source: window.location.origin,
+    elements: out,
+    appState: { viewBackgroundColor: background, gridSize: null },
+    files
+  });
+}
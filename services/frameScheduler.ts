@@ -0,0 +1,180 @@
+
+import { composeVisualFrame, FrameTransform, scaleFrameTransform, VisualFrameOptions } from './visualFrame';
+
+export interface FrameStats {
+  sent: number;
+  skipped: number; // Ticks where the board looked the same as the last frame sent
+  bytesSent: number;
+  bytesPerSecond: number; // Over the budget window
+  quality: number; // Current JPEG quality
+  resolution: number; // Current frame size relative to the canvas
+}
+
+export interface FrameCapture {
+  canvas: HTMLCanvasElement;
+  transform: FrameTransform;
+  options: Omit<VisualFrameOptions, 'resolution'>;
+}
+
+interface FrameSchedulerConfig {
+  capture: () => FrameCapture | null;
+  onFrame: (base64data: string, transform: FrameTransform) => void; // transform maps the frame's pixels to the board
+  onStats?: (stats: FrameStats) => void;
+  intervalMs?: number;
+  bytesPerSecondBudget?: number;
+}
+
+const DEFAULT_INTERVAL_MS = 1000;
+const DEFAULT_BYTES_PER_SECOND = 48 * 1024;
+const BUDGET_WINDOW_MS = 10000;
+const MIN_SEND_GAP_MS = 250; // Bursts of edits collapse into one frame
+const EDIT_SETTLE_MS = 100; // Lets the canvas repaint before an edit is captured
+const CHANGE_THRESHOLD = 0.03; // Largest per-pixel luminance change (0-1) below which a frame counts as unchanged; thin lines only touch a few thumbnail pixels
+const THUMB_WIDTH = 64;
+const THUMB_HEIGHT = 36;
+const MIN_QUALITY = 0.3;
+const MAX_QUALITY = 0.8;
+const MIN_RESOLUTION = 0.4;
+
+// Streams board frames to the model only when they change, within a bandwidth budget
+export class FrameScheduler {
+  private config: FrameSchedulerConfig;
+  private interval: number | null = null;
+  private editTimeout: number | null = null;
+  private thumbCanvas: HTMLCanvasElement = document.createElement('canvas');
+  private lastThumb: Uint8Array | null = null;
+  private lastTransform: FrameTransform | null = null;
+  private lastSentAt = 0;
+  private forceNext = false; // Set by requestFrame(); skips the unchanged check once
+  private encoding = false;
+  private history: { time: number; bytes: number }[] = [];
+  private stats: FrameStats = { sent: 0, skipped: 0, bytesSent: 0, bytesPerSecond: 0, quality: 0.6, resolution: 1 };
+
+  constructor(config: FrameSchedulerConfig) {
+    this.config = config;
+    this.thumbCanvas.width = THUMB_WIDTH;
+    this.thumbCanvas.height = THUMB_HEIGHT;
+  }
+
+  get currentStats(): FrameStats {
+    return { ...this.stats };
+  }
+
+  start() {
+    if (this.interval) return;
+    this.interval = window.setInterval(() => this.tick(), this.config.intervalMs ?? DEFAULT_INTERVAL_MS);
+    this.tick();
+  }
+
+  stop() {
+    if (this.interval) clearInterval(this.interval);
+    if (this.editTimeout) clearTimeout(this.editTimeout);
+    this.interval = null;
+    this.editTimeout = null;
+    this.lastThumb = null;
+    this.lastTransform = null;
+    this.forceNext = false;
+  }
+
+  // Forces the next frame out even if the board looks unchanged, e.g. after the overlay options change
+  invalidate() {
+    this.requestFrame();
+  }
+
+  // Call after a meaningful edit; the frame goes out right away instead of on the next tick, even if the change looks tiny
+  requestFrame() {
+    if (!this.interval) return;
+    this.forceNext = true;
+    if (this.editTimeout) return;
+    const wait = Math.max(EDIT_SETTLE_MS, this.lastSentAt + MIN_SEND_GAP_MS - Date.now());
+    this.editTimeout = window.setTimeout(() => {
+      this.editTimeout = null;
+      this.tick();
+    }, wait);
+  }
+
+  private tick() {
+    if (this.encoding) return;
+    const capture = this.config.capture();
+    if (!capture) return;
+
+    const thumb = this.thumbnail(capture.canvas);
+    const unchanged = !this.forceNext && thumb && this.lastThumb && difference(thumb, this.lastThumb) < CHANGE_THRESHOLD;
+    if (unchanged && sameTransform(capture.transform, this.lastTransform)) {
+      this.stats.skipped++;
+      this.config.onStats?.(this.currentStats);
+      return;
+    }
+
+    const { quality, resolution } = this.stats;
+    const frame = composeVisualFrame(capture.canvas, { ...capture.options, resolution });
+    const transform = scaleFrameTransform(capture.transform, resolution);
+    this.forceNext = false;
+    this.encoding = true;
+    frame.toBlob(blob => {
+      if (!blob) {
+        this.encoding = false;
+        return;
+      }
+      const reader = new FileReader();
+      reader.onloadend = () => {
+        this.encoding = false;
+        if (!this.interval) return; // Stopped while encoding
+        this.lastThumb = thumb;
+        this.lastTransform = capture.transform;
+        this.config.onFrame((reader.result as string).split(',')[1], transform);
+        this.recordSend(blob.size);
+      };
+      reader.readAsDataURL(blob);
+    }, 'image/jpeg', quality);
+  }
+
+  private thumbnail(canvas: HTMLCanvasElement): Uint8Array | null {
+    const ctx = this.thumbCanvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx || canvas.width === 0 || canvas.height === 0) return null;
+    ctx.drawImage(canvas, 0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+    const data = ctx.getImageData(0, 0, THUMB_WIDTH, THUMB_HEIGHT).data;
+    const luminance = new Uint8Array(THUMB_WIDTH * THUMB_HEIGHT);
+    for (let i = 0; i < luminance.length; i++) {
+      luminance[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+    }
+    return luminance;
+  }
+
+  private recordSend(bytes: number) {
+    const now = Date.now();
+    this.lastSentAt = now;
+    this.history = this.history.filter(entry => now - entry.time < BUDGET_WINDOW_MS);
+    this.history.push({ time: now, bytes });
+
+    const rate = this.history.reduce((sum, entry) => sum + entry.bytes, 0) / (BUDGET_WINDOW_MS / 1000);
+    this.adapt(rate);
+    this.stats = { ...this.stats, sent: this.stats.sent + 1, bytesSent: this.stats.bytesSent + bytes, bytesPerSecond: Math.round(rate) };
+    this.config.onStats?.(this.currentStats);
+  }
+
+  // Over budget: drop quality first, then resolution. Well under it: restore resolution first, then quality
+  private adapt(rate: number) {
+    const budget = this.config.bytesPerSecondBudget ?? DEFAULT_BYTES_PER_SECOND;
+    let { quality, resolution } = this.stats;
+    if (rate > budget) {
+      if (quality > MIN_QUALITY) quality = Math.max(MIN_QUALITY, quality - 0.1);
+      else resolution = Math.max(MIN_RESOLUTION, resolution * 0.8);
+    } else if (rate < budget / 2) {
+      if (resolution < 1) resolution = Math.min(1, resolution * 1.25);
+      else quality = Math.min(MAX_QUALITY, quality + 0.05);
+    }
+    this.stats.quality = Math.round(quality * 100) / 100;
+    this.stats.resolution = Math.round(resolution * 100) / 100;
+  }
+}
+
+const sameTransform = (a: FrameTransform, b: FrameTransform | null) =>
+  !!b && a.panX === b.panX && a.panY === b.panY && a.scale === b.scale && a.width === b.width && a.height === b.height;
+
+const difference = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return 1;
+  let max = 0;
+  for (let i = 0; i < a.length; i++) max = Math.max(max, Math.abs(a[i] - b[i]));
+  return max / 255;
+};
@@ -1,67 +1,76 @@
 
-import { GoogleGenAI, LiveServerMessage, Modality, FunctionDeclaration, Type } from '@google/genai';
+import { FunctionDeclaration, GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
 import { ConnectionState } from '../types';
-import { base64ToUint8Array, decodeAudioData, createPcmBlob, downsampleTo16k } from './audioUtils';
+import { base64ToUint8Array, pcm16ToBlob } from './audioUtils';
+import { createMicCaptureNode } from './micCapture';
+import { AudioSettings, DEFAULT_AUDIO_SETTINGS, needsNewInputStream, openMicrophone } from './audioSettings';
+import { MicChunk } from './micCapture';
+import { VoiceActivityDetector } from './voiceActivity';
+import { AudioOutputQueue } from './audioPlayback';
+import { ConnectConfig, LiveAssistantCallbacks, LiveAssistantProvider } from './liveAssistantProvider';
+import { READ_ONLY_TOOLS } from './personas';
 
-interface GeminiLiveConfig {
-  apiKey: string;
-  onConnectionStateChange: (state: ConnectionState) => void;
-  onAudioData: (audioBuffer: AudioBuffer) => void;
-  onTranscription: (text: string | null, isModel: boolean) => void;
-  onVolumeChange: (volume: number) => void;
-  onToolCall?: (functionName: string, args: any) => Promise<any>;
+export const DEFAULT_GEMINI_LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+const MAX_CONTEXT_TURNS = 12; // Transcript turns re-sent when a session can't be resumed
+const PRE_ROLL_CHUNKS = 2; // Audio kept from before voice was detected, so the first syllable isn't clipped
+
+// Describes only the board tools this session was given; personas without tools get nothing appended
+function buildToolInstruction(tools: FunctionDeclaration[]): string {
+  const names = tools.map(t => t.name).filter((name): name is string => !!name);
+  if (names.length === 0) return '';
+  const canChangeBoard = names.some(name => !READ_ONLY_TOOLS.includes(name));
+  const lines = canChangeBoard ? [
+    `IMPORTANT: You can work on the user's whiteboard with these tools: ${names.join(', ')}.`,
+    'If you see a key level or pattern in the visual input, suggest it and use the tool; the user sees your change as a preview and accepts or rejects it.',
+    "Each tool response tells you whether the user accepted or rejected the change, so don't claim a drawing is on the board until it was accepted."
+  ] : [
+    `IMPORTANT: You can look at the user's whiteboard with these tools: ${names.join(', ')}. You cannot draw on or change the board.`
+  ];
+  lines.push('Tool x/y coordinates, widths and heights are pixels of the latest visual frame (origin at the top-left); when the frame shows a labelled grid, read positions from it.');
+  if (canChangeBoard) lines.push('Prefer price/time over pixels when the chart is calibrated.');
+  return lines.join('\n');
 }
 
-export interface ConnectConfig {
-  voiceName: string;
-  systemInstruction: string;
+const notifyMicrophoneFallback = () => alert('Your selected microphone is not connected, so the system default is being used. You can pick another one in Audio Settings.');
+
+interface ContextTurn {
+  speaker: 'user' | 'model';
+  text: string;
 }
 
-// Define the tools available to the AI
-const tools: FunctionDeclaration[] = [
-  {
-    name: 'draw_level',
-    description: 'Draws a horizontal support or resistance line at a specific price level (Y-coordinate).',
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        y: { type: Type.NUMBER, description: 'The Y coordinate on the canvas to draw the line.' },
-        color: { type: Type.STRING, description: 'Color of the line (e.g., #FF0000 for resistance, #00FF00 for support).' },
-        label: { type: Type.STRING, description: 'Text label for the level (e.g., "Daily Resistance").' }
-      },
-      required: ['y', 'color']
-    }
-  },
-  {
-    name: 'draw_zone',
-    description: 'Draws a rectangular highlight zone to mark consolidation or supply/demand areas.',
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        x: { type: Type.NUMBER, description: 'Top-left X coordinate.' },
-        y: { type: Type.NUMBER, description: 'Top-left Y coordinate.' },
-        width: { type: Type.NUMBER, description: 'Width of the zone.' },
-        height: { type: Type.NUMBER, description: 'Height of the zone.' },
-        color: { type: Type.STRING, description: 'Color of the zone.' }
-      },
-      required: ['x', 'y', 'width', 'height']
-    }
-  }
-];
+interface GeminiLiveConfig extends LiveAssistantCallbacks {
+  apiKey: string;
+  model?: string;
+}
 
-export class GeminiLiveService {
+export class GeminiLiveService implements LiveAssistantProvider {
   private ai: GoogleGenAI;
   private sessionPromise: Promise<any> | null = null;
   private inputAudioContext: AudioContext | null = null;
-  private outputAudioContext: AudioContext | null = null;
-  private inputScriptProcessor: ScriptProcessorNode | null = null;
+  private output: AudioOutputQueue | null = null;
+  private inputSource: MediaStreamAudioSourceNode | null = null;
+  private inputGain: GainNode | null = null;
+  private captureNode: AudioWorkletNode | null = null;
+  private audioSettings: AudioSettings = DEFAULT_AUDIO_SETTINGS;
+  private vad = new VoiceActivityDetector(DEFAULT_AUDIO_SETTINGS.vadSensitivity);
+  private pushToTalkActive = false;
+  private userSpeaking = false;
+  private isStreamingAudio = false; // Whether the upload gate is open
+  private preRoll: MicChunk[] = [];
   private mediaStream: MediaStream | null = null;
-  private nextStartTime = 0;
   private config: GeminiLiveConfig;
-  private videoInterval: number | null = null;
-  private gainNode: GainNode | null = null;
   private isMuted: boolean = false;
-  private audioSources: Set<AudioBufferSourceNode> = new Set();
+  private connectConfig: ConnectConfig | undefined;
+  private sessionGeneration = 0; // Bumped whenever a session is abandoned, so its late callbacks are ignored
+  private hasOpened = false; // Only sessions that were up get reconnected; a failed first connect is an error
+  private reconnectAttempt = 0;
+  private reconnectTimeout: number | null = null;
+  private resumptionHandle: string | null = null;
+  private recentTurns: ContextTurn[] = [];
 
   constructor(config: GeminiLiveConfig) {
     this.config = config;
@@ -72,163 +81,284 @@ export class GeminiLiveService {
     this.isMuted = muted;
   }
 
+  setPushToTalkActive(active: boolean) {
+    this.pushToTalkActive = active;
+    // Pressing the key while the model talks interrupts it at once rather than on the next chunk
+    if (active && this.audioSettings.micMode === 'push_to_talk' && !this.isMuted && this.output?.isPlaying) this.bargeIn();
+  }
+
+  // Device and processing changes swap the mic stream under the running capture node, so the session stays up
+  async setAudioSettings(settings: AudioSettings) {
+    const previous = this.audioSettings;
+    this.audioSettings = settings;
+    this.vad.setSensitivity(settings.vadSensitivity);
+    if (this.inputGain) this.inputGain.gain.value = settings.inputGain;
+    if (this.output && previous.outputDeviceId !== settings.outputDeviceId) {
+      await this.output.setOutputDevice(settings.outputDeviceId);
+    }
+    if (!this.inputAudioContext || !this.mediaStream || !needsNewInputStream(previous, settings)) return;
+
+    try {
+      const stream = await openMicrophone(settings, notifyMicrophoneFallback);
+      if (!this.inputAudioContext || !this.inputGain) {
+        stream.getTracks().forEach(track => track.stop()); // Disconnected meanwhile
+        return;
+      }
+      this.inputSource?.disconnect();
+      this.mediaStream.getTracks().forEach(track => track.stop());
+      this.mediaStream = stream;
+      this.inputSource = this.inputAudioContext.createMediaStreamSource(stream);
+      this.inputSource.connect(this.inputGain);
+    } catch (error) {
+      console.error('Failed to switch microphone:', error);
+      alert('Could not switch to that microphone. Keeping the current one.');
+    }
+  }
+
   async connect(connectConfig?: ConnectConfig) {
+    this.connectConfig = connectConfig;
+    this.hasOpened = false;
+    this.reconnectAttempt = 0;
+    this.resumptionHandle = null;
+    this.recentTurns = [];
     try {
       this.config.onConnectionStateChange(ConnectionState.CONNECTING);
 
       // Initialize Audio Contexts
       this.inputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      this.outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      this.output = new AudioOutputQueue(24000);
       
       // Critical: Resume contexts here to satisfy browser autoplay policies (initiated by user click)
       if (this.inputAudioContext.state === 'suspended') {
         await this.inputAudioContext.resume();
       }
-      if (this.outputAudioContext.state === 'suspended') {
-        await this.outputAudioContext.resume();
-      }
+      await this.output.resume();
+      await this.output.setOutputDevice(this.audioSettings.outputDeviceId);
 
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true
-        } 
-      });
+      this.mediaStream = await openMicrophone(this.audioSettings, notifyMicrophoneFallback);
 
-      const voiceName = connectConfig?.voiceName || 'Kore';
-      const baseInstruction = connectConfig?.systemInstruction || `You are an expert Forex trading analyst.`;
-      const systemInstruction = `${baseInstruction}
-      
-      IMPORTANT: You have the ability to draw on the user's whiteboard using the 'draw_level' and 'draw_zone' tools. 
-      If you see a key level or pattern in the visual input, ASK permission to draw it, then use the tool.
-      The visual input coordinate system corresponds roughly to the tool coordinates. Use your best judgement based on the visual feed.`;
-
-      const sessionPromise = this.ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        callbacks: {
-          onopen: () => {
-            console.log('Gemini Live Session Opened');
-            this.config.onConnectionStateChange(ConnectionState.CONNECTED);
-            this.startAudioInputStream(sessionPromise);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-             this.handleServerMessage(message);
-          },
-          onclose: () => {
-            console.log('Gemini Live Session Closed');
-            this.config.onConnectionStateChange(ConnectionState.DISCONNECTED);
-            this.cleanup();
-          },
-          onerror: (err) => {
-            console.error('Gemini Live Session Error', err);
-            this.config.onConnectionStateChange(ConnectionState.ERROR);
-            this.cleanup();
-          }
+      await this.startAudioInputStream();
+      await this.openSession();
+
+    } catch (error) {
+      console.error('Failed to connect to Gemini Live:', error);
+      this.config.onConnectionStateChange(ConnectionState.ERROR);
+      this.cleanup();
+    }
+  }
+
+  private async openSession() {
+    const generation = ++this.sessionGeneration;
+    const isCurrent = () => generation === this.sessionGeneration;
+    const resuming = this.resumptionHandle !== null;
+    let opened = false;
+    // A handle that didn't get us a session has likely expired; the next attempt starts fresh and replays context instead
+    const dropFailedHandle = () => {
+      if (resuming && !opened) this.resumptionHandle = null;
+    };
+
+    const voiceName = this.connectConfig?.voiceName || 'Kore';
+    const baseInstruction = this.connectConfig?.systemInstruction || `You are an expert Forex trading analyst.`;
+    const toolInstruction = buildToolInstruction(this.connectConfig?.tools ?? []);
+    const systemInstruction = toolInstruction ? `${baseInstruction}\n\n${toolInstruction}` : baseInstruction;
+
+    const sessionPromise = this.ai.live.connect({
+      model: this.config.model || DEFAULT_GEMINI_LIVE_MODEL,
+      callbacks: {
+        onopen: () => {
+          if (!isCurrent()) return;
+          opened = true;
+          console.log('Gemini Live Session Opened');
+          if (this.hasOpened && !resuming) this.restoreContext(sessionPromise);
+          this.hasOpened = true;
+          this.reconnectAttempt = 0;
+          this.config.onConnectionStateChange(ConnectionState.CONNECTED);
         },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          outputAudioTranscription: {}, 
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName } },
-          },
-          systemInstruction: systemInstruction,
-          tools: [{ functionDeclarations: tools }]
+        onmessage: async (message: LiveServerMessage) => {
+          if (isCurrent()) this.handleServerMessage(message, sessionPromise);
         },
-      });
+        onclose: (event: CloseEvent) => {
+          if (!isCurrent()) return;
+          console.log('Gemini Live Session Closed', event.reason);
+          dropFailedHandle();
+          this.handleDrop();
+        },
+        onerror: (err) => {
+          if (!isCurrent()) return;
+          console.error('Gemini Live Session Error', err);
+          dropFailedHandle();
+          this.handleDrop();
+        }
+      },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        outputAudioTranscription: {}, 
+        inputAudioTranscription: {},
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+        },
+        systemInstruction: systemInstruction,
+        tools: this.connectConfig?.tools?.length ? [{ functionDeclarations: this.connectConfig.tools }] : undefined,
+        // Always requested so the server keeps sending fresh handles
+        sessionResumption: { handle: this.resumptionHandle ?? undefined }
+      },
+    });
 
-      this.sessionPromise = sessionPromise;
+    this.sessionPromise = sessionPromise;
+    try {
       await sessionPromise;
-
     } catch (error) {
-      console.error('Failed to connect to Gemini Live:', error);
+      dropFailedHandle();
+      throw error;
+    }
+  }
+
+  // Reconnects with exponential backoff; gives up (ERROR) when the first connect fails or retries run out
+  private handleDrop(immediate: boolean = false) {
+    this.sessionGeneration++;
+    this.sessionPromise = null;
+
+    if (!this.hasOpened || this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
       this.config.onConnectionStateChange(ConnectionState.ERROR);
       this.cleanup();
+      return;
     }
+
+    const backoff = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempt);
+    const delay = immediate ? 0 : backoff * (0.8 + Math.random() * 0.4); // Jitter avoids reconnect stampedes
+    this.reconnectAttempt++;
+    this.config.onConnectionStateChange(ConnectionState.RECONNECTING);
+
+    this.reconnectTimeout = window.setTimeout(() => {
+      this.reconnectTimeout = null;
+      const generation = this.sessionGeneration;
+      this.openSession().catch(error => {
+        console.error('Gemini Live reconnect failed:', error);
+        if (generation + 1 === this.sessionGeneration) this.handleDrop();
+      });
+    }, delay);
   }
 
-  private startAudioInputStream(sessionPromise: Promise<any>) {
+  // Without a resumption handle the new session starts blank, so replay the tail of the conversation
+  private restoreContext(sessionPromise: Promise<any>) {
+    if (this.recentTurns.length === 0) return;
+    const lines = this.recentTurns.map(turn => `${turn.speaker === 'user' ? 'User' : 'You'}: ${turn.text.trim()}`).join('\n');
+    sessionPromise.then(session => {
+      session.sendClientContent({
+        turns: [{ role: 'user', parts: [{ text: `The connection dropped and was restored. Recent conversation, for context only:\n${lines}` }] }],
+        turnComplete: false
+      });
+    });
+  }
+
+  private recordTurn(speaker: ContextTurn['speaker'], text: string) {
+    const last = this.recentTurns[this.recentTurns.length - 1];
+    if (last?.speaker === speaker) last.text += text;
+    else this.recentTurns = [...this.recentTurns, { speaker, text }].slice(-MAX_CONTEXT_TURNS);
+  }
+
+  // Metering, resampling and PCM encoding happen on the audio thread; only the upload runs here
+  private async startAudioInputStream() {
     if (!this.inputAudioContext || !this.mediaStream) return;
 
-    const source = this.inputAudioContext.createMediaStreamSource(this.mediaStream);
-    this.inputScriptProcessor = this.inputAudioContext.createScriptProcessor(4096, 1, 1);
+    this.inputSource = this.inputAudioContext.createMediaStreamSource(this.mediaStream);
+    this.inputGain = this.inputAudioContext.createGain();
+    this.inputGain.gain.value = this.audioSettings.inputGain;
+    this.inputSource.connect(this.inputGain);
+    this.captureNode = await createMicCaptureNode(this.inputAudioContext, this.inputGain, (chunk) => this.handleMicChunk(chunk));
+  }
 
-    this.inputScriptProcessor.onaudioprocess = (e) => {
-      if (!this.inputAudioContext) return;
-      
-      const inputBuffer = e.inputBuffer.getChannelData(0);
-      
-      // Calculate Volume
-      let sum = 0;
-      for (let i = 0; i < inputBuffer.length; i++) {
-        sum += inputBuffer[i] * inputBuffer[i];
-      }
-      const rms = Math.sqrt(sum / inputBuffer.length);
-      this.config.onVolumeChange(this.isMuted ? 0 : rms * 50);
+  // Decides per chunk whether the user is talking, and only uploads while they are (or always, in open mode)
+  private handleMicChunk(chunk: MicChunk) {
+    this.config.onVolumeChange(this.isMuted ? 0 : chunk.rms * 50);
+    if (this.isMuted) {
+      this.setUserSpeaking(false);
+      this.closeAudioGate();
+      return;
+    }
 
-      if (this.isMuted) return;
+    const { micMode } = this.audioSettings;
+    const modelSpeaking = this.output?.isPlaying ?? false;
+    const voice = this.vad.process(chunk.rms, performance.now(), modelSpeaking);
+    const speaking = micMode === 'push_to_talk' ? this.pushToTalkActive : voice;
+    if (speaking && !this.userSpeaking && modelSpeaking) this.bargeIn();
+    this.setUserSpeaking(speaking);
 
-      // Prepare data for Gemini
-      const resampledData = downsampleTo16k(inputBuffer, this.inputAudioContext.sampleRate);
-      const pcmBlob = createPcmBlob(resampledData);
-      
-      sessionPromise.then(session => {
-        session.sendRealtimeInput({ media: pcmBlob });
-      });
-    };
+    if (micMode !== 'open' && !speaking) {
+      this.preRoll = [...this.preRoll, chunk].slice(-PRE_ROLL_CHUNKS);
+      this.closeAudioGate();
+      return;
+    }
+    if (!this.isStreamingAudio) {
+      this.isStreamingAudio = true;
+      if (micMode === 'vad') this.preRoll.forEach(c => this.sendMicChunk(c));
+    }
+    this.preRoll = [];
+    this.sendMicChunk(chunk);
+  }
 
-    source.connect(this.inputScriptProcessor);
+  private sendMicChunk(chunk: MicChunk) {
+    this.config.onInputAudio?.(chunk.samples, 16000);
+    const pcmBlob = pcm16ToBlob(chunk.pcm);
     
-    // Connect to destination to keep processor alive (muted)
-    this.gainNode = this.inputAudioContext.createGain();
-    this.gainNode.gain.value = 0;
-    this.inputScriptProcessor.connect(this.gainNode);
-    this.gainNode.connect(this.inputAudioContext.destination);
+    // Dropped while reconnecting
+    this.sessionPromise?.then(session => {
+      session.sendRealtimeInput({ media: pcmBlob });
+    });
   }
 
-  public sendVisualFrame(canvas: HTMLCanvasElement) {
-    if (!this.sessionPromise) return;
-    
-    canvas.toBlob(async (blob) => {
-      if (blob) {
-         const reader = new FileReader();
-         reader.onloadend = () => {
-             const base64data = (reader.result as string).split(',')[1];
-             this.sessionPromise?.then(session => {
-                 session.sendRealtimeInput({
-                     media: {
-                         mimeType: 'image/jpeg',
-                         data: base64data
-                     }
-                 });
-             });
-         };
-         reader.readAsDataURL(blob);
-      }
-    }, 'image/jpeg', 0.6);
+  // Tells the server the mic went quiet on purpose, so it ends the user's turn without waiting for silence
+  private closeAudioGate() {
+    if (!this.isStreamingAudio) return;
+    this.isStreamingAudio = false;
+    this.sessionPromise?.then(session => {
+      session.sendRealtimeInput({ audioStreamEnd: true });
+    });
   }
 
-  private async handleServerMessage(message: LiveServerMessage) {
+  private setUserSpeaking(speaking: boolean) {
+    if (speaking === this.userSpeaking) return;
+    this.userSpeaking = speaking;
+    this.config.onUserSpeakingChange?.(speaking);
+  }
+
+  // The user talked over the model: stop its audio locally; the server cancels the turn when it hears them
+  private bargeIn() {
+    this.output?.interrupt();
+    this.config.onTranscription(null, true);
+  }
+
+  // base64data is a JPEG; encoding and pacing are left to the caller
+  public sendVisualFrame(base64data: string) {
+    this.sessionPromise?.then(session => {
+      session.sendRealtimeInput({
+        media: {
+          mimeType: 'image/jpeg',
+          data: base64data
+        }
+      });
+    });
+  }
+
+  private async handleServerMessage(message: LiveServerMessage, sessionPromise: Promise<any>) {
+    const resumption = message.sessionResumptionUpdate;
+    if (resumption?.resumable && resumption.newHandle) this.resumptionHandle = resumption.newHandle;
+
+    // The server is about to close this session; move to a new one now rather than wait for the drop
+    if (message.goAway) {
+      console.log('Gemini Live goAway, time left:', message.goAway.timeLeft);
+      this.reconnectAttempt = 0;
+      this.handleDrop(true);
+      sessionPromise.then(session => session.close());
+      return;
+    }
+
     // Handle Audio
     const audioStr = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-    if (audioStr && this.outputAudioContext) {
-      this.nextStartTime = Math.max(this.nextStartTime, this.outputAudioContext.currentTime);
-      
-      const audioBytes = base64ToUint8Array(audioStr);
-      const audioBuffer = await decodeAudioData(audioBytes, this.outputAudioContext);
-      
+    if (audioStr && this.output) {
+      const audioBuffer = await this.output.decode(base64ToUint8Array(audioStr));
       this.config.onAudioData(audioBuffer); 
-
-      const source = this.outputAudioContext.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(this.outputAudioContext.destination);
-      source.onended = () => {
-          this.audioSources.delete(source);
-      };
-      
-      source.start(this.nextStartTime);
-      this.audioSources.add(source);
-      this.nextStartTime += audioBuffer.duration;
+      this.output.enqueue(audioBuffer);
     }
 
     // Handle Function Calls
@@ -240,14 +370,18 @@ export class GeminiLiveService {
             let result: any = { status: 'ok' };
             if (this.config.onToolCall) {
                 try {
-                    await this.config.onToolCall(call.name, call.args);
+                    result = (await this.config.onToolCall(call.name, call.args)) ?? result;
                 } catch (e: any) {
                     result = { status: 'error', message: e.toString() };
                 }
             }
             
-            // Send response back
-            this.sessionPromise?.then(session => {
+            // Send response back, unless the session that asked is gone (the user decided after a drop)
+            if (sessionPromise !== this.sessionPromise) {
+                console.log(`Dropping result of ${call.name}; its session has ended`);
+                continue;
+            }
+            sessionPromise.then(session => {
                 session.sendToolResponse({
                     functionResponses: [{
                         id: call.id,
@@ -259,28 +393,29 @@ export class GeminiLiveService {
         }
     }
 
+    if (message.serverContent?.inputTranscription?.text) {
+        this.recordTurn('user', message.serverContent.inputTranscription.text);
+        this.config.onTranscription(message.serverContent.inputTranscription.text, false);
+    }
+
     if (message.serverContent?.outputTranscription?.text) {
+        this.recordTurn('model', message.serverContent.outputTranscription.text);
         this.config.onTranscription(message.serverContent.outputTranscription.text, true);
     }
 
+    if (message.serverContent?.turnComplete) {
+        this.config.onTurnComplete?.();
+    }
+
     if (message.serverContent?.interrupted) {
       console.log('Model interrupted');
-      this.audioSources.forEach(source => {
-          try {
-              source.stop();
-          } catch(e) {
-              // Ignore errors if source already stopped
-          }
-      });
-      this.audioSources.clear();
-      if (this.outputAudioContext) {
-          this.nextStartTime = this.outputAudioContext.currentTime;
-      }
+      this.output?.interrupt();
       this.config.onTranscription(null, true);
     }
   }
 
   async disconnect() {
+    this.sessionGeneration++; // Our own close must not trigger a reconnect
     if (this.sessionPromise) {
         try {
             const session = await this.sessionPromise;
@@ -294,34 +429,38 @@ export class GeminiLiveService {
   }
 
   private cleanup() {
-    if (this.inputScriptProcessor) {
-      this.inputScriptProcessor.disconnect();
-      this.inputScriptProcessor = null;
+    this.vad.reset();
+    this.setUserSpeaking(false);
+    this.isStreamingAudio = false;
+    this.preRoll = [];
+    if (this.reconnectTimeout) {
+      window.clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (this.captureNode) {
+      this.captureNode.port.onmessage = null;
+      this.captureNode.disconnect();
+      this.captureNode = null;
+    }
+    if (this.inputSource) {
+      this.inputSource.disconnect();
+      this.inputSource = null;
     }
-    if (this.gainNode) {
-      this.gainNode.disconnect();
-      this.gainNode = null;
+    if (this.inputGain) {
+      this.inputGain.disconnect();
+      this.inputGain = null;
     }
     if (this.mediaStream) {
       this.mediaStream.getTracks().forEach(track => track.stop());
       this.mediaStream = null;
     }
-    this.audioSources.forEach(source => {
-        try { source.stop(); } catch(e) {}
-    });
-    this.audioSources.clear();
-
     if (this.inputAudioContext) {
       this.inputAudioContext.close();
       this.inputAudioContext = null;
     }
-    if (this.outputAudioContext) {
-      this.outputAudioContext.close();
-      this.outputAudioContext = null;
-    }
-    if (this.videoInterval) {
-        window.clearInterval(this.videoInterval);
-        this.videoInterval = null;
+    if (this.output) {
+      this.output.close();
+      this.output = null;
     }
     this.sessionPromise = null;
   }
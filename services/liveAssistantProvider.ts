@@ -0,0 +1,34 @@
+
+import { FunctionDeclaration } from '@google/genai';
+import { ConnectionState } from '../types';
+import { AudioSettings } from './audioSettings';
+
+// How a provider reports back to the app; the same for every backend
+export interface LiveAssistantCallbacks {
+  onConnectionStateChange: (state: ConnectionState) => void;
+  onAudioData: (audioBuffer: AudioBuffer) => void; // Model audio, as it is scheduled for playback
+  onTranscription: (text: string | null, isModel: boolean) => void; // null when the model was interrupted
+  onTurnComplete?: () => void;
+  onVolumeChange: (volume: number) => void; // Mic level
+  onUserSpeakingChange?: (speaking: boolean) => void; // From voice activity detection, or the push-to-talk key
+  onInputAudio?: (samples: Float32Array, sampleRate: number) => void; // Mic audio as sent to the model
+  onToolCall?: (functionName: string, args: any) => Promise<any>; // Resolved value is sent back as the result
+}
+
+export interface ConnectConfig {
+  voiceName: string;
+  systemInstruction: string;
+  tools?: FunctionDeclaration[];
+}
+
+// A realtime voice assistant backend: Gemini Live, or the scripted mock for offline work
+export interface LiveAssistantProvider {
+  connect(config?: ConnectConfig): Promise<void>;
+  disconnect(): Promise<void>;
+  setMuted(muted: boolean): void;
+  setAudioSettings(settings: AudioSettings): Promise<void>; // Applies mid-session without reconnecting
+  setPushToTalkActive(active: boolean): void; // Only has an effect in push_to_talk mode
+  sendVisualFrame(base64data: string): void; // JPEG
+}
+
+export type LiveAssistantProviderKind = 'gemini' | 'mock';
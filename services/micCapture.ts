@@ -0,0 +1,85 @@
+
+import { downsampleTo16k, floatToPcm16 } from './audioUtils';
+
+export interface MicChunk {
+  rms: number; // Level of the raw input, before resampling
+  samples: Float32Array; // 16 kHz mono
+  pcm: Int16Array; // `samples` encoded as PCM16, ready to upload
+}
+
+const PROCESSOR_NAME = 'mic-capture';
+const CHUNK_SIZE = 2048; // Input samples per posted chunk; ~128 ms at 16 kHz keeps voice detection responsive
+
+// Runs on the audio thread: buffers render quanta, then meters, resamples and encodes each chunk.
+// The helpers are injected from audioUtils so the worklet uses exactly the same conversion code.
+const processorSource = () => `
+const downsample = ${downsampleTo16k.toString()};
+const toPcm16 = ${floatToPcm16.toString()};
+
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.buffer = new Float32Array(${CHUNK_SIZE});
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    let offset = 0;
+    while (offset < channel.length) {
+      const count = Math.min(channel.length - offset, this.buffer.length - this.filled);
+      this.buffer.set(channel.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.buffer.length) {
+        this.flush();
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+
+  flush() {
+    let sum = 0;
+    for (let i = 0; i < this.buffer.length; i++) sum += this.buffer[i] * this.buffer[i];
+    const rms = Math.sqrt(sum / this.buffer.length);
+    const samples = Float32Array.from(downsample(this.buffer, sampleRate));
+    const pcm = toPcm16(samples);
+    this.port.postMessage({ rms, samples, pcm }, [samples.buffer, pcm.buffer]);
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', MicCaptureProcessor);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+// Connects `source` to an off-main-thread capture node; onChunk receives every processed chunk
+export async function createMicCaptureNode(
+  context: AudioContext,
+  source: AudioNode,
+  onChunk: (chunk: MicChunk) => void
+): Promise<AudioWorkletNode> {
+  if (!loadedContexts.has(context)) {
+    const url = URL.createObjectURL(new Blob([processorSource()], { type: 'application/javascript' }));
+    try {
+      await context.audioWorklet.addModule(url);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+    loadedContexts.add(context);
+  }
+
+  // No outputs: the node is processed without being wired to the speakers
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit' // Downmix stereo mics
+  });
+  node.port.onmessage = (event: MessageEvent<MicChunk>) => onChunk(event.data);
+  source.connect(node);
+  return node;
+}
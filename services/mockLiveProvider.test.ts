@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockLiveProvider, MockScript } from './mockLiveProvider';
+import { LiveAssistantCallbacks } from './liveAssistantProvider';
+import { ConnectionState } from '../types';
+
+const createCallbacks = (onToolCall?: LiveAssistantCallbacks['onToolCall']) => {
+  const states: ConnectionState[] = [];
+  const modelText: string[] = [];
+  const callbacks: LiveAssistantCallbacks = {
+    onConnectionStateChange: state => { states.push(state); },
+    onAudioData: () => {},
+    onTranscription: (text, isModel) => { if (isModel && text) modelText.push(text); },
+    onVolumeChange: () => {},
+    onToolCall
+  };
+  return { callbacks, states, modelText };
+};
+
+// Runs the script to its end; the mock only waits on timers and the tool call results
+const runScript = async (provider: MockLiveProvider, config?: Parameters<MockLiveProvider['connect']>[0]) => {
+  const connecting = provider.connect(config);
+  await vi.runAllTimersAsync();
+  await connecting;
+};
+
+describe('MockLiveProvider', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('sends scripted tool calls to the app and logs what it answered', async () => {
+    const script: MockScript = {
+      name: 'Test',
+      steps: [
+        { delayMs: 0, toolCall: { name: 'draw_level', args: { y: 100 } } },
+        { delayMs: 0, say: result => `Result was ${(result as { status: string }).status}` },
+        { delayMs: 0, toolCall: { name: 'list_elements', args: {} } }
+      ]
+    };
+    const onToolCall = vi.fn(async (name: string) => name === 'draw_level' ? { status: 'accepted' } : Promise.reject(new Error('board unavailable')));
+    const { callbacks, states, modelText } = createCallbacks(onToolCall);
+    const provider = new MockLiveProvider(callbacks, { script, playAudio: false });
+
+    await runScript(provider);
+
+    expect(states).toEqual([ConnectionState.CONNECTING, ConnectionState.CONNECTED]);
+    expect(modelText).toEqual(['Result was accepted']);
+    expect(provider.toolCallLog).toEqual([
+      { name: 'draw_level', args: { y: 100 }, result: { status: 'accepted' } },
+      { name: 'list_elements', args: {}, result: { status: 'error', message: 'Error: board unavailable' } }
+    ]);
+  });
+
+  it('skips tool calls the session did not declare', async () => {
+    const script: MockScript = {
+      name: 'Test',
+      steps: [
+        { delayMs: 0, toolCall: { name: 'draw_level', args: { y: 100 } } },
+        { delayMs: 0, toolCall: { name: 'list_elements', args: {} } }
+      ]
+    };
+    const onToolCall = vi.fn(async () => ({ total: 0 }));
+    const provider = new MockLiveProvider(createCallbacks(onToolCall).callbacks, { script, playAudio: false });
+
+    await runScript(provider, { voiceName: 'Kore', systemInstruction: 'Read only', tools: [{ name: 'list_elements' }] });
+
+    expect(onToolCall).toHaveBeenCalledTimes(1);
+    expect(onToolCall).toHaveBeenCalledWith('list_elements', {});
+    expect(provider.toolCallLog.map(call => call.name)).toEqual(['list_elements']);
+  });
+
+  it('counts visual frames and tracks mute', () => {
+    const provider = new MockLiveProvider(createCallbacks().callbacks, { playAudio: false });
+    provider.sendVisualFrame('frame-1');
+    provider.sendVisualFrame('frame-2');
+    provider.setMuted(true);
+
+    expect(provider.framesReceived).toBe(2);
+    expect(provider.muted).toBe(true);
+  });
+
+  it('stops the script on disconnect', async () => {
+    const script: MockScript = { name: 'Test', steps: [{ delayMs: 1000, toolCall: { name: 'list_elements', args: {} } }] };
+    const onToolCall = vi.fn(async () => ({ total: 0 }));
+    const { callbacks, states } = createCallbacks(onToolCall);
+    const provider = new MockLiveProvider(callbacks, { script, playAudio: false });
+
+    const connecting = provider.connect();
+    await vi.advanceTimersByTimeAsync(500);
+    await connecting;
+    await provider.disconnect();
+    await vi.runAllTimersAsync();
+
+    expect(onToolCall).not.toHaveBeenCalled();
+    expect(states.at(-1)).toBe(ConnectionState.DISCONNECTED);
+  });
+
+  it('reports an error when audio output cannot start', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const close = vi.fn(async () => {});
+    vi.stubGlobal('window', {
+      AudioContext: class {
+        state = 'suspended';
+        sampleRate = 24000;
+        resume = () => Promise.reject(new Error('Autoplay blocked'));
+        close = close;
+      }
+    });
+    const { callbacks, states } = createCallbacks();
+    const provider = new MockLiveProvider(callbacks);
+
+    await runScript(provider);
+
+    expect(states).toEqual([ConnectionState.CONNECTING, ConnectionState.ERROR]);
+    expect(close).toHaveBeenCalled();
+  });
+});
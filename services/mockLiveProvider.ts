@@ -0,0 +1,204 @@
+
+import { ConnectionState } from '../types';
+import { AudioOutputQueue } from './audioPlayback';
+import { AudioSettings, DEFAULT_AUDIO_SETTINGS } from './audioSettings';
+import { base64ToUint8Array } from './audioUtils';
+import { ConnectConfig, LiveAssistantCallbacks, LiveAssistantProvider } from './liveAssistantProvider';
+
+// One beat of a scripted session; steps run in order, each after its delay
+export interface MockScriptStep {
+  delayMs?: number; // Before this step; defaults to DEFAULT_STEP_DELAY_MS
+  hear?: string; // Simulated user speech, reported as input transcription
+  say?: string | ((lastToolResult: unknown) => string); // Model speech; a function can react to the last tool result
+  audio?: string; // base64 24 kHz PCM16 to play with `say` instead of the synthesized voice
+  toolCall?: { name: string; args: Record<string, unknown> }; // Waits for the app's result, like a real tool call
+}
+
+export interface MockScript {
+  name: string;
+  steps: MockScriptStep[];
+}
+
+export interface MockToolCallRecord {
+  name: string;
+  args: Record<string, unknown>;
+  result: unknown;
+}
+
+interface MockLiveProviderOptions {
+  script?: MockScript;
+  playAudio?: boolean; // Off where there is no audio output; speech is then only timed and transcribed
+}
+
+const DEFAULT_STEP_DELAY_MS = 600;
+const CONNECT_DELAY_MS = 300;
+const MS_PER_WORD = 280;
+
+export const DEMO_SCRIPT: MockScript = {
+  name: 'Demo',
+  steps: [
+    { say: 'Hi, I am the offline demo co-host. I can see your board.' },
+    { delayMs: 1500, hear: 'Can you mark the resistance for me?' },
+    { say: 'Sure, I will draw a resistance level near the top of your view.' },
+    { toolCall: { name: 'draw_level', args: { y: 200, color: '#ef4444', label: 'Demo resistance' } } },
+    {
+      say: (result) => (result as { status?: string })?.status === 'accepted'
+        ? 'The level is on your board. Watch how price reacts there.'
+        : 'No problem, I left your board as it was.'
+    },
+    { delayMs: 1500, toolCall: { name: 'list_elements', args: {} } },
+    {
+      say: (result) => `There are ${(result as { total?: number })?.total ?? 0} drawings on the board now. That is the end of the demo.`
+    }
+  ]
+};
+
+// Scripted provider that needs no network or API key; replays canned speech, transcripts and tool calls
+export class MockLiveProvider implements LiveAssistantProvider {
+  private callbacks: LiveAssistantCallbacks;
+  private script: MockScript;
+  private playAudio: boolean;
+  private output: AudioOutputQueue | null = null;
+  private runId = 0; // Bumped on disconnect so a running script stops at its next step
+  private toolCalls: MockToolCallRecord[] = [];
+  private frames = 0;
+  private isMuted = false;
+  private audioSettings: AudioSettings = DEFAULT_AUDIO_SETTINGS;
+  private allowedTools: string[] | null = null; // Tools the session declared; null when connected without a config
+
+  constructor(callbacks: LiveAssistantCallbacks, options: MockLiveProviderOptions = {}) {
+    this.callbacks = callbacks;
+    this.script = options.script ?? DEMO_SCRIPT;
+    this.playAudio = options.playAudio ?? true;
+  }
+
+  // What the app answered to each tool call during the script
+  get toolCallLog(): MockToolCallRecord[] {
+    return [...this.toolCalls];
+  }
+
+  get framesReceived() {
+    return this.frames;
+  }
+
+  get muted() {
+    return this.isMuted;
+  }
+
+  // Only the tool list applies; the script stands in for the persona's instruction and voice
+  async connect(config?: ConnectConfig) {
+    const runId = ++this.runId;
+    this.allowedTools = config ? (config.tools ?? []).map(tool => tool.name).filter((name): name is string => !!name) : null;
+    this.callbacks.onConnectionStateChange(ConnectionState.CONNECTING);
+    try {
+      // A reconnect replaces the queue; close the old one so its AudioContext doesn't linger
+      this.output?.close();
+      this.output = null;
+      if (this.playAudio) {
+        this.output = new AudioOutputQueue(24000);
+        await this.output.resume();
+        await this.output.setOutputDevice(this.audioSettings.outputDeviceId);
+      }
+      await this.wait(CONNECT_DELAY_MS);
+    } catch (error) {
+      console.error('Failed to start mock session:', error);
+      if (runId !== this.runId) return;
+      this.output?.close();
+      this.output = null;
+      this.callbacks.onConnectionStateChange(ConnectionState.ERROR);
+      return;
+    }
+    if (runId !== this.runId) return;
+
+    this.callbacks.onConnectionStateChange(ConnectionState.CONNECTED);
+    this.callbacks.onVolumeChange(0);
+    this.run(runId).catch(error => console.error('Mock script failed:', error));
+  }
+
+  async disconnect() {
+    this.runId++;
+    this.output?.close();
+    this.output = null;
+    this.callbacks.onConnectionStateChange(ConnectionState.DISCONNECTED);
+  }
+
+  setMuted(muted: boolean) {
+    this.isMuted = muted;
+  }
+
+  // The mock has no microphone; only the output device applies
+  async setAudioSettings(settings: AudioSettings) {
+    this.audioSettings = settings;
+    await this.output?.setOutputDevice(settings.outputDeviceId);
+  }
+
+  setPushToTalkActive(_active: boolean) {}
+
+  sendVisualFrame(_base64data: string) {
+    this.frames++;
+  }
+
+  private async run(runId: number) {
+    let lastToolResult: unknown = null;
+    for (const step of this.script.steps) {
+      await this.wait(step.delayMs ?? DEFAULT_STEP_DELAY_MS);
+      if (runId !== this.runId) return;
+
+      if (step.hear) {
+        this.callbacks.onTranscription(step.hear, false);
+        this.callbacks.onTurnComplete?.();
+      }
+
+      if (step.say) {
+        const text = typeof step.say === 'function' ? step.say(lastToolResult) : step.say;
+        this.callbacks.onTranscription(text, true);
+        await this.wait(await this.speak(text, step.audio));
+        if (runId !== this.runId) return;
+        this.callbacks.onTurnComplete?.();
+      }
+
+      if (step.toolCall) {
+        const { name, args } = step.toolCall;
+        // A real model can't call a tool the session didn't declare (e.g. drawing for a read-only persona)
+        if (this.allowedTools && !this.allowedTools.includes(name)) {
+          lastToolResult = null;
+          continue;
+        }
+        try {
+          lastToolResult = (await this.callbacks.onToolCall?.(name, args)) ?? { status: 'ok' };
+        } catch (e: any) {
+          lastToolResult = { status: 'error', message: e.toString() };
+        }
+        this.toolCalls.push({ name, args, result: lastToolResult });
+      }
+    }
+  }
+
+  // Plays the clip (or a synthesized murmur as long as the text) and returns how long it lasts in ms
+  private async speak(text: string, audio?: string): Promise<number> {
+    const words = text.split(/\s+/).filter(Boolean).length;
+    if (!this.output) return words * MS_PER_WORD;
+
+    const buffer = audio
+      ? await this.output.decode(base64ToUint8Array(audio))
+      : this.output.createBuffer(synthesizeVoice(words * MS_PER_WORD, this.output.sampleRate));
+    this.callbacks.onAudioData(buffer);
+    return this.output.enqueue(buffer) * 1000;
+  }
+
+  private wait(ms: number) {
+    return new Promise<void>(resolve => setTimeout(resolve, ms));
+  }
+}
+
+// A soft hum with a syllable-rate envelope, enough to drive the speaking indicators
+const synthesizeVoice = (durationMs: number, sampleRate: number) => {
+  const samples = new Float32Array(Math.round(durationMs / 1000 * sampleRate));
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / sampleRate;
+    const syllable = Math.max(0, Math.sin(2 * Math.PI * 4 * t));
+    const tone = Math.sin(2 * Math.PI * 160 * t) + 0.5 * Math.sin(2 * Math.PI * 320 * t) + 0.25 * Math.sin(2 * Math.PI * 480 * t);
+    samples[i] = 0.08 * syllable * tone;
+  }
+  return samples;
+};
@@ -0,0 +1,269 @@
+
+import { DrawingElement } from '../types';
+import { buildDisplayList, ExportOptions, ExportPrimitive, PathCommand } from './boardExport';
+
+// Minimal PDF 1.4 writer for the export display list: vector paths, standard-14 fonts and JPEG images
+
+const PAGE_WIDTH = 842; // A4 landscape, in points
+const PAGE_HEIGHT = 595;
+const PAGE_MARGIN = 24;
+const MIN_SCALE = 0.5; // Below this the board is split across pages instead of shrunk further
+const MAX_SCALE = 1;
+const BASELINE_RATIO = 0.8; // Approximate ascent of the standard fonts
+
+interface PdfImage {
+  name: string;
+  width: number;
+  height: number;
+  bytes: Uint8Array;
+}
+
+interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+const STANDARD_FONTS: Record<'sans' | 'serif' | 'mono', [string, string, string, string]> = {
+  sans: ['Helvetica', 'Helvetica-Bold', 'Helvetica-Oblique', 'Helvetica-BoldOblique'],
+  serif: ['Times-Roman', 'Times-Bold', 'Times-Italic', 'Times-BoldItalic'],
+  mono: ['Courier', 'Courier-Bold', 'Courier-Oblique', 'Courier-BoldOblique']
+};
+
+const standardFontFor = (p: Extract<ExportPrimitive, { kind: 'text' }>) => {
+  const family = /mono/i.test(p.fontFamily) ? 'mono' : /^serif$/i.test(p.fontFamily) ? 'serif' : 'sans';
+  const bold = p.fontWeight === 'bold' || Number(p.fontWeight) >= 600;
+  const italic = p.fontStyle === 'italic' || p.fontStyle === 'oblique';
+  return STANDARD_FONTS[family][(bold ? 1 : 0) + (italic ? 2 : 0)];
+};
+
+const num = (n: number) => (Math.round(n * 100) / 100).toString();
+
+// PDF literal strings use WinAnsi here; characters outside Latin-1 fall back to '?'
+const pdfString = (value: string) =>
+  '(' + Array.from(value).map(ch => {
+    const code = ch.charCodeAt(0);
+    if (ch.length > 1 || code > 255) return '?';
+    if (ch === '\\' || ch === '(' || ch === ')') return '\\' + ch;
+    return ch;
+  }).join('') + ')';
+
+const latin1Bytes = (value: string) => {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) bytes[i] = value.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+// Lets the browser parse any CSS color; transparent/unknown colors come back as null
+const createColorParser = (ctx: CanvasRenderingContext2D) => (color: string): Rgba | null => {
+  ctx.fillStyle = '#000000';
+  ctx.fillStyle = color;
+  const normalized = String(ctx.fillStyle);
+  if (normalized.startsWith('#')) {
+    const hex = parseInt(normalized.slice(1), 16);
+    return { r: (hex >> 16) & 0xff, g: (hex >> 8) & 0xff, b: hex & 0xff, a: 1 };
+  }
+  const match = normalized.match(/rgba?\(([^)]+)\)/);
+  if (!match) return null;
+  const [r, g, b, a = 1] = match[1].split(',').map(v => parseFloat(v));
+  return a > 0 ? { r, g, b, a } : null;
+};
+
+const rgbOperands = (c: Rgba) => `${num(c.r / 255)} ${num(c.g / 255)} ${num(c.b / 255)}`;
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error('Failed to load image for PDF export'));
+  img.src = src;
+});
+
+// Re-encodes any image as JPEG on a white background so it can be embedded with DCTDecode
+const jpegBytes = async (src: string): Promise<{ bytes: Uint8Array; width: number; height: number }> => {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth || 1;
+  canvas.height = img.naturalHeight || 1;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0);
+  const base64 = canvas.toDataURL('image/jpeg', 0.92).split(',')[1];
+  const binary = atob(base64);
+  return { bytes: latin1Bytes(binary), width: canvas.width, height: canvas.height };
+};
+
+const pathOperators = (commands: PathCommand[]) => commands.map(c => {
+  if (c.op === 'Z') return 'h';
+  if (c.op === 'C') return `${num(c.x1)} ${num(c.y1)} ${num(c.x2)} ${num(c.y2)} ${num(c.x)} ${num(c.y)} c`;
+  return `${num(c.x)} ${num(c.y)} ${c.op === 'M' ? 'm' : 'l'}`;
+}).join('\n');
+
+export async function exportBoardPdf(elements: DrawingElement[], options: ExportOptions): Promise<Blob> {
+  const { bounds } = options;
+  const primitives = buildDisplayList(elements, options.axis);
+  const colorCtx = document.createElement('canvas').getContext('2d');
+  if (!colorCtx) throw new Error('Canvas 2D context unavailable');
+  const parseColor = createColorParser(colorCtx);
+
+  // Shared resources, named once and referenced from every page
+  const fonts = new Map<string, string>(); // BaseFont -> resource name
+  const alphas = new Map<string, string>(); // opacity -> ExtGState name
+  const images = new Map<string, PdfImage>(); // href -> XObject
+
+  const fontName = (baseFont: string) => {
+    if (!fonts.has(baseFont)) fonts.set(baseFont, `F${fonts.size + 1}`);
+    return fonts.get(baseFont)!;
+  };
+  const alphaState = (fill: number, stroke: number) => {
+    const key = `${num(fill)} ${num(stroke)}`;
+    if (!alphas.has(key)) alphas.set(key, `GS${alphas.size + 1}`);
+    return `/${alphas.get(key)} gs`;
+  };
+
+  for (const p of primitives) {
+    if (p.kind !== 'image' || images.has(p.href)) continue;
+    try {
+      const jpeg = await jpegBytes(p.href);
+      images.set(p.href, { name: `Im${images.size + 1}`, ...jpeg });
+    } catch (e) {
+      console.error('Skipping image in PDF export', e);
+    }
+  }
+
+  // Content in world coordinates; each page applies its own transform on top
+  const drawing: string[] = [];
+  for (const p of primitives) {
+    drawing.push('q');
+    if (p.kind === 'path') {
+      const fill = p.paint.fill ? parseColor(p.paint.fill) : null;
+      const stroke = p.paint.stroke && p.paint.strokeWidth > 0 ? parseColor(p.paint.stroke) : null;
+      if (!fill && !stroke) {
+        drawing.push('Q');
+        continue;
+      }
+      drawing.push(alphaState(p.paint.opacity * (fill?.a ?? 1), p.paint.opacity * (stroke?.a ?? 1)));
+      if (fill) drawing.push(`${rgbOperands(fill)} rg`);
+      if (stroke) {
+        drawing.push(`${rgbOperands(stroke)} RG`, `${num(p.paint.strokeWidth)} w`, '1 J 1 j');
+        drawing.push(p.paint.dash ? `[${p.paint.dash.map(num).join(' ')}] 0 d` : '[] 0 d');
+      }
+      drawing.push(pathOperators(p.commands), fill && stroke ? 'B' : fill ? 'f' : 'S');
+    } else if (p.kind === 'text') {
+      const color = parseColor(p.color) ?? { r: 0, g: 0, b: 0, a: 1 };
+      const halfLeading = (p.lineHeight - p.fontSize) / 2;
+      drawing.push(alphaState(p.opacity * color.a, 1), `${rgbOperands(color)} rg`, 'BT', `/${fontName(standardFontFor(p))} ${num(p.fontSize)} Tf`);
+      p.lines.forEach((line, i) => {
+        const width = p.lineWidths[i] ?? 0;
+        const lx = p.align === 'center' ? p.x - width / 2 : p.align === 'right' ? p.x - width : p.x;
+        const baseline = p.y + i * p.lineHeight + halfLeading + p.fontSize * BASELINE_RATIO;
+        // The page flips y, so flip the text matrix back to keep glyphs upright
+        drawing.push(`1 0 0 -1 ${num(lx)} ${num(baseline)} Tm`, `${pdfString(line)} Tj`);
+      });
+      drawing.push('ET');
+    } else {
+      const image = images.get(p.href);
+      if (image) {
+        drawing.push(alphaState(p.opacity, 1), `${num(p.width)} 0 0 ${num(-p.height)} ${num(p.x)} ${num(p.y + p.height)} cm`, `/${image.name} Do`);
+      }
+    }
+    drawing.push('Q');
+  }
+  const drawingOps = drawing.join('\n');
+
+  // Fit the board to one page when possible, otherwise tile it at the minimum scale
+  const availW = PAGE_WIDTH - PAGE_MARGIN * 2;
+  const availH = PAGE_HEIGHT - PAGE_MARGIN * 2;
+  const fitScale = Math.min(availW / Math.max(bounds.width, 1), availH / Math.max(bounds.height, 1));
+  const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, fitScale));
+  const cols = Math.max(1, Math.ceil((bounds.width * scale) / availW - 1e-6));
+  const rows = Math.max(1, Math.ceil((bounds.height * scale) / availH - 1e-6));
+  const background = parseColor(options.background) ?? { r: 255, g: 255, b: 255, a: 1 };
+
+  const pageContents: string[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const e = PAGE_MARGIN - bounds.minX * scale - col * availW;
+      const f = PAGE_HEIGHT - PAGE_MARGIN + bounds.minY * scale + row * availH;
+      pageContents.push([
+        'q',
+        `${num(PAGE_MARGIN)} ${num(PAGE_MARGIN)} ${num(availW)} ${num(availH)} re W n`,
+        `${rgbOperands(background)} rg`,
+        `${num(PAGE_MARGIN)} ${num(PAGE_MARGIN)} ${num(availW)} ${num(availH)} re f`,
+        `${num(scale)} 0 0 ${num(-scale)} ${num(e)} ${num(f)} cm`,
+        drawingOps,
+        'Q'
+      ].join('\n'));
+    }
+  }
+
+  // Object numbering: 1 catalog, 2 pages, then fonts, alpha states, images, and a page + content pair per page
+  const objects: (string | Uint8Array)[] = [];
+  const reserve = () => {
+    objects.push('');
+    return objects.length;
+  };
+  const catalogId = reserve();
+  const pagesId = reserve();
+
+  const fontRefs = Array.from(fonts.entries()).map(([baseFont, name]) => {
+    const id = reserve();
+    objects[id - 1] = `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`;
+    return `/${name} ${id} 0 R`;
+  });
+  const alphaRefs = Array.from(alphas.entries()).map(([key, name]) => {
+    const [fill, stroke] = key.split(' ');
+    const id = reserve();
+    objects[id - 1] = `<< /Type /ExtGState /ca ${fill} /CA ${stroke} >>`;
+    return `/${name} ${id} 0 R`;
+  });
+  const imageRefs = Array.from(images.values()).map(image => {
+    const id = reserve();
+    const header = `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.bytes.length} >>\nstream\n`;
+    const headerBytes = latin1Bytes(header);
+    const footerBytes = latin1Bytes('\nendstream');
+    const bytes = new Uint8Array(headerBytes.length + image.bytes.length + footerBytes.length);
+    bytes.set(headerBytes, 0);
+    bytes.set(image.bytes, headerBytes.length);
+    bytes.set(footerBytes, headerBytes.length + image.bytes.length);
+    objects[id - 1] = bytes;
+    return `/${image.name} ${id} 0 R`;
+  });
+  const resources = `<< /Font << ${fontRefs.join(' ')} >> /ExtGState << ${alphaRefs.join(' ')} >> /XObject << ${imageRefs.join(' ')} >> >>`;
+
+  const pageIds = pageContents.map(content => {
+    const pageId = reserve();
+    const contentId = reserve();
+    const encoded = latin1Bytes(content);
+    objects[contentId - 1] = `<< /Length ${encoded.length} >>\nstream\n${content}\nendstream`;
+    objects[pageId - 1] = `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resources} /Contents ${contentId} 0 R >>`;
+    return pageId;
+  });
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+  // Serialize with a byte-accurate xref table
+  const chunks: Uint8Array[] = [];
+  let offset = 0;
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? latin1Bytes(data) : data;
+    chunks.push(bytes);
+    offset += bytes.length;
+  };
+  const offsets: number[] = [];
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  objects.forEach((body, i) => {
+    offsets.push(offset);
+    write(`${i + 1} 0 obj\n`);
+    write(body);
+    write('\nendobj\n');
+  });
+  const xrefOffset = offset;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(o => write(`${String(o).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+}
@@ -0,0 +1,187 @@
+
+const STORAGE_KEY = 'annotate-personas';
+
+export const PERSONA_FILE_TYPE = 'annotate-personas';
+export const PERSONA_FILE_VERSION = 1;
+export const PERSONA_FILE_EXTENSION = '.personas.json';
+
+// A named co-host setup: how it sounds, what it is told, and which board tools it may call
+export interface Persona {
+  id: string;
+  name: string;
+  voiceName: string;
+  systemInstruction: string;
+  allowedTools: string[] | null; // null allows every tool, including ones added later
+  avatar: string; // Image URL or data URL
+}
+
+export interface PersonaLibrary {
+  personas: Persona[];
+  activePersonaId: string;
+}
+
+const DEFAULT_AVATAR = 'https://picsum.photos/101/101';
+
+// Tools that only read the board; for personas that should talk rather than draw
+export const READ_ONLY_TOOLS = ['list_elements', 'select_elements'];
+
+export const DEFAULT_PERSONAS: Persona[] = [
+  {
+    id: 'journalfx-cohost',
+    name: 'Gemini Live',
+    voiceName: 'Kore',
+    systemInstruction: `You are a smart AI Co-Host for a 'JournalFX' Mentor Session. You are an expert financial analyst.
+
+Your goal is to provide concise, technical observations about the user's drawings on the chart.
+- Focus on price action structure (HH, HL).
+- Identify potential liquidity zones.
+- Keep responses brief and conversational.`,
+    allowedTools: null,
+    avatar: DEFAULT_AVATAR
+  },
+  {
+    id: 'ict-mentor',
+    name: 'ICT Mentor',
+    voiceName: 'Charon',
+    systemInstruction: `You are an ICT (Inner Circle Trader) mentor reviewing charts with a student.
+
+- Read the chart in terms of market structure shifts, liquidity pools, fair value gaps, order blocks and premium/discount.
+- When you point something out, mark it on the board so the student can see it.
+- Ask the student what they see before giving your own read.`,
+    allowedTools: null,
+    avatar: 'https://picsum.photos/seed/ict-mentor/101/101'
+  },
+  {
+    id: 'risk-manager',
+    name: 'Risk Manager',
+    voiceName: 'Fenrir',
+    systemInstruction: `You are a strict risk manager sitting in on a trading session.
+
+- Challenge every trade idea on position size, stop placement and risk/reward before anything else.
+- Flag trades risking more than 1-2% of the account, and stops placed inside obvious liquidity.
+- Use long/short position tools to show the risk you are talking about. Be direct and brief.`,
+    allowedTools: ['draw_position', 'draw_level', 'add_text', ...READ_ONLY_TOOLS],
+    avatar: 'https://picsum.photos/seed/risk-manager/101/101'
+  },
+  {
+    id: 'beginner-tutor',
+    name: 'Beginner Tutor',
+    voiceName: 'Aoede',
+    systemInstruction: `You are a patient tutor for someone new to trading.
+
+- Explain one idea at a time in plain language, and define any jargon the first time you use it.
+- Check that the user followed before moving on.
+- Do not give trade calls; focus on teaching how to read the chart.`,
+    allowedTools: READ_ONLY_TOOLS,
+    avatar: 'https://picsum.photos/seed/beginner-tutor/101/101'
+  }
+];
+
+export const DEFAULT_PERSONA_LIBRARY: PersonaLibrary = {
+  personas: DEFAULT_PERSONAS,
+  activePersonaId: DEFAULT_PERSONAS[0].id
+};
+
+export const createPersonaId = () => `persona-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export function createPersona(base: Partial<Persona> = {}): Persona {
+  return {
+    name: 'New Persona',
+    voiceName: 'Kore',
+    systemInstruction: '',
+    allowedTools: null,
+    avatar: DEFAULT_AVATAR,
+    ...base,
+    id: createPersonaId()
+  };
+}
+
+// Falls back to the first persona if the active one was deleted
+export function getActivePersona(library: PersonaLibrary): Persona {
+  return library.personas.find(p => p.id === library.activePersonaId) ?? library.personas[0] ?? DEFAULT_PERSONAS[0];
+}
+
+export function isToolAllowed(persona: Persona, toolName: string) {
+  return persona.allowedTools === null || persona.allowedTools.includes(toolName);
+}
+
+const normalizePersona = (raw: any, index: number): Persona => {
+  if (!raw || typeof raw !== 'object' || typeof raw.name !== 'string' || typeof raw.systemInstruction !== 'string') {
+    throw new Error(`Invalid persona at index ${index}`);
+  }
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createPersonaId(),
+    name: raw.name,
+    voiceName: typeof raw.voiceName === 'string' ? raw.voiceName : 'Kore',
+    systemInstruction: raw.systemInstruction,
+    allowedTools: Array.isArray(raw.allowedTools) ? raw.allowedTools.filter((t: unknown) => typeof t === 'string') : null,
+    avatar: typeof raw.avatar === 'string' && raw.avatar ? raw.avatar : DEFAULT_AVATAR
+  };
+};
+
+export function loadPersonaLibrary(): PersonaLibrary {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_PERSONA_LIBRARY;
+    const stored = JSON.parse(raw);
+    const personas = Array.isArray(stored?.personas) ? stored.personas.map(normalizePersona) : [];
+    if (personas.length === 0) return DEFAULT_PERSONA_LIBRARY;
+    return { personas, activePersonaId: typeof stored.activePersonaId === 'string' ? stored.activePersonaId : personas[0].id };
+  } catch (e) {
+    console.error('Failed to load personas', e);
+    return DEFAULT_PERSONA_LIBRARY;
+  }
+}
+
+export function savePersonaLibrary(library: PersonaLibrary) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+  } catch (e) {
+    // Usually the quota, from a large uploaded avatar
+    console.error('Failed to save personas', e);
+  }
+}
+
+export function serializePersonas(personas: Persona[]): string {
+  return JSON.stringify({ type: PERSONA_FILE_TYPE, version: PERSONA_FILE_VERSION, personas }, null, 2);
+}
+
+// Accepts an exported library, a bare array of personas, or a single persona
+export function parsePersonas(json: string): Persona[] {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    throw new Error('Persona file is not valid JSON');
+  }
+  if (raw?.type !== undefined && raw.type !== PERSONA_FILE_TYPE) throw new Error('Not an Annotate persona file');
+  if (typeof raw?.version === 'number' && raw.version > PERSONA_FILE_VERSION) {
+    throw new Error(`Persona file version ${raw.version} is newer than this app supports (${PERSONA_FILE_VERSION})`);
+  }
+  const list = Array.isArray(raw) ? raw : Array.isArray(raw?.personas) ? raw.personas : [raw];
+  if (list.length === 0) throw new Error('Persona file has no personas');
+  return list.map(normalizePersona);
+}
+
+// Imported personas replace ones with the same id, so re-importing an edited export updates in place
+export function mergePersonas(existing: Persona[], imported: Persona[]): Persona[] {
+  const importedById = new Map(imported.map(p => [p.id, p]));
+  const merged = existing.map(p => importedById.get(p.id) ?? p);
+  const existingIds = new Set(existing.map(p => p.id));
+  return [...merged, ...imported.filter(p => !existingIds.has(p.id))];
+}
+
+export function downloadPersonas(personas: Persona[], fileName: string = 'personas') {
+  const blob = new Blob([serializePersonas(personas)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const safeName = fileName.trim().replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'personas';
+  const link = document.createElement('a');
+  link.download = `${safeName}${PERSONA_FILE_EXTENSION}`;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function readPersonaFile(file: File): Promise<Persona[]> {
+  return file.text().then(parsePersonas);
+}
@@ -0,0 +1,119 @@
+
+import { DrawingElement } from '../types';
+import { ChartAxis, formatPrice } from './chartAnchor';
+
+export const DEFAULT_ACCOUNT_BALANCE = 10000;
+export const DEFAULT_RISK_PERCENT = 1;
+export const DEFAULT_PIP_SIZE = 0.0001;
+export const STANDARD_LOT_UNITS = 100000;
+
+export interface PositionInput {
+  isLong: boolean;
+  entry: number;
+  stop: number;
+  target: number;
+  accountBalance: number;
+  riskPercent: number;
+  pipSize: number;
+}
+
+export interface PositionMetrics {
+  entry: number;
+  stop: number;
+  target: number;
+  riskPips: number;
+  rewardPips: number;
+  riskReward: number;  // reward / risk, 0 when the stop sits on the entry
+  riskAmount: number;  // account currency
+  rewardAmount: number;
+  units: number;       // position size in base currency units
+  lots: number;
+  isValid: boolean;    // stop and target are on the correct sides of the entry
+}
+
+export function computePositionMetrics(input: PositionInput): PositionMetrics {
+  const { isLong, entry, stop, target, accountBalance, riskPercent, pipSize } = input;
+  const riskDistance = Math.abs(entry - stop);
+  const rewardDistance = Math.abs(target - entry);
+  const isValid = isLong ? (stop < entry && target > entry) : (stop > entry && target < entry);
+
+  const riskAmount = accountBalance * (riskPercent / 100);
+  const units = riskDistance > 0 ? riskAmount / riskDistance : 0;
+
+  return {
+    entry,
+    stop,
+    target,
+    riskPips: pipSize > 0 ? riskDistance / pipSize : 0,
+    rewardPips: pipSize > 0 ? rewardDistance / pipSize : 0,
+    riskReward: riskDistance > 0 ? rewardDistance / riskDistance : 0,
+    riskAmount,
+    rewardAmount: units * rewardDistance,
+    units,
+    lots: units / STANDARD_LOT_UNITS,
+    isValid
+  };
+}
+
+export function formatMoney(amount: number): string {
+  return amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export interface PositionLabel {
+  text: string;
+  background: string;
+}
+
+export interface PositionLabels {
+  top: PositionLabel;
+  bottom: PositionLabel;
+  entry: PositionLabel;
+  entryY: number;
+}
+
+// Entry/stop/target of a position box. Without a calibrated chart, prices fall back to inverted pixel Y so only the R:R is meaningful.
+export function positionMetricsForElement(element: DrawingElement, axis: ChartAxis | null): PositionMetrics {
+  const { y, height = 0 } = element;
+  const top = Math.min(y, y + height);
+  const bottom = Math.max(y, y + height);
+  const entryY = top + (bottom - top) * (element.customData?.entryRatio ?? 0.5);
+  const isLong = element.type === 'long_position';
+  const toPrice = (py: number) => axis ? axis.yToPrice(py) : -py;
+
+  return computePositionMetrics({
+    isLong,
+    entry: toPrice(entryY),
+    stop: toPrice(isLong ? bottom : top),
+    target: toPrice(isLong ? top : bottom),
+    accountBalance: element.customData?.accountBalance ?? DEFAULT_ACCOUNT_BALANCE,
+    riskPercent: element.customData?.riskPercent ?? DEFAULT_RISK_PERCENT,
+    pipSize: element.customData?.pipSize ?? DEFAULT_PIP_SIZE
+  });
+}
+
+// Label text shared by the canvas renderer and the vector exporters
+export function positionLabelsForElement(element: DrawingElement, axis: ChartAxis | null): PositionLabels {
+  const { y, height = 0 } = element;
+  const top = Math.min(y, y + height);
+  const entryY = top + Math.abs(height) * (element.customData?.entryRatio ?? 0.5);
+  const isLong = element.type === 'long_position';
+  const metrics = positionMetricsForElement(element, axis);
+  const hasPrices = !!axis;
+
+  const target: PositionLabel = {
+    text: hasPrices ? `Target ${formatPrice(metrics.target)} (${metrics.rewardPips.toFixed(1)} pips)` : 'Target',
+    background: '#15803d'
+  };
+  const stop: PositionLabel = {
+    text: hasPrices ? `Stop ${formatPrice(metrics.stop)} (${metrics.riskPips.toFixed(1)} pips)` : 'Stop',
+    background: '#b91c1c'
+  };
+  const entry: PositionLabel = {
+    text: hasPrices
+      ? `Entry ${formatPrice(metrics.entry)} · R:R ${metrics.riskReward.toFixed(2)} · ${metrics.lots.toFixed(2)} lots · Risk ${formatMoney(metrics.riskAmount)}`
+      : `R:R ${metrics.riskReward.toFixed(2)}`,
+    background: metrics.isValid ? '#374151' : '#9ca3af'
+  };
+
+  return { top: isLong ? target : stop, bottom: isLong ? stop : target, entry, entryY };
+}
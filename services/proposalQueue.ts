@@ -0,0 +1,63 @@
+
+import { AiProposal } from '../types';
+
+type ProposalChange = Omit<AiProposal, 'id'>;
+
+interface PendingProposal {
+  proposal: AiProposal;
+  resolve: (accepted: boolean) => void;
+}
+
+// Holds AI board changes until the user decides; each propose() resolves with that decision
+export class ProposalQueue {
+  private pending: Map<string, PendingProposal> = new Map();
+  private listeners: Set<(proposals: AiProposal[]) => void> = new Set();
+  private counter = 0;
+
+  propose(change: ProposalChange): Promise<boolean> {
+    const proposal: AiProposal = { ...change, id: `proposal-${Date.now()}-${++this.counter}` };
+    return new Promise(resolve => {
+      this.pending.set(proposal.id, { proposal, resolve });
+      this.notify();
+    });
+  }
+
+  get(id: string): AiProposal | undefined {
+    return this.pending.get(id)?.proposal;
+  }
+
+  get proposals(): AiProposal[] {
+    return Array.from(this.pending.values()).map(p => p.proposal);
+  }
+
+  resolve(id: string, accepted: boolean) {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+    this.pending.delete(id);
+    entry.resolve(accepted);
+    this.notify();
+  }
+
+  // Used when the session ends so no tool call is left waiting
+  rejectAll() {
+    Array.from(this.pending.keys()).forEach(id => this.resolve(id, false));
+  }
+
+  subscribe(listener: (proposals: AiProposal[]) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const proposals = this.proposals;
+    this.listeners.forEach(listener => listener(proposals));
+  }
+}
+
+export const describeProposal = (proposal: AiProposal) => {
+  const action = proposal.toolName.replace(/_/g, ' ');
+  const count = proposal.add.length + proposal.update.length + proposal.remove.length;
+  return count > 1 ? `${action} (${count} elements)` : action;
+};
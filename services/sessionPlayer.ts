@@ -0,0 +1,114 @@
+
+import { AudioChunk, SessionRecording } from './sessionRecorder';
+
+const SCHEDULE_AHEAD_MS = 3000; // Audio queued ahead of the playhead; the rest is scheduled as playback reaches it
+const SCHEDULER_INTERVAL_MS = 500;
+
+// Plays back a recording's audio from any position and exposes the shared playback clock
+export class SessionPlayer {
+  private recording: SessionRecording;
+  private chunks: AudioChunk[]; // By start time
+  private nextChunk = 0; // First chunk not yet scheduled
+  private schedulerInterval: number | null = null;
+  private audioContext: AudioContext | null = null;
+  private sources: Set<AudioBufferSourceNode> = new Set();
+  private position = 0; // ms, valid while paused
+  private playStartedAt = 0; // audioContext time (s) matching `position` when play started
+  private playing = false;
+
+  constructor(recording: SessionRecording) {
+    this.recording = recording;
+    this.chunks = [...recording.audio].sort((a, b) => a.t - b.t);
+  }
+
+  get isPlaying() {
+    return this.playing;
+  }
+
+  get duration() {
+    return this.recording.duration;
+  }
+
+  get currentTime(): number {
+    if (!this.playing || !this.audioContext) return this.position;
+    const elapsed = (this.audioContext.currentTime - this.playStartedAt) * 1000;
+    return Math.min(this.recording.duration, this.position + elapsed);
+  }
+
+  async play() {
+    if (this.playing) return;
+    if (!this.audioContext) {
+      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    if (this.audioContext.state === 'suspended') await this.audioContext.resume();
+    if (this.position >= this.recording.duration) this.position = 0;
+
+    this.playing = true;
+    this.playStartedAt = this.audioContext.currentTime;
+    this.scheduleFrom(this.position);
+  }
+
+  pause() {
+    if (!this.playing) return;
+    this.position = this.currentTime;
+    this.playing = false;
+    this.stopSources();
+  }
+
+  seek(time: number) {
+    const wasPlaying = this.playing;
+    if (wasPlaying) this.pause();
+    this.position = Math.max(0, Math.min(this.recording.duration, time));
+    if (wasPlaying) this.play();
+  }
+
+  dispose() {
+    this.stopSources();
+    this.playing = false;
+    this.audioContext?.close();
+    this.audioContext = null;
+  }
+
+  private scheduleFrom(from: number) {
+    const chunkEnd = (chunk: AudioChunk) => chunk.t + (chunk.samples.length / chunk.sampleRate) * 1000;
+    this.nextChunk = this.chunks.findIndex(chunk => chunkEnd(chunk) > from);
+    if (this.nextChunk === -1) this.nextChunk = this.chunks.length;
+    this.scheduleAhead();
+    this.schedulerInterval = window.setInterval(() => this.scheduleAhead(), SCHEDULER_INTERVAL_MS);
+  }
+
+  // Queues the chunks starting within the look-ahead window; `position` is the recording time at `playStartedAt`
+  private scheduleAhead() {
+    const ctx = this.audioContext;
+    if (!ctx || !this.playing) return;
+    const horizon = this.currentTime + SCHEDULE_AHEAD_MS;
+
+    while (this.nextChunk < this.chunks.length && this.chunks[this.nextChunk].t < horizon) {
+      const chunk = this.chunks[this.nextChunk++];
+      const buffer = ctx.createBuffer(1, chunk.samples.length, chunk.sampleRate);
+      buffer.getChannelData(0).set(chunk.samples);
+
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => this.sources.delete(source);
+
+      // A chunk already in progress at the start position starts part-way through
+      const delay = Math.max(0, chunk.t - this.position) / 1000;
+      const offset = Math.max(0, this.position - chunk.t) / 1000;
+      source.start(this.playStartedAt + delay, offset);
+      this.sources.add(source);
+    }
+  }
+
+  private stopSources() {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+    }
+    this.sources.forEach(source => {
+      try { source.stop(); } catch (e) {}
+    });
+    this.sources.clear();
+  }
+}
@@ -0,0 +1,235 @@
+
+import { DrawingElement, SyncOperation } from '../types';
+import { applyOperationsToElements } from './boardSync';
+import { arrayBufferToBase64, base64ToUint8Array } from './audioUtils';
+
+export const SESSION_FILE_TYPE = 'annotate-session';
+export const SESSION_FILE_VERSION = 1;
+export const SESSION_FILE_EXTENSION = '.annotate-session.json';
+
+const KEYFRAME_INTERVAL = 50; // Mutations between cached snapshots used for seeking
+
+export type ElementMutation = Omit<SyncOperation, 'version'>;
+
+// All timestamps (t) are milliseconds since the recording started
+export interface MutationEvent {
+  t: number;
+  ops: ElementMutation[];
+}
+
+export interface AudioChunk {
+  t: number;
+  source: 'mic' | 'model';
+  sampleRate: number;
+  samples: Float32Array;
+}
+
+export interface TranscriptEvent {
+  t: number;
+  isModel: boolean;
+  text: string | null; // null marks an interruption
+}
+
+export interface SessionRecording {
+  startedAt: string;
+  duration: number;
+  initialElements: DrawingElement[];
+  mutations: MutationEvent[];
+  audio: AudioChunk[];
+  transcripts: TranscriptEvent[];
+}
+
+// Diffs by reference, like BoardSyncService.publish: unchanged elements keep their object identity
+const diffElements = (prev: DrawingElement[], next: DrawingElement[]): ElementMutation[] => {
+  const ops: ElementMutation[] = [];
+  const prevById = new Map(prev.map(el => [el.id, el]));
+  const nextIds = new Set<string>();
+  next.forEach(el => {
+    nextIds.add(el.id);
+    const before = prevById.get(el.id);
+    if (before !== el) ops.push({ kind: before ? 'update' : 'add', elementId: el.id, element: el });
+  });
+  prev.forEach(el => {
+    if (!nextIds.has(el.id)) ops.push({ kind: 'delete', elementId: el.id });
+  });
+  return ops;
+};
+
+export class SessionRecorder {
+  private startTime = 0;
+  private startedAt = '';
+  private lastElements: DrawingElement[] = [];
+  private initialElements: DrawingElement[] = [];
+  private mutations: MutationEvent[] = [];
+  private audio: AudioChunk[] = [];
+  private transcripts: TranscriptEvent[] = [];
+  private modelPlayhead = 0; // Model audio arrives faster than real time; track when it actually plays
+  private recording = false;
+
+  get isRecording() {
+    return this.recording;
+  }
+
+  start(elements: DrawingElement[]) {
+    this.startTime = performance.now();
+    this.startedAt = new Date().toISOString();
+    this.initialElements = elements;
+    this.lastElements = elements;
+    this.mutations = [];
+    this.audio = [];
+    this.transcripts = [];
+    this.modelPlayhead = 0;
+    this.recording = true;
+  }
+
+  stop(): SessionRecording {
+    this.recording = false;
+    const lastAudio = this.audio.reduce((end, c) => Math.max(end, c.t + (c.samples.length / c.sampleRate) * 1000), 0);
+    return {
+      startedAt: this.startedAt,
+      duration: Math.max(this.now(), lastAudio),
+      initialElements: this.initialElements,
+      mutations: this.mutations,
+      audio: this.audio,
+      transcripts: this.transcripts
+    };
+  }
+
+  recordElements(elements: DrawingElement[]) {
+    if (!this.recording) return;
+    const ops = diffElements(this.lastElements, elements);
+    this.lastElements = elements;
+    if (ops.length > 0) this.mutations.push({ t: this.now(), ops });
+  }
+
+  // Mic chunks are timestamped at the start of the captured audio
+  recordMicAudio(samples: Float32Array, sampleRate: number) {
+    if (!this.recording) return;
+    const duration = (samples.length / sampleRate) * 1000;
+    this.audio.push({ t: Math.max(0, this.now() - duration), source: 'mic', sampleRate, samples: samples.slice() });
+  }
+
+  recordModelAudio(buffer: AudioBuffer) {
+    if (!this.recording) return;
+    const t = Math.max(this.now(), this.modelPlayhead);
+    this.audio.push({ t, source: 'model', sampleRate: buffer.sampleRate, samples: buffer.getChannelData(0).slice() });
+    this.modelPlayhead = t + buffer.duration * 1000;
+  }
+
+  recordTranscription(text: string | null, isModel: boolean) {
+    if (!this.recording) return;
+    // An interruption stops queued model audio, so later chunks play immediately
+    if (text === null && isModel) this.modelPlayhead = this.now();
+    this.transcripts.push({ t: this.now(), isModel, text });
+  }
+
+  private now() {
+    return performance.now() - this.startTime;
+  }
+}
+
+// --- Replay Helpers ---
+
+export interface RecordingIndex {
+  keyframes: { mutationIndex: number; elements: DrawingElement[] }[];
+}
+
+export function indexRecording(recording: SessionRecording): RecordingIndex {
+  const keyframes: RecordingIndex['keyframes'] = [{ mutationIndex: 0, elements: recording.initialElements }];
+  let elements = recording.initialElements;
+  recording.mutations.forEach((m, i) => {
+    elements = applyOperationsToElements(elements, m.ops);
+    if ((i + 1) % KEYFRAME_INTERVAL === 0) keyframes.push({ mutationIndex: i + 1, elements });
+  });
+  return { keyframes };
+}
+
+// Board state at time t, replayed from the nearest keyframe
+export function elementsAtTime(recording: SessionRecording, index: RecordingIndex, t: number): DrawingElement[] {
+  let end = 0;
+  while (end < recording.mutations.length && recording.mutations[end].t <= t) end++;
+  let keyframe = index.keyframes[0];
+  for (const k of index.keyframes) {
+    if (k.mutationIndex <= end) keyframe = k;
+    else break;
+  }
+  let elements = keyframe.elements;
+  for (let i = keyframe.mutationIndex; i < end; i++) {
+    elements = applyOperationsToElements(elements, recording.mutations[i].ops);
+  }
+  return elements;
+}
+
+// Model captions accumulate per turn; an interruption clears them
+export function captionAtTime(recording: SessionRecording, t: number): string {
+  let caption = '';
+  for (const event of recording.transcripts) {
+    if (event.t > t) break;
+    if (!event.isModel) continue;
+    caption = event.text === null ? '' : caption + event.text;
+  }
+  return caption;
+}
+
+// --- Session Files ---
+
+const encodeSamples = (samples: Float32Array) => {
+  const int16 = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  }
+  return arrayBufferToBase64(int16.buffer);
+};
+
+const decodeSamples = (base64: string) => {
+  const bytes = base64ToUint8Array(base64);
+  const int16 = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+  const samples = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) samples[i] = int16[i] / 32768;
+  return samples;
+};
+
+export function serializeRecording(recording: SessionRecording): string {
+  return JSON.stringify({
+    type: SESSION_FILE_TYPE,
+    version: SESSION_FILE_VERSION,
+    ...recording,
+    audio: recording.audio.map(c => ({ t: c.t, source: c.source, sampleRate: c.sampleRate, pcm: encodeSamples(c.samples) }))
+  });
+}
+
+export function parseRecording(json: string): SessionRecording {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch (e) {
+    throw new Error('Session file is not valid JSON');
+  }
+  if (raw?.type !== SESSION_FILE_TYPE) throw new Error('Not an Annotate session recording');
+  if (raw.version > SESSION_FILE_VERSION) {
+    throw new Error(`Session file version ${raw.version} is newer than this app supports (${SESSION_FILE_VERSION})`);
+  }
+  return {
+    startedAt: raw.startedAt ?? new Date(0).toISOString(),
+    duration: Number(raw.duration) || 0,
+    initialElements: raw.initialElements ?? [],
+    mutations: raw.mutations ?? [],
+    audio: (raw.audio ?? []).map((c: any) => ({ t: c.t, source: c.source, sampleRate: c.sampleRate, samples: decodeSamples(c.pcm) })),
+    transcripts: raw.transcripts ?? []
+  };
+}
+
+export function downloadRecording(recording: SessionRecording) {
+  const blob = new Blob([serializeRecording(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = `session-${recording.startedAt.replace(/[:.]/g, '-')}${SESSION_FILE_EXTENSION}`;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function readRecordingFile(file: File): Promise<SessionRecording> {
+  return file.text().then(parseRecording);
+}
@@ -0,0 +1,67 @@
+
+import { DrawingElement } from '../types';
+
+export const TEXT_LINE_HEIGHT = 1.2;
+export const MAX_AUTO_TEXT_WIDTH = 480; // Text grows to this width, then wraps
+
+export interface TextLayout {
+  lines: string[];
+  width: number;
+  height: number;
+  lineHeight: number;
+}
+
+export const fontForElement = (element: DrawingElement) =>
+  `${element.fontStyle || 'normal'} ${element.fontWeight || 'normal'} ${element.fontSize || 24}px '${element.fontFamily || 'Kalam'}'`;
+
+const wrapParagraph = (ctx: CanvasRenderingContext2D, paragraph: string, maxWidth: number): string[] => {
+  if (paragraph === '') return [''];
+  const lines: string[] = [];
+  let line = '';
+
+  const pushWord = (word: string) => {
+    // Break words that are longer than a whole line
+    let rest = word;
+    while (ctx.measureText(rest).width > maxWidth && rest.length > 1) {
+      let cut = rest.length - 1;
+      while (cut > 1 && ctx.measureText(rest.slice(0, cut)).width > maxWidth) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    line = rest;
+  };
+
+  paragraph.split(/(\s+)/).forEach(token => {
+    if (token === '') return;
+    const candidate = line + token;
+    if (ctx.measureText(candidate).width <= maxWidth) {
+      line = candidate;
+    } else if (/^\s+$/.test(token)) {
+      lines.push(line);
+      line = '';
+    } else {
+      if (line.trim() !== '') lines.push(line.replace(/\s+$/, ''));
+      pushWord(token);
+    }
+  });
+  lines.push(line);
+  return lines;
+};
+
+// Lays out an element's text with explicit newlines and word wrapping at maxWidth
+export function layoutText(ctx: CanvasRenderingContext2D, element: DrawingElement, maxWidth: number = MAX_AUTO_TEXT_WIDTH): TextLayout {
+  ctx.save();
+  ctx.font = fontForElement(element);
+  const lines = (element.text || '').split('\n').flatMap(p => wrapParagraph(ctx, p, maxWidth));
+  const width = Math.max(0, ...lines.map(l => ctx.measureText(l).width));
+  ctx.restore();
+
+  const lineHeight = (element.fontSize || 24) * TEXT_LINE_HEIGHT;
+  return { lines, width, height: lines.length * lineHeight, lineHeight };
+}
+
+// Returns the element with width/height fitted to its text
+export function fitTextElement(ctx: CanvasRenderingContext2D, element: DrawingElement): DrawingElement {
+  const { width, height } = layoutText(ctx, element);
+  return { ...element, width, height };
+}
@@ -0,0 +1,161 @@
+
+import { DrawingElement, DrawingImportResult, Point } from '../types';
+import { ChartAxis } from './chartAnchor';
+import { DEFAULT_PIP_SIZE } from './positionCalculator';
+
+// TradingView stores drawings in market coordinates, so they can only be placed on a calibrated chart
+export interface ChartFrame {
+  axis: ChartAxis;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+interface TradingViewPoint {
+  time_t: number; // Unix seconds
+  price: number;
+  offset?: number;
+}
+
+interface TradingViewSource {
+  id?: string;
+  type: string;
+  points?: TradingViewPoint[];
+  state?: Record<string, any>;
+}
+
+// TradingView quotes risk/reward levels in ticks; a tick on 5-digit FX quotes is a tenth of a pip
+const DEFAULT_TICK_SIZE = DEFAULT_PIP_SIZE / 10;
+const DEFAULT_POSITION_WIDTH = 200;
+
+const LINE_STYLES: Record<number, DrawingElement['strokeStyle']> = { 0: 'solid', 1: 'dotted', 2: 'dashed' };
+
+// Drawings can come from a chart layout export, a single pane, or a bare list of line tools
+const collectSources = (raw: any): TradingViewSource[] => {
+  if (typeof raw === 'string') {
+    try {
+      return collectSources(JSON.parse(raw));
+    } catch {
+      return [];
+    }
+  }
+  if (Array.isArray(raw)) {
+    return raw.flatMap(item => (item && typeof item.type === 'string' && item.type.startsWith('LineTool')) ? [item] : collectSources(item));
+  }
+  if (!raw || typeof raw !== 'object') return [];
+  if (typeof raw.type === 'string' && raw.type.startsWith('LineTool')) return [raw];
+  return ['content', 'charts', 'panes', 'sources', 'drawings'].flatMap(key => raw[key] !== undefined ? collectSources(raw[key]) : []);
+};
+
+export const isTradingViewDrawings = (raw: any) => collectSources(raw).length > 0;
+
+export function importTradingView(raw: any, frame: ChartFrame, tickSize: number = DEFAULT_TICK_SIZE): DrawingImportResult {
+  const sources = collectSources(raw);
+  if (sources.length === 0) throw new Error('No TradingView drawings found');
+  const { axis } = frame;
+  const elements: DrawingElement[] = [];
+  const unsupported: Record<string, number> = {};
+
+  const toWorld = (p: TradingViewPoint): Point => ({ x: axis.timeToX(p.time_t * 1000), y: axis.priceToY(p.price) });
+
+  sources.forEach((source, index) => {
+    const state = source.state ?? {};
+    const sourcePoints = (source.points ?? []).filter(p => Number.isFinite(p?.time_t) && Number.isFinite(p?.price));
+    const points = sourcePoints.map(toWorld);
+    const typeName = source.type.replace(/^LineTool/, '');
+    const skip = (reason?: string) => {
+      const key = reason ? `${typeName} (${reason})` : typeName;
+      unsupported[key] = (unsupported[key] ?? 0) + 1;
+    };
+    if (points.length === 0) {
+      skip('no points');
+      return;
+    }
+
+    const base: DrawingElement = {
+      id: `tv-${source.id ?? index}-${Date.now()}`,
+      type: 'line',
+      x: points[0].x,
+      y: points[0].y,
+      strokeColor: state.linecolor ?? state.color ?? '#2962ff',
+      backgroundColor: 'transparent',
+      strokeWidth: state.linewidth ?? 2,
+      strokeStyle: LINE_STYLES[state.linestyle ?? 0] ?? 'solid',
+      opacity: 100
+    };
+    const segment = (type: DrawingElement['type'], start: Point, end: Point, extra: Partial<DrawingElement> = {}): DrawingElement =>
+      ({ ...base, ...extra, type, x: start.x, y: start.y, width: end.x - start.x, height: end.y - start.y });
+
+    switch (source.type) {
+      case 'LineToolTrendLine':
+      case 'LineToolRay':
+      case 'LineToolExtended':
+        if (points.length < 2) return skip('one point');
+        elements.push(segment('line', points[0], points[1], { endArrowhead: state.rightEnd === 1 ? 'arrow' : null, startArrowhead: state.leftEnd === 1 ? 'arrow' : null }));
+        break;
+      case 'LineToolArrow':
+        if (points.length < 2) return skip('one point');
+        elements.push(segment('arrow', points[0], points[1]));
+        break;
+      case 'LineToolHorzLine':
+        elements.push(segment('line', { x: frame.left, y: points[0].y }, { x: frame.right, y: points[0].y }));
+        break;
+      case 'LineToolHorzRay':
+        elements.push(segment('line', points[0], { x: frame.right, y: points[0].y }));
+        break;
+      case 'LineToolVertLine':
+        elements.push(segment('line', { x: points[0].x, y: frame.top }, { x: points[0].x, y: frame.bottom }));
+        break;
+      case 'LineToolRectangle':
+        if (points.length < 2) return skip('one point');
+        elements.push(segment('rectangle', points[0], points[1], { strokeColor: state.color ?? base.strokeColor }));
+        break;
+      case 'LineToolPath':
+      case 'LineToolPolyline':
+        elements.push({ ...base, type: 'path', points, endArrowhead: source.type === 'LineToolPath' ? 'arrow' : null });
+        break;
+      case 'LineToolBrush':
+        elements.push({ ...base, type: 'pencil', points });
+        break;
+      case 'LineToolText':
+      case 'LineToolNote':
+        elements.push({
+          ...base,
+          type: 'text',
+          text: state.text ?? '',
+          strokeColor: state.color ?? state.textColor ?? '#131722',
+          fontSize: state.fontsize ?? state.fontSize ?? 14,
+          fontFamily: 'Inter',
+          fontWeight: state.bold ? 'bold' : 'normal',
+          fontStyle: state.italic ? 'italic' : 'normal'
+        });
+        break;
+      case 'LineToolRiskRewardLong':
+      case 'LineToolRiskRewardShort': {
+        const isLong = source.type === 'LineToolRiskRewardLong';
+        const entryPrice = sourcePoints[0].price;
+        const stopPrice = state.stopPrice ?? entryPrice + (isLong ? -1 : 1) * (state.stopLevel ?? 0) * tickSize;
+        const targetPrice = state.targetPrice ?? entryPrice + (isLong ? 1 : -1) * (state.profitLevel ?? 0) * tickSize;
+        if (stopPrice === entryPrice || targetPrice === entryPrice) return skip('no stop/target');
+        const topY = axis.priceToY(isLong ? targetPrice : stopPrice);
+        const bottomY = axis.priceToY(isLong ? stopPrice : targetPrice);
+        const right = points[1]?.x ?? points[0].x + DEFAULT_POSITION_WIDTH;
+        elements.push({
+          ...base,
+          type: isLong ? 'long_position' : 'short_position',
+          x: points[0].x,
+          y: topY,
+          width: right - points[0].x,
+          height: bottomY - topY,
+          customData: { entryRatio: (points[0].y - topY) / (bottomY - topY) }
+        });
+        break;
+      }
+      default:
+        skip();
+    }
+  });
+
+  return { elements, unsupported };
+}
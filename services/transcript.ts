@@ -0,0 +1,65 @@
+
+export type TranscriptSpeaker = 'user' | 'model';
+
+export interface TranscriptEntry {
+  id: string;
+  speaker: TranscriptSpeaker;
+  text: string;
+  startedAt: number; // Unix ms
+  endedAt: number;
+  isFinal: boolean; // False while the speaker's turn is still streaming in
+}
+
+// Appends streamed transcription to the open turn of the same speaker, or starts a new turn
+export function appendTranscript(entries: TranscriptEntry[], speaker: TranscriptSpeaker, text: string, now: number = Date.now()): TranscriptEntry[] {
+  const last = entries[entries.length - 1];
+  if (last && last.speaker === speaker && !last.isFinal) {
+    return [...entries.slice(0, -1), { ...last, text: last.text + text, endedAt: now }];
+  }
+  // The other side has started talking, so the previous turn is over
+  const closed = last && !last.isFinal ? [...entries.slice(0, -1), { ...last, isFinal: true }] : entries;
+  return [...closed, { id: `${now}-${closed.length}`, speaker, text, startedAt: now, endedAt: now, isFinal: false }];
+}
+
+export function closeTranscriptTurn(entries: TranscriptEntry[], speaker?: TranscriptSpeaker): TranscriptEntry[] {
+  const last = entries[entries.length - 1];
+  if (!last || last.isFinal || (speaker && last.speaker !== speaker)) return entries;
+  return [...entries.slice(0, -1), { ...last, isFinal: true }];
+}
+
+export function searchTranscript(entries: TranscriptEntry[], query: string): TranscriptEntry[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return entries;
+  return entries.filter(e => e.text.toLowerCase().includes(q));
+}
+
+const pad = (n: number, width: number = 2) => n.toString().padStart(width, '0');
+
+// Clock offset from the start of the conversation, e.g. 01:02:03
+export const formatOffset = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  return `${pad(Math.floor(total / 3600))}:${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+};
+
+const srtTimestamp = (ms: number) => {
+  const clamped = Math.max(0, Math.round(ms));
+  return `${formatOffset(clamped)},${pad(clamped % 1000, 3)}`;
+};
+
+export function transcriptToMarkdown(entries: TranscriptEntry[], speakerNames: Record<TranscriptSpeaker, string>, title: string): string {
+  const start = entries[0]?.startedAt ?? Date.now();
+  const lines = [`# ${title}`, '', `_${new Date(start).toLocaleString()}_`, ''];
+  entries.forEach(e => {
+    lines.push(`**${speakerNames[e.speaker]}** \`${formatOffset(e.startedAt - start)}\``, '', e.text.trim(), '');
+  });
+  return lines.join('\n');
+}
+
+export function transcriptToSrt(entries: TranscriptEntry[], speakerNames: Record<TranscriptSpeaker, string>): string {
+  const start = entries[0]?.startedAt ?? 0;
+  return entries.map((e, i) => {
+    // Streaming updates can leave a turn with no duration; keep each cue on screen briefly
+    const end = Math.max(e.endedAt, e.startedAt + 1000);
+    return `${i + 1}\n${srtTimestamp(e.startedAt - start)} --> ${srtTimestamp(end - start)}\n${speakerNames[e.speaker]}: ${e.text.trim()}\n`;
+  }).join('\n');
+}
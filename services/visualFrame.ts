@@ -0,0 +1,88 @@
+
+import { Point } from '../types';
+
+// Where a frame sent to the model sits on the board: frame pixel = board point * scale + pan
+export interface FrameTransform {
+  panX: number;
+  panY: number;
+  scale: number;
+  width: number; // Frame size in pixels
+  height: number;
+}
+
+export interface VisualFrameOptions {
+  grid: boolean; // Overlay labelled pixel coordinates the model can read positions from
+  isDarkMode: boolean;
+  resolution?: number; // Frame size relative to the canvas, 1 by default
+}
+
+export const FRAME_GRID_SPACING = 100;
+
+export const frameToWorld = (transform: FrameTransform, point: Point): Point => ({
+  x: (point.x - transform.panX) / transform.scale,
+  y: (point.y - transform.panY) / transform.scale
+});
+
+export const worldToFrame = (transform: FrameTransform, point: Point): Point => ({
+  x: point.x * transform.scale + transform.panX,
+  y: point.y * transform.scale + transform.panY
+});
+
+// The transform of a frame resized by `factor`, so tool coordinates stay in the pixels the model saw
+export const scaleFrameTransform = (transform: FrameTransform, factor: number): FrameTransform => ({
+  panX: transform.panX * factor,
+  panY: transform.panY * factor,
+  scale: transform.scale * factor,
+  width: Math.round(transform.width * factor),
+  height: Math.round(transform.height * factor)
+});
+
+export const createFrameTransform = (canvas: HTMLCanvasElement, panOffset: Point, scale: number): FrameTransform => ({
+  panX: panOffset.x,
+  panY: panOffset.y,
+  scale,
+  width: canvas.width,
+  height: canvas.height
+});
+
+const drawLabel = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, isDarkMode: boolean) => {
+  const width = ctx.measureText(text).width + 6;
+  ctx.fillStyle = isDarkMode ? 'rgba(18, 18, 18, 0.8)' : 'rgba(255, 255, 255, 0.8)';
+  ctx.fillRect(x, y, width, 14);
+  ctx.fillStyle = '#db2777';
+  ctx.fillText(text, x + 3, y + 11);
+};
+
+// The frame for the model: the visible board at the requested resolution, plus the coordinate grid when enabled
+export function composeVisualFrame(source: HTMLCanvasElement, options: VisualFrameOptions): HTMLCanvasElement {
+  const resolution = options.resolution ?? 1;
+  if (!options.grid && resolution === 1) return source;
+
+  const frame = document.createElement('canvas');
+  frame.width = Math.round(source.width * resolution);
+  frame.height = Math.round(source.height * resolution);
+  const ctx = frame.getContext('2d');
+  if (!ctx) return source;
+
+  ctx.drawImage(source, 0, 0, frame.width, frame.height);
+  if (!options.grid) return frame;
+
+  ctx.strokeStyle = 'rgba(219, 39, 119, 0.35)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let x = FRAME_GRID_SPACING; x < frame.width; x += FRAME_GRID_SPACING) {
+    ctx.moveTo(x + 0.5, 0);
+    ctx.lineTo(x + 0.5, frame.height);
+  }
+  for (let y = FRAME_GRID_SPACING; y < frame.height; y += FRAME_GRID_SPACING) {
+    ctx.moveTo(0, y + 0.5);
+    ctx.lineTo(frame.width, y + 0.5);
+  }
+  ctx.stroke();
+
+  ctx.font = '10px monospace';
+  for (let x = FRAME_GRID_SPACING; x < frame.width; x += FRAME_GRID_SPACING) drawLabel(ctx, `x${x}`, x + 2, 2, options.isDarkMode);
+  for (let y = FRAME_GRID_SPACING; y < frame.height; y += FRAME_GRID_SPACING) drawLabel(ctx, `y${y}`, 2, y + 2, options.isDarkMode);
+
+  return frame;
+}
@@ -0,0 +1,71 @@
+
+const MIN_SPEECH_RMS = 0.003; // Below this nothing counts as speech, however quiet the room
+const MIN_NOISE_FLOOR = 0.0005;
+const HANGOVER_MS = 600; // Pauses shorter than this don't end an utterance
+const BARGE_IN_FACTOR = 2.5; // The model's own voice leaks into the mic, so interrupting it takes more
+const BARGE_IN_CHUNKS = 2; // ...and has to be sustained
+const SPEECH_FLOOR_RISE_MS = 30000; // Time constant for the floor creeping up mid-utterance, so a new steady noise (a fan) can't hold the gate open
+
+// Energy-based speech detector over the mic chunk levels, with an adaptive noise floor
+export class VoiceActivityDetector {
+  private sensitivity: number;
+  private noiseFloor = 0.002;
+  private speaking = false;
+  private loudChunks = 0;
+  private silentSince: number | null = null;
+  private lastLoudAt: number | null = null;
+
+  // 0 (only loud, close speech) to 1 (picks up soft speech, and more noise)
+  constructor(sensitivity: number = 0.5) {
+    this.sensitivity = sensitivity;
+  }
+
+  get isSpeaking() {
+    return this.speaking;
+  }
+
+  setSensitivity(sensitivity: number) {
+    this.sensitivity = Math.max(0, Math.min(1, sensitivity));
+  }
+
+  // Feeds one chunk's RMS level and returns whether the user is speaking after it
+  process(rms: number, now: number, modelSpeaking: boolean): boolean {
+    const ratio = 6 - 4.2 * this.sensitivity; // Speech must be this many times louder than the room
+    const threshold = Math.max(MIN_SPEECH_RMS, this.noiseFloor * ratio) * (modelSpeaking ? BARGE_IN_FACTOR : 1);
+
+    if (rms > threshold) {
+      this.loudChunks++;
+      this.silentSince = null;
+      if (!this.speaking && this.loudChunks >= (modelSpeaking ? BARGE_IN_CHUNKS : 1)) this.speaking = true;
+      // An utterance barely moves it, and silence pulls it back down quickly; an unbroken hum becomes the floor
+      if (this.speaking && this.lastLoudAt !== null) {
+        const weight = 1 - Math.exp(-(now - this.lastLoudAt) / SPEECH_FLOOR_RISE_MS);
+        this.noiseFloor += (rms - this.noiseFloor) * weight;
+      }
+      this.lastLoudAt = this.speaking ? now : null;
+      return this.speaking;
+    }
+
+    this.loudChunks = 0;
+    if (this.speaking) {
+      this.silentSince ??= now;
+      if (now - this.silentSince > HANGOVER_MS) {
+        this.speaking = false;
+        this.silentSince = null;
+        this.lastLoudAt = null;
+      }
+    } else if (!modelSpeaking) {
+      // Learn the room only in silence: follow drops quickly, rises slowly
+      const weight = rms < this.noiseFloor ? 0.3 : 0.02;
+      this.noiseFloor = Math.max(MIN_NOISE_FLOOR, this.noiseFloor * (1 - weight) + rms * weight);
+    }
+    return this.speaking;
+  }
+
+  reset() {
+    this.speaking = false;
+    this.loudChunks = 0;
+    this.silentSince = null;
+    this.lastLoudAt = null;
+  }
+}
@@ -51,7 +51,58 @@ export interface DrawingElement {
   // Complex shapes data
   customData?: {
     entryRatio?: number; // 0 to 1, defines where the entry line is relative to height
+    // Position sizing for long/short positions
+    accountBalance?: number;
+    riskPercent?: number; // 0 to 100
+    pipSize?: number;     // e.g. 0.0001, or 0.01 for JPY pairs
   };
+
+  // Market coordinates of the element's start/end points, set when a chart is calibrated
+  anchors?: PriceTimeAnchor[];
+
+  createdBy?: 'user' | 'ai'; // Missing means drawn by a person
+
+  hidden?: boolean;
+  locked?: boolean; // Can't be picked, moved or erased on the canvas; still editable from the layers panel
+  layerId?: string; // Missing means the default layer (or the AI layer, for AI-created elements)
+  groupId?: string; // Elements sharing a group are selected, moved and arranged together
+}
+
+// Named group of elements that can be hidden or locked together; stacking order still comes from the element list
+export interface BoardLayer {
+  id: string;
+  name: string;
+  hidden: boolean;
+  locked: boolean;
+}
+
+export interface PriceTimeAnchor {
+  price: number;
+  time: number; // Unix ms
+}
+
+// Two price levels and two timestamps picked on a chart image.
+// Positions are stored relative to the image (0 to 1) so the mapping follows the chart when it moves or resizes.
+export interface ChartCalibration {
+  imageId: string;
+  prices: [{ ry: number; price: number }, { ry: number; price: number }];
+  times: [{ rx: number; time: number }, { rx: number; time: number }];
+}
+
+// Result of converting another app's drawing file; source types with no equivalent here are counted, not imported
+export interface DrawingImportResult {
+  elements: DrawingElement[];
+  unsupported: Record<string, number>;
+  approximated?: Record<string, number>; // Imported, but without something we can't draw (e.g. rotation)
+}
+
+// Board change requested by an AI tool call, held until the user accepts or rejects it
+export interface AiProposal {
+  id: string;
+  toolName: string;
+  add: DrawingElement[];
+  update: DrawingElement[]; // Replacement versions of existing elements
+  remove: string[];
 }
 
 export interface AudioPeer {
@@ -67,5 +118,31 @@ export enum ConnectionState {
   DISCONNECTED = 'disconnected',
   CONNECTING = 'connecting',
   CONNECTED = 'connected',
+  RECONNECTING = 'reconnecting', // Connection dropped; retrying with backoff
   ERROR = 'error',
 }
+
+// --- Board Sync ---
+
+// Lamport timestamp; ties are broken by comparing clientId so every peer picks the same winner
+export interface SyncVersion {
+  clock: number;
+  clientId: string;
+}
+
+export interface SyncOperation {
+  kind: 'add' | 'update' | 'delete';
+  elementId: string;
+  element?: DrawingElement; // Absent for deletes
+  version: SyncVersion;
+}
+
+// Live pointer/tool/selection of a participant, broadcast alongside board sync
+export interface PresenceState extends Pick<AudioPeer, 'id' | 'name' | 'avatar'> {
+  pointer: Point | null; // World coordinates, null when the pointer left the canvas
+  tool: Tool;
+  selectedElementIds: string[];
+  isLaserActive: boolean;
+}
+
+export type LocalPresence = Omit<PresenceState, 'id' | 'name' | 'avatar'>;
@@ -12,7 +12,10 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LIVE_PROVIDER': JSON.stringify(env.LIVE_PROVIDER || 'gemini'),
+        'process.env.GEMINI_LIVE_MODEL': JSON.stringify(env.GEMINI_LIVE_MODEL || ''),
+        'process.env.SYNC_URL': JSON.stringify(env.SYNC_URL || 'ws://localhost:8787')
       },
       resolve: {
         alias: {